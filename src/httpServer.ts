@@ -0,0 +1,259 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { createServer as createHttpServer, IncomingMessage, Server as HttpServer, ServerResponse } from "http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+import { StreamableHttpServerTransport, writeJsonRpcError } from "./streamableHttp.js";
+import { BrowserPool } from "./services/browserPool.js";
+import { searchScheduler } from "./services/scheduler.js";
+import { captchaBreaker } from "./services/captchaBreaker.js";
+import { ConcurrencyLimiter } from "./utils/concurrency.js";
+import { logger } from "./utils/logger.js";
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;                // Interface to listen on (default: 127.0.0.1)
+  authTokens?: string[];        // Bearer tokens accepted; no tokens means no authentication
+  clientConcurrency?: number;   // Tool calls run at once per client (default: 3)
+  sessionIdleTimeout?: number;  // Close streamable HTTP sessions unused for this long, in ms
+  allowRemoteWrites?: boolean;  // Let clients change the source rules and record feedback (default: refused)
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHttpServerTransport | SSEServerTransport;
+  clientId: string;
+}
+
+// Largest request body accepted on the streamable HTTP endpoint
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+const MCP_PATH = "/mcp";
+const SSE_PATH = "/sse";
+const SSE_MESSAGES_PATH = "/messages";
+
+/**
+ * Serve MCP over HTTP for several clients at once: streamable HTTP on /mcp and the older
+ * SSE transport on /sse and /messages. Every session gets its own MCP server, but they
+ * all share one browser pool (and the on-disk result cache), so a team gets warm searches.
+ * Resolves with the HTTP server once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  const host = options.host ?? "127.0.0.1";
+  const sessionIdleTimeout = options.sessionIdleTimeout ?? 30 * 60 * 1000;
+  const browserPool = new BrowserPool();
+  const limiter = new ConcurrencyLimiter(options.clientConcurrency ?? 3);
+  const sessions = new Map<string, Session>();
+
+  // Compare digests so the check takes the same time whatever the token
+  const tokenDigests = (options.authTokens ?? []).map(token => digest(token));
+
+  /**
+   * Client a request comes from: the matching token's label when authentication is on, else its address
+   */
+  function authenticate(req: IncomingMessage): string | undefined {
+    if (tokenDigests.length === 0) {
+      return req.socket.remoteAddress ?? "unknown";
+    }
+
+    const match = (req.headers.authorization ?? "").match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return undefined;
+    }
+    const presented = digest(match[1].trim());
+    const index = tokenDigests.findIndex(expected => timingSafeEqual(expected, presented));
+    return index >= 0 ? `client ${index + 1}` : undefined;
+  }
+
+  async function openSession(
+    transport: StreamableHttpServerTransport | SSEServerTransport,
+    clientId: string
+  ): Promise<Session> {
+    // Remote clients must not make the server's browser fetch its own network, or write its files
+    // unless the operator trusts them to
+    const server = createServer({ browserPool, limiter, clientId, remote: true, allowRemoteWrites: options.allowRemoteWrites });
+    const session: Session = { server, transport, clientId };
+    sessions.set(transport.sessionId, session);
+
+    await server.connect(transport);
+
+    // Chain onto the handler createServer installed
+    const onclose = server.onclose;
+    server.onclose = () => {
+      sessions.delete(transport.sessionId);
+      onclose?.();
+    };
+
+    logger.info(`[HTTP] Opened ${transport instanceof SSEServerTransport ? "SSE" : "streamable HTTP"} session ${transport.sessionId} for ${clientId}`);
+    return session;
+  }
+
+  async function handleMcpPost(req: IncomingMessage, res: ServerResponse, clientId: string): Promise<void> {
+    let body: unknown;
+    try {
+      body = JSON.parse(await readBody(req));
+    } catch (error) {
+      writeJsonRpcError(res, 400, ErrorCode.ParseError, `Parse error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId !== "string") {
+      const messages: any[] = Array.isArray(body) ? body : [body];
+      if (!messages.some(message => message?.method === "initialize")) {
+        writeJsonRpcError(res, 400, ErrorCode.InvalidRequest, "Missing Mcp-Session-Id header; start a session with an initialize request");
+        return;
+      }
+      const session = await openSession(new StreamableHttpServerTransport(), clientId);
+      await (session.transport as StreamableHttpServerTransport).handlePost(req, res, body);
+      return;
+    }
+
+    const session = sessions.get(sessionId);
+    // Sessions are bound to the client that opened them
+    if (!session || session.clientId !== clientId || !(session.transport instanceof StreamableHttpServerTransport)) {
+      writeJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Session not found");
+      return;
+    }
+    await session.transport.handlePost(req, res, body);
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+
+    // Health checks stay open so load balancers and monitors need no token
+    if (req.method === "GET" && url.pathname === "/health") {
+      const counts = { streamableHttp: 0, sse: 0 };
+      sessions.forEach(session => session.transport instanceof SSEServerTransport ? counts.sse++ : counts.streamableHttp++);
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+        status: "ok",
+        sessions: counts,
+        browser: browserPool.stats(),
+        searches: searchScheduler.stats(),
+        captcha: captchaBreaker.status(),
+        clients: limiter.stats(),
+      }));
+      return;
+    }
+
+    const clientId = authenticate(req);
+    if (!clientId) {
+      logger.warn(`[HTTP] Rejected unauthenticated ${req.method} ${url.pathname} from ${req.socket.remoteAddress}`);
+      res.writeHead(401, { "WWW-Authenticate": "Bearer", "Content-Type": "text/plain" }).end("Unauthorized");
+      return;
+    }
+
+    if (url.pathname === MCP_PATH) {
+      if (req.method === "POST") {
+        await handleMcpPost(req, res, clientId);
+      } else if (req.method === "DELETE") {
+        const sessionId = req.headers["mcp-session-id"];
+        const session = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+        if (!session || session.clientId !== clientId) {
+          res.writeHead(404).end();
+          return;
+        }
+        await session.server.close();
+        logger.info(`[HTTP] Closed session ${sessionId} at the client's request`);
+        res.writeHead(204).end();
+      } else {
+        // No standalone server-to-client stream; responses come back on each POST
+        res.writeHead(405, { Allow: "POST, DELETE" }).end();
+      }
+      return;
+    }
+
+    if (url.pathname === SSE_PATH && req.method === "GET") {
+      await openSession(new SSEServerTransport(SSE_MESSAGES_PATH, res), clientId);
+      return;
+    }
+
+    if (url.pathname === SSE_MESSAGES_PATH && req.method === "POST") {
+      const session = sessions.get(url.searchParams.get("sessionId") ?? "");
+      if (!session || session.clientId !== clientId || !(session.transport instanceof SSEServerTransport)) {
+        res.writeHead(404).end("Session not found");
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    res.writeHead(404).end("Not found");
+  }
+
+  const httpServer = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error(`[HTTP] Error handling ${req.method} ${req.url}: ${error}`);
+      if (!res.headersSent) {
+        writeJsonRpcError(res, 500, ErrorCode.InternalError, "Internal server error");
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  // SSE sessions end with their connection; streamable HTTP ones only by DELETE or going idle
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, session] of sessions) {
+      if (session.transport instanceof StreamableHttpServerTransport && now - session.transport.lastActivity > sessionIdleTimeout) {
+        logger.info(`[HTTP] Closing idle session ${sessionId}`);
+        session.server.close().catch(() => {});
+      }
+    }
+  }, 60 * 1000);
+  sweeper.unref();
+
+  const shutdown = async () => {
+    logger.info("[HTTP] Shutting down");
+    clearInterval(sweeper);
+    await Promise.allSettled(Array.from(sessions.values()).map(session => session.server.close()));
+    await browserPool.close().catch((error) => {
+      logger.warn(`[HTTP] Error closing browser pool: ${error}`);
+    });
+    httpServer.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, host, () => resolve());
+  });
+
+  logger.info(`[HTTP] Listening on http://${host}:${options.port} (streamable HTTP at ${MCP_PATH}, SSE at ${SSE_PATH})`);
+  logger.info(`[HTTP] Authentication ${tokenDigests.length > 0 ? `required (${tokenDigests.length} tokens)` : "disabled"}, ${options.clientConcurrency ?? 3} concurrent tool calls per client`);
+  return httpServer;
+}
+
+function digest(token: string): Buffer {
+  return createHash("sha256").update(token).digest();
+}
+
+/**
+ * Read a request body as text, rejecting bodies over MAX_BODY_SIZE
+ */
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    // Oversized bodies are drained rather than dropped, so the error response still reaches the client
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= MAX_BODY_SIZE) {
+        chunks.push(chunk);
+      }
+    });
+    req.on("end", () => {
+      if (size > MAX_BODY_SIZE) {
+        reject(new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`));
+        return;
+      }
+      resolve(Buffer.concat(chunks).toString("utf-8"));
+    });
+    req.on("error", reject);
+  });
+}
@@ -7,6 +7,15 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer } from "./server.js";
+import { startHttpServer } from "./httpServer.js";
+import { domainRegistry } from "./quality/registry.js";
+import { defaultQualityConfig } from "./quality/config.js";
+import { loadRankingModels } from "./quality/ranking.js";
+import { sourceRules, DEFAULT_SOURCE_RULES_FILE } from "./quality/sourceRules.js";
+import { searchScheduler, DEFAULT_MAX_CONCURRENT_SEARCHES } from "./services/scheduler.js";
+import { captchaHandoff } from "./services/captchaHandoff.js";
+import { cacheDefaults } from "./services/resultCache.js";
+import { getArgValues, getDomainPaths } from "./utils/cli.js";
 import { logger } from "./utils/logger.js";
 
 // Parse command line arguments, check for debug flag
@@ -22,12 +31,100 @@ async function main() {
     logger.debug("[Setup] Debug mode enabled, Chrome browser window will be visible");
   }
 
+  // Invalid domain files stop startup rather than silently scoring with the wrong rules
+  for (const domainPath of getDomainPaths()) {
+    const names = domainRegistry.loadPath(domainPath);
+    logger.info(`[Setup] Loaded quality domains from ${domainPath}: ${names.join(", ") || "none"}`);
+  }
+
+  // Learned ranking weights written by the train script replace the hand-tuned ones per domain
+  const rankingModelPath = getArgValues("--ranking-model").pop() || process.env.G_SEARCH_RANKING_MODEL;
+  if (rankingModelPath) {
+    defaultQualityConfig.rankingModels = loadRankingModels(rankingModelPath);
+    logger.info(`[Setup] Loaded ranking models from ${rankingModelPath}: ${Object.keys(defaultQualityConfig.rankingModels).join(", ") || "none"}`);
+  }
+
+  // Allow/block/boost rules for sites; the file is created by the first set_source_rule call
+  const sourceRulesPath = getArgValues("--source-rules").pop() || process.env.G_SEARCH_SOURCE_RULES || DEFAULT_SOURCE_RULES_FILE;
+  const ruleCount = sourceRules.loadFile(sourceRulesPath);
+  logger.info(`[Setup] Loaded ${ruleCount} source rules from ${sourceRules.file}`);
+
+  // Results per site before diversified ranking moves the rest of that site's results to the end
+  const maxPerHost = getArgValues("--max-per-host").pop() || process.env.G_SEARCH_MAX_PER_HOST;
+  if (maxPerHost) {
+    defaultQualityConfig.diversity.maxPerHost = parseIntegerOption("--max-per-host", maxPerHost, 0);
+  }
+
+  // Engine requests in flight at once across all tool calls (each engine is also rate limited)
+  const maxConcurrentSearches = getArgValues("--max-concurrent-searches").pop() || process.env.G_SEARCH_MAX_CONCURRENT_SEARCHES;
+  if (maxConcurrentSearches) {
+    searchScheduler.configure({ maxConcurrent: parseIntegerOption("--max-concurrent-searches", maxConcurrentSearches, 1) });
+  }
+  logger.info(`[Setup] Up to ${maxConcurrentSearches || DEFAULT_MAX_CONCURRENT_SEARCHES} concurrent searches`);
+
+  // Result cache file and lifetimes for searches that do not set their own
+  const cacheFile = getArgValues("--cache-file").pop() || process.env.G_SEARCH_CACHE_FILE;
+  const cacheTtl = getArgValues("--cache-ttl").pop() || process.env.G_SEARCH_CACHE_TTL;
+  const staleWhileRevalidate = getArgValues("--stale-while-revalidate").pop() || process.env.G_SEARCH_STALE_WHILE_REVALIDATE;
+  if (cacheFile) {
+    cacheDefaults.file = cacheFile;
+  }
+  if (cacheTtl) {
+    cacheDefaults.ttl = parseIntegerOption("--cache-ttl", cacheTtl, 0);
+  }
+  if (staleWhileRevalidate) {
+    cacheDefaults.staleWhileRevalidate = parseIntegerOption("--stale-while-revalidate", staleWhileRevalidate, 0);
+  }
+  logger.info(`[Setup] Result cache ${cacheDefaults.file}, fresh for ${cacheDefaults.ttl}ms, served stale for ${cacheDefaults.staleWhileRevalidate}ms more`);
+
+  // Headless servers can hand CAPTCHAs to the client instead of opening a browser window
+  if (process.argv.includes("--captcha-handoff") || ["1", "true"].includes(process.env.G_SEARCH_CAPTCHA_HANDOFF || "")) {
+    const handoffTimeout = getArgValues("--captcha-handoff-timeout").pop() || process.env.G_SEARCH_CAPTCHA_HANDOFF_TIMEOUT;
+    captchaHandoff.configure({
+      enabled: true,
+      timeout: handoffTimeout ? parseIntegerOption("--captcha-handoff-timeout", handoffTimeout, 1000) : undefined,
+    });
+    logger.info("[Setup] CAPTCHA handoff enabled: blocked searches wait for resolve_captcha");
+  }
+
+  // --port serves many clients over HTTP from one browser pool instead of one client over stdio
+  const port = getArgValues("--port").pop() || process.env.G_SEARCH_PORT;
+  if (port) {
+    await startHttpServer({
+      port: parseIntegerOption("--port", port, 0),
+      host: getArgValues("--host").pop() || process.env.G_SEARCH_HOST,
+      authTokens: [
+        ...(process.env.G_SEARCH_AUTH_TOKENS || "").split(",").map(token => token.trim()).filter(Boolean),
+        ...getArgValues("--auth-token"),
+      ],
+      clientConcurrency: parseIntegerOption(
+        "--client-concurrency",
+        getArgValues("--client-concurrency").pop() || process.env.G_SEARCH_CLIENT_CONCURRENCY || "3",
+        1
+      ),
+      allowRemoteWrites: process.argv.includes("--allow-remote-writes") || ["1", "true"].includes(process.env.G_SEARCH_ALLOW_REMOTE_WRITES || ""),
+    });
+    logger.info("[Setup] Server started");
+    return;
+  }
+
   const server = createServer();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   logger.info("[Setup] Server started");
 }
 
+/**
+ * Parse a whole-number option, stopping startup on anything else
+ */
+function parseIntegerOption(name: string, value: string, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new Error(`${name} must be an integer of at least ${min}, got "${value}"`);
+  }
+  return parsed;
+}
+
 main().catch((error) => {
   logger.error(`[Error] Server error: ${error}`);
   process.exit(1);
@@ -1,10 +1,32 @@
 // src/quality/analyzer.ts
-import { SearchResult, QualityConfig, QueryDomain, DomainConfig } from './types.js';
+import { SearchResult, QualityConfig, QueryDomain, DomainConfig, DomainHandler, DomainClassification, EngineResults, ScoreComponents, ComponentExplanation, DomainScoreExplanation, MatchedRules, SearchVertical, VerticalHandler, HostCapsOverride, RankingModel } from './types.js';
 import { defaultQualityConfig } from './config.js';
+import { classifyQueryDomains, DomainCandidate } from './classifier.js';
+import { canonicalizeUrl, clusterDuplicates } from './dedup.js';
+import { rerankForDiversity } from './diversity.js';
+import { applyRankingModel, RANKING_FEATURES } from './ranking.js';
+import { DomainRegistry, domainRegistry } from './registry.js';
+import { describeSourceRule, SourceRuleSet, sourceRules } from './sourceRules.js';
 import { MedicalDomainHandler } from './domains/medical.js';
 import { JavaScriptDomainHandler } from './domains/javascript.js';
 import { NimDomainHandler } from './domains/nim.js';
 import { GeneralDomainHandler } from './domains/general.js';
+import { NewsVerticalHandler } from './verticals/news.js';
+import { ImagesVerticalHandler } from './verticals/images.js';
+import { VideosVerticalHandler } from './verticals/videos.js';
+import { ScholarVerticalHandler } from './verticals/scholar.js';
+
+// A domain taking part in scoring, with its share of the blended score
+interface WeightedDomain {
+    domain: QueryDomain;
+    weight: number;
+}
+
+// Signed amount for rule descriptions, e.g. "+0.15"
+function signed(value: number): string {
+    const rounded = Math.round(value * 1000) / 1000;
+    return `${rounded >= 0 ? '+' : ''}${rounded}`;
+}
 
 export class SearchQualityAnalyzer {
     private config: QualityConfig;
@@ -12,128 +34,462 @@ export class SearchQualityAnalyzer {
     private jsHandler: JavaScriptDomainHandler;
     private nimHandler: NimDomainHandler;
     private generalHandler: GeneralDomainHandler;
+    private verticalHandlers: { [vertical in Exclude<SearchVertical, 'web'>]: VerticalHandler };
+    private registry: DomainRegistry;
+    private sourceRules: SourceRuleSet;
     
-    constructor(config: QualityConfig = defaultQualityConfig) {
+    constructor(
+        config: QualityConfig = defaultQualityConfig,
+        registry: DomainRegistry = domainRegistry,
+        rules: SourceRuleSet = sourceRules
+    ) {
         this.config = config;
+        this.registry = registry;
+        this.sourceRules = rules;
         this.medicalHandler = new MedicalDomainHandler();
         this.jsHandler = new JavaScriptDomainHandler();
         this.nimHandler = new NimDomainHandler();
         this.generalHandler = new GeneralDomainHandler();
+        this.verticalHandlers = {
+            news: new NewsVerticalHandler(),
+            images: new ImagesVerticalHandler(),
+            videos: new VideosVerticalHandler(),
+            scholar: new ScholarVerticalHandler()
+        };
     }
     
     /**
      * Detect if query is domain-specific (medical, JavaScript, Nim, etc.)
      */
     detectQueryDomain(query: string): QueryDomain {
-        const lowerQuery = query.toLowerCase();
+        return this.classifyQuery(query).domain;
+    }
+    
+    /**
+     * Rank every domain for a query by weighted keyword and synonym matches.
+     * Domains loaded from domain files come first, so they win ties with built-in domains.
+     */
+    classifyQuery(query: string): DomainClassification {
+        const candidates: DomainCandidate[] = [
+            ...this.registry.names().map(name => ({ domain: name, config: this.getDomainConfig(name) })),
+            { domain: 'medical', config: this.config.medicalConfig },
+            { domain: 'javascript', config: this.config.jsConfig },
+            { domain: 'nim', config: this.config.nimConfig }
+        ];
         
-        if (this.config.medicalConfig.keywords.some(keyword => lowerQuery.includes(keyword))) {
-            return 'medical';
+        return classifyQueryDomains(query, candidates, this.config.classification);
+    }
+    
+    /**
+     * Validate and score a single search result. Queries spanning several domains
+     * (e.g. "javascript medical imaging library") blend each domain's score.
+     * In explain mode the result carries a breakdown of how its score came about.
+     */
+    validateSearchResult(result: SearchResult, query: string, forcedDomain?: QueryDomain, explain: boolean = false): SearchResult {
+        return this.validateBlended(result, query, this.resolveDomains(query, forcedDomain), explain);
+    }
+    
+    /**
+     * Domains to score a query with: the forced domain, or the detected domain plus
+     * any runner-up scoring close to it, weighted by classification score
+     */
+    private resolveDomains(query: string, forcedDomain?: QueryDomain): WeightedDomain[] {
+        if (forcedDomain) {
+            return [{ domain: forcedDomain, weight: 1 }];
         }
         
-        if (this.config.jsConfig.keywords.some(keyword => lowerQuery.includes(keyword))) {
-            return 'javascript';
+        const { domain, distribution } = this.classifyQuery(query);
+        if (domain === 'general') {
+            return [{ domain, weight: 1 }];
         }
         
-        if (this.config.nimConfig.keywords.some(keyword => lowerQuery.includes(keyword))) {
-            return 'nim';
-        }
+        const { blendRatio, maxBlendedDomains } = this.config.classification;
+        const blended = distribution
+            .filter(entry => entry.domain !== 'general' && entry.score >= distribution[0].score * blendRatio)
+            .slice(0, maxBlendedDomains);
+        const total = blended.reduce((sum, entry) => sum + entry.score, 0);
         
-        return 'general';
+        return blended.map(entry => ({ domain: entry.domain, weight: entry.score / total }));
     }
     
-    /**
-     * Validate and score a single search result
-     */
-    validateSearchResult(result: SearchResult, query: string): SearchResult {
-        const domain = this.detectQueryDomain(query);
-        const domainConfig = this.getDomainConfig(domain);
-        const handler = this.getDomainHandler(domain);
+    private validateBlended(result: SearchResult, query: string, domains: WeightedDomain[], explain: boolean = false): SearchResult {
+        if (domains.length === 1) {
+            return this.validateForDomain(result, query, domains[0].domain, explain);
+        }
+        
+        const validated = domains.map(({ domain }) => this.validateForDomain(result, query, domain, explain));
+        const score = validated.reduce((sum, entry, index) => sum + domains[index].weight * entry.score!, 0);
+        const issues = Array.from(new Set(validated.flatMap(entry => entry.issues ?? [])));
         
-        let score = 0.5; // Start with neutral score
+        return {
+            ...validated[0],
+            score,
+            issues: issues.length > 0 ? issues : undefined,
+            explanation: explain ? {
+                score,
+                domains: validated.flatMap((entry, index) =>
+                    (entry.explanation?.domains ?? []).map(domain => ({ ...domain, weight: domains[index].weight })))
+            } : undefined
+        };
+    }
+    
+    private validateForDomain(result: SearchResult, query: string, domain: QueryDomain, explain: boolean = false): SearchResult {
         const issues: string[] = [];
         
-        // Basic validation
-        if (!result.title || !result.link || !result.snippet) {
+        // Basic validation (image results may legitimately carry no snippet)
+        if (!result.title || !result.link || (!result.snippet && result.vertical !== 'images')) {
             issues.push('Missing required fields');
-            return { ...result, score: 0, issues };
+            return { ...result, score: 0, issues, explanation: explain ? { score: 0, domains: [] } : undefined };
         }
         
-        // Length validation with domain-specific thresholds
-        score += this.validateLength(result, domainConfig, issues);
+        const rules: MatchedRules | undefined = explain ? {} : undefined;
+        const components = this.extractFeatures(result, query, domain, issues, rules);
+        const combined = this.combineComponents(components, domain, rules);
+        
+        return {
+            ...result,
+            score: combined.score,
+            issues: issues.length > 0 ? issues : undefined,
+            explanation: explain ? { score: combined.score, domains: [combined] } : undefined
+        };
+    }
+    
+    /**
+     * Score components of a result for one domain, before they are combined.
+     * These are the features learned ranking models are fitted on.
+     * When a rules object is given, the rules that fired are recorded per component.
+     */
+    extractFeatures(result: SearchResult, query: string, domain: QueryDomain, issues: string[] = [], rules?: MatchedRules): ScoreComponents {
+        const domainConfig = this.getDomainConfig(domain);
+        const handler = this.getDomainHandler(domain);
+        const verticalHandler = this.getVerticalHandler(result.vertical);
+        const trace = (component: keyof ScoreComponents): string[] | undefined => rules ? (rules[component] = []) : undefined;
+        
+        // Length validation with domain-specific thresholds, relaxed for text-poor verticals
+        const lengthConfig = verticalHandler
+            ? { ...domainConfig, minSnippetLength: Math.min(domainConfig.minSnippetLength, verticalHandler.config.minSnippetLength) }
+            : domainConfig;
+        const length = this.validateLength(result, lengthConfig, issues, trace('length'));
         
         // Query relevance with synonym support
-        score += this.validateRelevance(result, query, domainConfig, issues);
+        const relevance = this.validateRelevance(result, query, domainConfig, issues, trace('relevance'));
         
         // URL quality
-        score += this.validateUrl(result.link, domain, issues);
+        const url = this.validateUrl(result.link, domain, issues, trace('url'));
         
         // Domain-specific content validation
-        score += handler.validateContent(result);
+        const domainRules = trace('domainContent');
+        let domainContent = handler.validateContent(result);
+        if (domainContent !== 0) {
+            domainRules?.push(`${domain} content checks: ${signed(domainContent)}`);
+        }
         
         // General content quality checks
-        score += this.validateGeneralContent(result, query);
+        const generalContent = this.validateGeneralContent(result, query, trace('generalContent'));
         
         // Nim-specific additional validation
         if (domain === 'nim' && 'validateNimSpecificPatterns' in handler) {
-            score += (handler as NimDomainHandler).validateNimSpecificPatterns(result);
+            const nimPatterns = (handler as NimDomainHandler).validateNimSpecificPatterns(result);
+            domainContent += nimPatterns;
+            if (nimPatterns !== 0) {
+                domainRules?.push(`Nim-specific patterns: ${signed(nimPatterns)}`);
+            }
+        }
+        
+        // Vertical-specific signals (publisher, resolution, duration, citations)
+        const verticalRules = trace('vertical');
+        const vertical = verticalHandler ? verticalHandler.validateContent(result, issues) : 0;
+        if (vertical !== 0) {
+            verticalRules?.push(`${result.vertical} vertical signals: ${signed(vertical)}`);
         }
         
+        // Freshness of the publication date shown on the SERP
+        const recency = this.validateRecency(result, domain, issues, trace('recency'));
+        
+        const authorityRules = trace('authority');
+        const authoritySource = domain !== 'general' ? this.findAuthority(result.link, domain) : undefined;
+        const authority = authoritySource ? 1 : 0;
+        if (authoritySource) {
+            authorityRules?.push(`authority: ${authoritySource}`);
+        }
+        
+        return { length, relevance, url, domainContent, generalContent, vertical, recency, authority };
+    }
+    
+    /**
+     * Ranking-model weights that order results like the hand-tuned rule: every additive
+     * component counts once and authority counts as the domain's authority boost
+     */
+    handTunedWeights(domain: QueryDomain): RankingModel['weights'] {
+        const authorityBoost = this.getDomainConfig(domain).authorityBoost;
+        return Object.fromEntries(RANKING_FEATURES.map(feature => [feature, feature === 'authority' ? authorityBoost : 1]));
+    }
+    
+    /**
+     * Combine score components with the domain's learned ranking model, or the hand-tuned
+     * rule: neutral 0.5 plus every component, clamped, then the authority boost.
+     * Returns the score together with what each component contributed to it.
+     */
+    private combineComponents(components: ScoreComponents, domain: QueryDomain, rules: MatchedRules = {}): DomainScoreExplanation {
+        const explain = (component: keyof ScoreComponents, contribution: number, extraRules: string[] = []): ComponentExplanation => ({
+            component,
+            value: components[component],
+            contribution,
+            rules: [...(rules[component] ?? []), ...extraRules]
+        });
+        
+        const model = this.config.rankingModels?.[domain];
+        if (model) {
+            const explained = RANKING_FEATURES.map(feature => explain(feature, (model.weights[feature] ?? 0) * components[feature]));
+            return {
+                domain,
+                weight: 1,
+                method: 'model',
+                base: model.bias,
+                components: explained,
+                unclamped: explained.reduce((sum, component) => sum + component.contribution, model.bias),
+                clampAdjustment: 0,
+                score: applyRankingModel(model, components)
+            };
+        }
+        
+        const { authority, ...additive } = components;
+        const unclamped = 0.5 + Object.values(additive).reduce((sum, value) => sum + value, 0);
+        
         // Normalize score to 0-1 range
-        score = Math.max(0, Math.min(1, score));
+        const clamped = Math.max(0, Math.min(1, unclamped));
+        let score = clamped;
         
         // Apply domain-specific authority boosts
-        if (domain !== 'general' && this.isAuthoritySource(result.link, domain)) {
-            score = Math.min(1, score + domainConfig.authorityBoost);
+        const authorityBoost = this.getDomainConfig(domain).authorityBoost;
+        if (authority) {
+            score = Math.min(1, score + authorityBoost);
         }
+        const appliedBoost = score - clamped;
+        const boostRules = authority && appliedBoost < authorityBoost
+            ? [`boost of ${authorityBoost} capped at 1: ${signed(appliedBoost)}`]
+            : [];
         
         return {
-            ...result,
-            score,
-            issues: issues.length > 0 ? issues : undefined
+            domain,
+            weight: 1,
+            method: 'rules',
+            base: 0.5,
+            components: RANKING_FEATURES.map(feature => feature === 'authority'
+                ? explain(feature, appliedBoost, authority ? boostRules : [])
+                : explain(feature, components[feature])),
+            unclamped,
+            clampAdjustment: clamped - unclamped,
+            score
         };
     }
     
+    /**
+     * Quality threshold used when the caller doesn't set one
+     */
+    defaultMinQualityScore(domain: QueryDomain): number {
+        // Use lower threshold for domain-specific queries to avoid filtering out legitimate content
+        return domain !== 'general' ? 0.1 : 0.3;
+    }
+    
     /**
      * Apply quality filtering to a list of results
      */
     applyQualityFiltering(
         results: SearchResult[], 
         query: string, 
-        minQualityScore: number = 0.3
+        minQualityScore?: number,
+        forcedDomain?: QueryDomain,
+        explain: boolean = false,
+        filteredOut?: SearchResult[]
     ): SearchResult[] {
-        const domain = this.detectQueryDomain(query);
+        const domains = this.resolveDomains(query, forcedDomain);
+        const domain = domains[0].domain;
+        const adjustedMinScore = minQualityScore ?? this.defaultMinQualityScore(domain);
         
-        // Use lower threshold for domain-specific queries to avoid filtering out legitimate content
-        const adjustedMinScore = domain !== 'general' 
-            ? Math.min(minQualityScore, 0.1) 
-            : minQualityScore;
+        const validatedResults = this.filterByScore(
+            this.removeBlocked(results, domains, explain, filteredOut)
+                .map(result => this.validateBlended(result, query, domains, explain)),
+            adjustedMinScore,
+            filteredOut
+        ).sort((a, b) => b.score! - a.score!);
+        
+        return this.deduplicateResults(validatedResults);
+    }
+    
+    /**
+     * Re-rank scored results so the first ones come from different hosts and cover different
+     * source types and content, instead of several near-identical results from one site.
+     * Run after analyzeResult, which sets the source types. `caps` overrides the configured
+     * per-host caps for this call; hostCaps entries are merged over the configured ones.
+     */
+    diversifyResults(results: SearchResult[], caps: HostCapsOverride = {}): SearchResult[] {
+        const { diversity } = this.config;
+        return rerankForDiversity(results, {
+            ...diversity,
+            maxPerHost: caps.maxPerHost ?? diversity.maxPerHost,
+            hostCaps: { ...diversity.hostCaps, ...caps.hostCaps }
+        }, this.config.dedup);
+    }
+    
+    /**
+     * Fuse raw result lists from several search engines into one ranking.
+     * Combines reciprocal-rank fusion with the analyzer's quality score and
+     * rewards results that several engines agree on.
+     */
+    fuseResults(
+        engineResults: EngineResults[],
+        query: string,
+        minQualityScore?: number,
+        forcedDomain?: QueryDomain,
+        explain: boolean = false,
+        filteredOut?: SearchResult[]
+    ): SearchResult[] {
+        const domains = this.resolveDomains(query, forcedDomain);
+        const domain = domains[0].domain;
+        const { rrfK, rankWeight, qualityWeight, agreementBoost } = this.config.fusion;
+        const engineCount = engineResults.filter(list => list.results.length > 0).length;
+        
+        // Merge results for the same URL, remembering each engine's rank
+        const merged = new Map<string, SearchResult>();
+        for (const { engine, results } of engineResults) {
+            results.forEach((result, index) => {
+                const key = canonicalizeUrl(result.link);
+                const existing = merged.get(key);
+                if (existing) {
+                    existing.engines = [...(existing.engines || []), engine];
+                    existing.engineRanks = { ...existing.engineRanks, [engine]: index + 1 };
+                    // Prefer the richer snippet when engines disagree
+                    if (result.snippet.length > existing.snippet.length) {
+                        existing.snippet = result.snippet;
+                    }
+                } else {
+                    merged.set(key, {
+                        ...result,
+                        engines: [engine],
+                        engineRanks: { [engine]: index + 1 }
+                    });
+                }
+            });
+        }
+        
+        // Best possible RRF sum: ranked first by every engine
+        const maxRrf = engineCount > 0 ? engineCount / (rrfK + 1) : 1;
+        
+        const adjustedMinScore = minQualityScore ?? this.defaultMinQualityScore(domain);
+        
+        const scored = this.removeBlocked(Array.from(merged.values()), domains, explain, filteredOut)
+            .map(result => {
+                const validated = this.validateBlended(result, query, domains, explain);
+                const rrf = Object.values(result.engineRanks || {})
+                    .reduce((sum, rank) => sum + 1 / (rrfK + rank), 0);
+                const agreement = engineCount > 1
+                    ? ((result.engines?.length || 1) - 1) / (engineCount - 1)
+                    : 0;
+                const fusion = {
+                    quality: qualityWeight * validated.score!,
+                    rank: rankWeight * (rrf / maxRrf),
+                    agreement: agreementBoost * agreement
+                };
+                const unclamped = fusion.quality + fusion.rank + fusion.agreement;
+                const score = Math.max(0, Math.min(1, unclamped));
+                return {
+                    ...validated,
+                    score,
+                    explanation: validated.explanation && {
+                        ...validated.explanation,
+                        score,
+                        fusion: { ...fusion, clampAdjustment: score - unclamped }
+                    }
+                };
+            });
         
-        const validatedResults = results
-            .map(result => this.validateSearchResult(result, query))
-            .filter(result => result.score! >= adjustedMinScore)
+        const fused = this.filterByScore(scored, adjustedMinScore, filteredOut)
             .sort((a, b) => b.score! - a.score!);
         
-        return this.deduplicateResults(validatedResults);
+        return this.deduplicateResults(fused);
+    }
+    
+    /**
+     * Re-score a result using its fetched page content, blending the content
+     * score with the existing snippet score
+     */
+    scoreWithContent(result: SearchResult, query: string, forcedDomain?: QueryDomain): SearchResult {
+        const content = result.content;
+        if (!content || content.error || !content.text) {
+            return result;
+        }
+        
+        const issues: string[] = [];
+        
+        // Score the opening of the page the same way a snippet is scored
+        const probe: SearchResult = {
+            ...result,
+            snippet: [content.text.substring(0, 2000), ...content.codeBlocks.slice(0, 2)].join('\n'),
+            lastUpdated: content.publishedAt ?? result.lastUpdated
+        };
+        
+        const contentScore = this.resolveDomains(query, forcedDomain).reduce((sum, { domain, weight }) => {
+            const domainIssues: string[] = [];
+            const domainScore = this.scoreContentForDomain(probe, query, domain, domainIssues);
+            domainIssues.filter(issue => !issues.includes(issue)).forEach(issue => issues.push(issue));
+            return sum + weight * domainScore;
+        }, 0);
+        
+        const weight = this.config.contentWeight;
+        const score = Math.max(0, Math.min(1, (1 - weight) * (result.score ?? 0.5) + weight * contentScore));
+        const words = content.text.split(/\s+/).length;
+        const allIssues = [...(result.issues || []), ...issues.map(issue => `${issue} (page content)`)];
+        
+        return {
+            ...result,
+            score,
+            issues: allIssues.length > 0 ? allIssues : undefined,
+            hasCodeExamples: content.codeBlocks.length > 0 || result.hasCodeExamples,
+            contentLength: words > 1500 ? 'Long' : words > 400 ? 'Medium' : 'Short',
+            lastUpdated: content.publishedAt ?? result.lastUpdated,
+            explanation: result.explanation && {
+                ...result.explanation,
+                score,
+                content: { snippetScore: result.score ?? 0.5, contentScore, contentWeight: weight }
+            }
+        };
+    }
+    
+    /**
+     * Content score (0-1) of a page's opening text for one domain
+     */
+    private scoreContentForDomain(probe: SearchResult, query: string, domain: QueryDomain, issues: string[]): number {
+        const handler = this.getDomainHandler(domain);
+        
+        let score = 0.5;
+        score += this.validateRelevance(probe, query, this.getDomainConfig(domain), issues);
+        score += handler.validateContent(probe);
+        score += this.validateGeneralContent(probe, query);
+        if (domain === 'nim' && 'validateNimSpecificPatterns' in handler) {
+            score += (handler as NimDomainHandler).validateNimSpecificPatterns(probe);
+        }
+        score += this.validateRecency(probe, domain, issues);
+        return Math.max(0, Math.min(1, score));
     }
     
     /**
      * Enhanced result analysis with metadata enrichment
      */
-    analyzeResult(result: SearchResult, query: string): SearchResult {
+    analyzeResult(result: SearchResult, query: string, forcedDomain?: QueryDomain): SearchResult {
         const analyzed = { ...result };
-        const domain = this.detectQueryDomain(query);
-        const handler = this.getDomainHandler(domain);
+        const handlers = this.resolveDomains(query, forcedDomain).map(({ domain }) => this.getDomainHandler(domain));
+        const handler = handlers[0];
         
-        // Use domain-specific handlers for analysis
-        analyzed.sourceType = handler.detectSourceType(result.link);
+        // Use the main domain's handler for analysis; vertical results have a fixed kind
+        analyzed.sourceType = this.getVerticalHandler(result.vertical)?.detectSourceType(result)
+            ?? handler.detectSourceType(result.link);
         analyzed.difficulty = handler.estimateDifficulty(result);
         
-        // Detect code examples for technical content
-        if (domain === 'javascript') {
-            analyzed.hasCodeExamples = this.jsHandler.detectCodeExamples(result.snippet);
-        } else if (domain === 'nim') {
-            analyzed.hasCodeExamples = this.nimHandler.detectCodeExamples(result.snippet);
+        // Detect code examples for technical content, in any blended domain
+        const codeDetectors = handlers.filter(candidate => candidate.detectCodeExamples);
+        if (codeDetectors.length > 0) {
+            analyzed.hasCodeExamples = codeDetectors.some(candidate => candidate.detectCodeExamples!(result.snippet));
         }
         
         // Content length classification
@@ -168,10 +524,8 @@ export class SearchQualityAnalyzer {
         const enhanced = { ...result };
         const handler = this.getDomainHandler(domain);
         
-        if (domain === 'javascript' && 'formatSnippet' in handler) {
-            enhanced.snippet = (handler as JavaScriptDomainHandler).formatSnippet(result.snippet);
-        } else if (domain === 'nim' && 'formatSnippet' in handler) {
-            enhanced.snippet = (handler as NimDomainHandler).formatSnippet(result.snippet);
+        if (handler.formatSnippet) {
+            enhanced.snippet = handler.formatSnippet(result.snippet);
         }
         
         // Clean up common snippet issues
@@ -187,13 +541,14 @@ export class SearchQualityAnalyzer {
     /**
      * Get quality statistics for a set of results with domain breakdown
      */
-    getQualityStats(results: SearchResult[], query?: string): {
+    getQualityStats(results: SearchResult[], query?: string, forcedDomain?: QueryDomain): {
         totalResults: number;
         averageScore: number;
         highQualityCount: number;
         sourceTypeDistribution: { [key: string]: number };
         commonIssues: { [key: string]: number };
         detectedDomain?: QueryDomain;
+        domainClassification?: DomainClassification;
         domainSpecificStats?: any;
     } {
         const totalResults = results.length;
@@ -228,8 +583,10 @@ export class SearchQualityAnalyzer {
         
         // Add domain-specific stats if query provided
         if (query) {
-            const domain = this.detectQueryDomain(query);
+            const classification = forcedDomain ? undefined : this.classifyQuery(query);
+            const domain = forcedDomain ?? classification!.domain;
             stats.detectedDomain = domain;
+            stats.domainClassification = classification;
             
             // Domain-specific statistics
             if (domain === 'nim') {
@@ -258,6 +615,11 @@ export class SearchQualityAnalyzer {
                         /(study|research|trial|clinical)/.test(r.snippet.toLowerCase())
                     ).length
                 };
+            } else if (this.registry.has(domain)) {
+                stats.domainSpecificStats = {
+                    codeExampleCount: results.filter(r => r.hasCodeExamples).length,
+                    authoritySourceCount: results.filter(r => this.isAuthoritySource(r.link, domain)).length
+                };
             }
         }
         
@@ -271,7 +633,7 @@ export class SearchQualityAnalyzer {
             case 'medical': return this.config.medicalConfig;
             case 'javascript': return this.config.jsConfig;
             case 'nim': return this.config.nimConfig;
-            default: return {
+            default: return this.registry.get(domain)?.config ?? {
                 minTitleLength: this.config.minTitleLength,
                 minSnippetLength: this.config.minSnippetLength,
                 minRelevantWords: this.config.minRelevantWords,
@@ -281,34 +643,82 @@ export class SearchQualityAnalyzer {
         }
     }
     
-    private getDomainHandler(domain: QueryDomain) {
+    private getDomainHandler(domain: QueryDomain): DomainHandler {
         switch (domain) {
             case 'medical': return this.medicalHandler;
             case 'javascript': return this.jsHandler;
             case 'nim': return this.nimHandler;
-            default: return this.generalHandler;
+            default: return this.registry.get(domain)?.handler ?? this.generalHandler;
         }
     }
     
-    private validateLength(result: SearchResult, config: DomainConfig, issues: string[]): number {
+    private getVerticalHandler(vertical?: SearchVertical): VerticalHandler | undefined {
+        return vertical && vertical !== 'web' ? this.verticalHandlers[vertical] : undefined;
+    }
+    
+    /**
+     * Drop results a block rule covers in any of the scoring domains, collecting them in
+     * filteredOut when given
+     */
+    private removeBlocked(results: SearchResult[], domains: WeightedDomain[], explain: boolean, filteredOut?: SearchResult[]): SearchResult[] {
+        return results.filter(result => {
+            const block = domains
+                .map(({ domain }) => this.sourceRules.match(result.link, domain))
+                .find(rule => rule?.action === 'block');
+            if (!block) {
+                return true;
+            }
+            filteredOut?.push({
+                ...result,
+                score: 0,
+                issues: ['Blocked source'],
+                explanation: explain ? { score: 0, domains: [], filtered: true, blockedBy: describeSourceRule(block) } : undefined
+            });
+            return false;
+        });
+    }
+    
+    /**
+     * Keep results scoring at least the threshold, collecting the others in filteredOut when given.
+     * Explained results record the threshold they were held to.
+     */
+    private filterByScore(results: SearchResult[], threshold: number, filteredOut?: SearchResult[]): SearchResult[] {
+        return results
+            .map(result => result.explanation
+                ? { ...result, explanation: { ...result.explanation, threshold, filtered: result.score! < threshold } }
+                : result)
+            .filter(result => {
+                if (result.score! >= threshold) {
+                    return true;
+                }
+                filteredOut?.push(result);
+                return false;
+            });
+    }
+    
+    private validateLength(result: SearchResult, config: DomainConfig, issues: string[], rules?: string[]): number {
         let score = 0;
         
         if (result.title.length < config.minTitleLength) {
             issues.push('Title too short');
+            rules?.push(`title shorter than ${config.minTitleLength} characters: -0.2`);
             score -= 0.2;
         }
         
         if (result.snippet.length < config.minSnippetLength) {
             issues.push('Snippet too short');
+            rules?.push(`snippet shorter than ${config.minSnippetLength} characters: -0.2`);
             score -= 0.2;
         } else if (result.snippet.length > this.config.maxSnippetLength) {
             // Truncate long snippets but don't penalize
             result.snippet = result.snippet.substring(0, this.config.maxSnippetLength) + '...';
+            rules?.push(`snippet truncated to ${this.config.maxSnippetLength} characters`);
         } else {
             // Add bonus for snippets close to ideal length
             const lengthDiff = Math.abs(result.snippet.length - this.config.idealSnippetLength);
             if (lengthDiff <= this.config.snippetLengthTolerance) {
                 const bonus = 0.1 * (1 - lengthDiff / this.config.snippetLengthTolerance);
+                rules?.push(`snippet length ${result.snippet.length} near the ideal ${this.config.idealSnippetLength}: ${signed(bonus)}`);
                 score += bonus;
             }
         }
@@ -316,7 +726,7 @@ export class SearchQualityAnalyzer {
         return score;
     }
     
-    private validateRelevance(result: SearchResult, query: string, config: DomainConfig, issues: string[]): number {
+    private validateRelevance(result: SearchResult, query: string, config: DomainConfig, issues: string[], rules?: string[]): number {
         const queryWords = query.toLowerCase().split(/\s+/);
         const titleWords = result.title.toLowerCase().split(/\s+/);
         const snippetWords = result.snippet.toLowerCase().split(/\s+/);
@@ -326,6 +736,7 @@ export class SearchQualityAnalyzer {
         for (const word of queryWords) {
             if (titleWords.includes(word) || snippetWords.includes(word)) {
                 relevantWords++;
+                rules?.push(`query word "${word}"`);
             }
         }
         
@@ -336,6 +747,7 @@ export class SearchQualityAnalyzer {
                 for (const synonym of synonyms) {
                     if (titleWords.includes(synonym) || snippetWords.includes(synonym)) {
                         relevantWords += 0.8; // Partial credit for synonyms
+                        rules?.push(`synonym "${synonym}" of "${word}" (0.8 of a word)`);
                     }
                 }
             }
@@ -343,51 +755,82 @@ export class SearchQualityAnalyzer {
         
         if (relevantWords < config.minRelevantWords) {
             issues.push('Low query relevance');
+            rules?.push(`${relevantWords} relevant words, below the minimum of ${config.minRelevantWords}: -0.3`);
             return -0.3;
         }
         
-        return (relevantWords / queryWords.length) * this.config.snippetWeight;
+        const score = (relevantWords / queryWords.length) * this.config.snippetWeight;
+        rules?.push(`${relevantWords} of ${queryWords.length} query words matched, times snippet weight ${this.config.snippetWeight}: ${signed(score)}`);
+        return score;
+    }
+    
+    /**
+     * URL score: user source rules first (allowed sites count as trusted, boosts adjust
+     * the score), then the built-in URL patterns
+     */
+    private validateUrl(url: string, domain: QueryDomain, issues: string[], rules?: string[]): number {
+        const sourceRule = this.sourceRules.match(url, domain);
+        if (sourceRule?.action === 'allow') {
+            rules?.push(`source rule ${describeSourceRule(sourceRule)}: +0.7`);
+            return 0.7;
+        }
+        
+        const score = this.scoreUrlPatterns(url, domain, issues, rules);
+        if (sourceRule?.action === 'boost') {
+            rules?.push(`source rule ${describeSourceRule(sourceRule)}: ${signed(sourceRule.boost!)}`);
+            return score + sourceRule.boost!;
+        }
+        return score;
     }
     
-    private validateUrl(url: string, domain: QueryDomain, issues: string[]): number {
+    private scoreUrlPatterns(url: string, domain: QueryDomain, issues: string[], rules?: string[]): number {
         const lowerUrl = url.toLowerCase();
         
         // Check domain-specific trusted sources first
         const domainConfig = this.getDomainConfig(domain);
-        if (domainConfig.trustedDomains?.some(pattern => pattern.test(url))) {
+        const domainTrusted = domainConfig.trustedDomains?.find(pattern => pattern.test(url));
+        if (domainTrusted) {
+            rules?.push(`${domain} trusted pattern ${domainTrusted}: +0.7`);
             return 0.7; // Higher score for domain-specific authorities
         }
         
         // Check general trusted domains
-        if (this.config.urlPatterns.trusted.some(pattern => pattern.test(url))) {
+        const trusted = this.config.urlPatterns.trusted.find(pattern => pattern.test(url));
+        if (trusted) {
+            rules?.push(`trusted pattern ${trusted}: +0.5`);
             return 0.5;
         }
         
         // Check avoid list (penalize heavily)
-        if (this.config.urlPatterns.avoid.some(pattern => pattern.test(url))) {
+        const avoided = this.config.urlPatterns.avoid.find(pattern => pattern.test(url));
+        if (avoided) {
             issues.push('Low-quality source');
+            rules?.push(`avoided pattern ${avoided}: -0.5`);
             return -0.5;
         }
         
         // Check suspicious patterns
-        if (this.config.urlPatterns.suspicious.some(pattern => pattern.test(url))) {
+        const suspicious = this.config.urlPatterns.suspicious.find(pattern => pattern.test(url));
+        if (suspicious) {
             issues.push('Suspicious URL pattern');
+            rules?.push(`suspicious pattern ${suspicious}: -0.3`);
             return -0.3;
         }
         
         return 0;
     }
     
-    private validateGeneralContent(result: SearchResult, query: string): number {
+    private validateGeneralContent(result: SearchResult, query: string, rules?: string[]): number {
         let score = 0;
         
         // Check for spam words
-        const hasSpamWords = this.config.spamWords.some(word =>
+        const spamWords = this.config.spamWords.filter(word =>
             result.title.toLowerCase().includes(word) ||
             result.snippet.toLowerCase().includes(word)
         );
         
-        if (hasSpamWords) {
+        if (spamWords.length > 0) {
+            rules?.push(`spam words ${spamWords.map(word => `"${word}"`).join(', ')}: -0.3`);
             score -= 0.3;
         }
         
@@ -402,9 +845,16 @@ export class SearchQualityAnalyzer {
         ).length / queryWords.length;
         
         score += (titleDensity * 0.3 + snippetDensity * 0.2);
+        if (titleDensity > 0) {
+            rules?.push(`title contains ${Math.round(titleDensity * 100)}% of query words: ${signed(titleDensity * 0.3)}`);
+        }
+        if (snippetDensity > 0) {
+            rules?.push(`snippet contains ${Math.round(snippetDensity * 100)}% of query words: ${signed(snippetDensity * 0.2)}`);
+        }
         
         // Check for proper sentence structure in snippet
         if (/^[A-Z].*[.!?]$/.test(result.snippet)) {
+            rules?.push('snippet is a complete sentence: +0.05');
             score += 0.05;
         }
         
@@ -414,65 +864,86 @@ export class SearchQualityAnalyzer {
         const diversity = uniqueWords.size / words.length;
         
         if (diversity < 0.5) {
+            rules?.push(`repetitive snippet, ${Math.round(diversity * 100)}% unique words: -0.1`);
             score -= 0.1; // Penalize repetitive content
         }
         
         return score;
     }
     
-    private isAuthoritySource(url: string, domain: QueryDomain): boolean {
-        const domainConfig = this.getDomainConfig(domain);
+    /**
+     * Exponential recency decay: +weight for brand-new pages, 0 at the half-life,
+     * approaching -weight for very old pages. Undated results are left alone.
+     */
+    private validateRecency(result: SearchResult, domain: QueryDomain, issues: string[], rules?: string[]): number {
+        const published = result.lastUpdated ? Date.parse(result.lastUpdated) : NaN;
+        if (Number.isNaN(published)) {
+            return 0;
+        }
         
-        // Check domain-specific trusted sources
-        if (domainConfig.trustedDomains?.some(pattern => pattern.test(url))) {
-            return true;
+        const decays = this.config.recencyDecay;
+        const isNews = result.vertical === 'news' || result.sourceType === 'News';
+        const decay = (isNews && decays.news) || decays[domain] || this.getDomainConfig(domain).recency || decays.general;
+        if (!decay || decay.weight <= 0) {
+            return 0;
+        }
+        
+        const ageDays = Math.max(0, (Date.now() - published) / (24 * 60 * 60 * 1000));
+        const freshness = Math.pow(0.5, ageDays / decay.halfLifeDays);
+        if (freshness < 0.25) {
+            issues.push('Outdated content');
         }
         
-        // Check general trusted patterns
-        return this.config.urlPatterns.trusted.some(pattern => pattern.test(url));
+        const score = decay.weight * (2 * freshness - 1);
+        rules?.push(`published ${Math.round(ageDays)} days ago, half-life ${decay.halfLifeDays} days: ${signed(score)}`);
+        return score;
     }
     
-    private deduplicateResults(results: SearchResult[]): SearchResult[] {
-        const seen = new Set<string>();
-        const unique: SearchResult[] = [];
-        
-        for (const result of results) {
-            // Create content signature for deduplication
-            const signature = result.title.toLowerCase()
-                .replace(/[^a-z0-9\s]/g, '')
-                .split(/\s+/)
-                .sort()
-                .slice(0, 5)
-                .join(' ');
-            
-            // Also check URL for exact duplicates
-            const urlSignature = result.link.toLowerCase();
-            
-            if (!seen.has(signature) && !seen.has(urlSignature)) {
-                seen.add(signature);
-                seen.add(urlSignature);
-                unique.push(result);
-            }
+    private isAuthoritySource(url: string, domain: QueryDomain): boolean {
+        return this.findAuthority(url, domain) !== undefined;
+    }
+    
+    /**
+     * What makes a link an authority for the domain, if anything: an allow rule or a trusted pattern
+     */
+    private findAuthority(url: string, domain: QueryDomain): string | undefined {
+        const sourceRule = this.sourceRules.match(url, domain);
+        if (sourceRule?.action === 'allow') {
+            return `source rule ${describeSourceRule(sourceRule)}`;
         }
         
-        return unique;
+        // Check domain-specific trusted sources, then general trusted patterns
+        const domainConfig = this.getDomainConfig(domain);
+        const pattern = domainConfig.trustedDomains?.find(candidate => candidate.test(url))
+            ?? this.config.urlPatterns.trusted.find(candidate => candidate.test(url));
+        return pattern?.toString();
+    }
+    
+    /**
+     * Fold mirrors, tracking-parameter variants and syndicated copies into one result each,
+     * keeping the others as its alternates
+     */
+    private deduplicateResults(results: SearchResult[]): SearchResult[] {
+        return clusterDuplicates(results, this.config.dedup);
     }
     
     /**
      * Get domain-specific insights for results
      */
-    getDomainInsights(results: SearchResult[], query: string): {
+    getDomainInsights(results: SearchResult[], query: string, forcedDomain?: QueryDomain): {
         domain: QueryDomain;
         insights: string[];
         recommendations: string[];
     } {
-        const domain = this.detectQueryDomain(query);
+        const domain = forcedDomain ?? this.detectQueryDomain(query);
         const insights: string[] = [];
         const recommendations: string[] = [];
         
         const codeExampleCount = results.filter(r => r.hasCodeExamples).length;
         const authorityCount = results.filter(r => this.isAuthoritySource(r.link, domain)).length;
-        const averageScore = results.reduce((sum, r) => sum + (r.score || 0), 0) / results.length;
+        const averageScore = results.length > 0
+            ? results.reduce((sum, r) => sum + (r.score || 0), 0) / results.length
+            : 0;
         
         // Domain-specific insights
         if (domain === 'nim') {
@@ -516,6 +987,17 @@ export class SearchQualityAnalyzer {
             if (govCount === 0) {
                 recommendations.push('Consider checking official health authorities like CDC, WHO, or NIH');
             }
+            
+        } else if (this.registry.has(domain)) {
+            const trustedCount = results.filter(r =>
+                this.getDomainConfig(domain).trustedDomains?.some(pattern => pattern.test(r.link))
+            ).length;
+            
+            insights.push(`Found ${trustedCount} results from trusted ${domain} sources`);
+            
+            if (trustedCount === 0 && (this.getDomainConfig(domain).trustedDomains?.length ?? 0) > 0) {
+                recommendations.push(`Consider restricting the search to trusted ${domain} sites with the sites operator`);
+            }
         }
         
         // General quality insights
@@ -523,7 +1005,9 @@ export class SearchQualityAnalyzer {
             recommendations.push('Try more specific search terms to improve result quality');
         }
         
-        if (codeExampleCount === 0 && (domain === 'javascript' || domain === 'nim')) {
+        const isCodeDomain = domain === 'javascript' || domain === 'nim' ||
+            (this.registry.get(domain)?.config.codeIndicators?.length ?? 0) > 0;
+        if (codeExampleCount === 0 && isCodeDomain) {
             recommendations.push('Add "example" or "tutorial" to your query to find more practical code samples');
         }
         
@@ -541,7 +1025,7 @@ export function createQualityAnalyzer(customConfig?: Partial<QualityConfig>): Se
     return new SearchQualityAnalyzer(config);
 }
 
-export function validateResults(results: SearchResult[], query: string, minScore: number = 0.3): SearchResult[] {
+export function validateResults(results: SearchResult[], query: string, minScore?: number): SearchResult[] {
     const analyzer = createQualityAnalyzer();
     return analyzer.applyQualityFiltering(results, query, minScore);
 }
@@ -557,10 +1041,14 @@ export function getDomainInsights(results: SearchResult[], query: string): any {
 }
 
 // Re-export types for convenience
-export type { SearchResult, QualityConfig, QueryDomain, DomainConfig } from './types.js';
+export type { SearchResult, QualityConfig, QueryDomain, DomainConfig, DomainHandler, DomainDefinition, DomainClassification, ScoreExplanation, SourceRule } from './types.js';
 
 // Re-export domain handlers for advanced usage
 export { MedicalDomainHandler } from './domains/medical.js';
 export { JavaScriptDomainHandler } from './domains/javascript.js';
 export { NimDomainHandler } from './domains/nim.js';
-export { GeneralDomainHandler } from './domains/general.js';
\ No newline at end of file
+export { GeneralDomainHandler } from './domains/general.js';
+export { ConfigurableDomainHandler } from './domains/configurable.js';
+export { SourceRuleSet, sourceRules } from './sourceRules.js';
+export { canonicalizeUrl, clusterDuplicates } from './dedup.js';
+export { DomainRegistry, domainRegistry } from './registry.js';
\ No newline at end of file
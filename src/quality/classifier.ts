@@ -0,0 +1,78 @@
+// src/quality/classifier.ts
+import { ClassificationConfig, DomainClassification, DomainConfig, DomainScore, QueryDomain } from './types.js';
+
+export interface DomainCandidate {
+    domain: QueryDomain;
+    config: DomainConfig;
+}
+
+// Compiled term patterns, shared across queries
+const termPatterns = new Map<string, RegExp>();
+
+/**
+ * Match a keyword as a whole term, so "who" does not match "whole" and "js" does not match "jsx"
+ */
+function containsTerm(lowerQuery: string, term: string): boolean {
+    const lowerTerm = term.toLowerCase();
+    let pattern = termPatterns.get(lowerTerm);
+    if (!pattern) {
+        const escaped = lowerTerm.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        pattern = new RegExp(`(?<![a-z0-9])${escaped}(?![a-z0-9])`);
+        termPatterns.set(lowerTerm, pattern);
+    }
+    return pattern.test(lowerQuery);
+}
+
+/**
+ * Sum the weights of a domain's keywords found in the query. A synonym earns a share of
+ * its keyword's weight, and each keyword counts once however it was matched.
+ */
+function scoreDomain(lowerQuery: string, config: DomainConfig, synonymWeight: number): { score: number; matched: string[] } {
+    const weightOf = (keyword: string) => config.keywordWeights?.[keyword] ?? 1;
+    const matchedKeywords = new Set(config.keywords.filter(keyword => containsTerm(lowerQuery, keyword)));
+    const matched = Array.from(matchedKeywords);
+    let score = matched.reduce((sum, keyword) => sum + weightOf(keyword), 0);
+
+    for (const [keyword, synonyms] of Object.entries(config.synonyms ?? {})) {
+        if (matchedKeywords.has(keyword)) {
+            continue;
+        }
+        const synonym = synonyms.find(candidate => !matchedKeywords.has(candidate) && containsTerm(lowerQuery, candidate));
+        if (synonym) {
+            score += synonymWeight * weightOf(keyword);
+            matched.push(synonym);
+        }
+    }
+
+    return { score, matched };
+}
+
+/**
+ * Rank the candidate domains for a query. 'general' competes with a fixed prior score,
+ * so a domain is only detected once its keywords outweigh it; ties go to the earlier candidate.
+ */
+export function classifyQueryDomains(
+    query: string,
+    candidates: DomainCandidate[],
+    config: ClassificationConfig
+): DomainClassification {
+    const lowerQuery = query.toLowerCase();
+    const scored = [
+        { domain: 'general', score: config.generalPrior, matched: [] as string[] },
+        ...candidates.map(candidate => ({
+            domain: candidate.domain,
+            ...scoreDomain(lowerQuery, candidate.config, config.synonymWeight)
+        }))
+    ];
+
+    const total = scored.reduce((sum, entry) => sum + entry.score, 0);
+    const distribution: DomainScore[] = scored
+        .map(entry => ({ ...entry, probability: total > 0 ? entry.score / total : 0 }))
+        .sort((a, b) => b.score - a.score);
+
+    return {
+        domain: distribution[0].domain,
+        confidence: distribution[0].probability,
+        distribution
+    };
+}
@@ -1,9 +1,11 @@
 // src/quality/config.ts
-import { QualityConfig } from './types.js';
+import { QualityConfig, BuiltInDomain } from './types.js';
 import { medicalConfig } from './domains/medical.js';
 import { javascriptConfig } from './domains/javascript.js';
 import { nimConfig } from './domains/nim.js';
 
+export const QUERY_DOMAINS: BuiltInDomain[] = ['general', 'medical', 'javascript', 'nim'];
+
 export const defaultQualityConfig: QualityConfig = {
     minTitleLength: 5,
     minSnippetLength: 30,
@@ -41,5 +43,45 @@ export const defaultQualityConfig: QualityConfig = {
             /^https?:\/\/([a-zA-Z0-9-]+\.)*geeksforgeeks\.org/,
             /^https?:\/\/([a-zA-Z0-9-]+\.)*javatpoint\.com/,
         ]
+    },
+    
+    fusion: {
+        rrfK: 60,
+        rankWeight: 0.4,
+        qualityWeight: 0.6,
+        agreementBoost: 0.1
+    },
+    
+    contentWeight: 0.5,
+    
+    // Strong decay where stale information is harmful, weak for reference documentation
+    recencyDecay: {
+        news: { halfLifeDays: 7, weight: 0.2 },
+        medical: { halfLifeDays: 365, weight: 0.15 },
+        javascript: { halfLifeDays: 730, weight: 0.08 },
+        nim: { halfLifeDays: 1095, weight: 0.05 },
+        general: { halfLifeDays: 730, weight: 0.05 }
+    },
+    
+    classification: {
+        generalPrior: 0.5,
+        synonymWeight: 0.8,
+        blendRatio: 0.5,
+        maxBlendedDomains: 3
+    },
+    
+    dedup: {
+        shingleSize: 3,
+        signatureSize: 64,
+        similarityThreshold: 0.6,
+        minTokens: 8
+    },
+    
+    diversity: {
+        lambda: 0.7,
+        hostWeight: 0.5,
+        sourceTypeWeight: 0.2,
+        contentWeight: 0.3,
+        maxPerHost: 3
     }
 };
@@ -0,0 +1,220 @@
+// src/quality/dedup.ts
+import { DedupConfig, DuplicateAlternate, SearchResult } from './types.js';
+
+// Query parameters that only record where a visit came from. A bare "ref" is not one of them:
+// sites such as GitHub use it to pick a branch or tag, i.e. a different page.
+const TRACKING_PARAMS = /^(utm_[a-z_]+|gclid|gclsrc|dclid|fbclid|msclkid|yclid|mc_cid|mc_eid|igshid|_ga|_gl|ref_src|spm|__twitter_impression)$/i;
+
+// Host prefixes of mobile and AMP mirrors, dropped like "www."
+const MIRROR_HOST_PREFIX = /^(www\d*|m|mobile|amp)\./;
+
+// Google AMP cache links: https://example-com.cdn.ampproject.org/c/s/example.com/path
+const AMP_CACHE_PATH = /^\/[a-z]\/(?:s\/)?([^/]+)(\/.*)?$/i;
+
+interface Cluster {
+    members: SearchResult[];
+    signature?: number[];
+    alternates: Map<SearchResult, Pick<DuplicateAlternate, 'reason' | 'similarity'>>;
+}
+
+/**
+ * Canonical form of a result link, equal for copies of the same page: no scheme, "www.",
+ * mobile or AMP variants (host prefix, leading or trailing /amp, .amp, AMP cache), tracking
+ * parameters, fragment or trailing slash; remaining query parameters sorted
+ */
+export function canonicalizeUrl(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url.trim());
+    } catch (e) {
+        return url.trim().toLowerCase().replace(/#.*$/, '').replace(/\/+$/, '');
+    }
+
+    let host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+    let pathname = parsed.pathname;
+
+    const ampCache = host.endsWith('.cdn.ampproject.org') ? pathname.match(AMP_CACHE_PATH) : null;
+    if (ampCache) {
+        host = ampCache[1].toLowerCase();
+        pathname = ampCache[2] ?? '/';
+    }
+    host = host.replace(MIRROR_HOST_PREFIX, '');
+
+    pathname = pathname
+        .replace(/\/{2,}/g, '/')
+        .replace(/^\/amp(?=\/|$)/i, '')
+        .replace(/\/amp\/?$/i, '')
+        .replace(/\.amp(\.html?)?$/i, '$1')
+        .replace(/\/(index|default)\.(html?|php|aspx?)$/i, '/')
+        .replace(/\/+$/, '');
+
+    const params = Array.from(parsed.searchParams.entries())
+        .filter(([key, value]) => !TRACKING_PARAMS.test(key) &&
+            !(key.toLowerCase() === 'amp' || (key.toLowerCase() === 'outputtype' && value.toLowerCase() === 'amp')))
+        .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+    const query = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : '';
+
+    return `${host}${parsed.port ? `:${parsed.port}` : ''}${pathname}${query}`;
+}
+
+/**
+ * Host of a result link as in its canonical URL, e.g. "example.com" for "https://m.example.com/a"
+ */
+export function canonicalHost(url: string): string {
+    return canonicalizeUrl(url).replace(/[/?].*$/, '');
+}
+
+/**
+ * Lowercase words of a text, accents removed
+ */
+function tokenize(text: string): string[] {
+    return text.toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean);
+}
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * MurmurHash3 finalizer, used to derive independent hash functions from one shingle hash
+ */
+function mix(value: number): number {
+    value ^= value >>> 16;
+    value = Math.imul(value, 0x85ebca6b);
+    value ^= value >>> 13;
+    value = Math.imul(value, 0xc2b2ae35);
+    value ^= value >>> 16;
+    return value >>> 0;
+}
+
+/**
+ * MinHash signature of a text's word shingles; undefined when the text is too short to compare
+ */
+export function minHashSignature(text: string, config: DedupConfig): number[] | undefined {
+    const tokens = tokenize(text);
+    if (tokens.length < config.minTokens) {
+        return undefined;
+    }
+
+    const size = Math.min(config.shingleSize, tokens.length);
+    const seeds = Array.from({ length: config.signatureSize }, (_, i) => mix(i + 1));
+    const signature = new Array<number>(config.signatureSize).fill(0xffffffff);
+
+    for (let start = 0; start + size <= tokens.length; start++) {
+        const hash = fnv1a(tokens.slice(start, start + size).join(' '));
+        seeds.forEach((seed, i) => {
+            const value = mix(hash ^ seed);
+            if (value < signature[i]) {
+                signature[i] = value;
+            }
+        });
+    }
+
+    return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+    const length = Math.min(a.length, b.length);
+    let equal = 0;
+    for (let i = 0; i < length; i++) {
+        if (a[i] === b[i]) {
+            equal++;
+        }
+    }
+    return length > 0 ? equal / length : 0;
+}
+
+/**
+ * Fold engine provenance from a duplicate into the result kept for it
+ */
+function mergeEngines(target: SearchResult, duplicate: SearchResult): void {
+    if (!duplicate.engines) {
+        return;
+    }
+
+    const engines = new Set([...(target.engines || []), ...duplicate.engines]);
+    target.engines = Array.from(engines);
+    target.engineRanks = { ...duplicate.engineRanks, ...target.engineRanks };
+}
+
+/**
+ * Cluster copies of the same page (same canonical URL, or near-identical title and snippet)
+ * and return one representative per cluster, the highest-scoring member, listing the others
+ * as alternates. Each result is compared with the first member of every cluster so far, so
+ * results sorted best-first keep their order.
+ */
+export function clusterDuplicates(results: SearchResult[], config: DedupConfig): SearchResult[] {
+    const clusters: Cluster[] = [];
+    const byUrl = new Map<string, Cluster>();
+
+    for (const result of results) {
+        const canonicalUrl = canonicalizeUrl(result.link);
+        const sameUrl = byUrl.get(canonicalUrl);
+        if (sameUrl) {
+            sameUrl.members.push(result);
+            sameUrl.alternates.set(result, { reason: 'url' });
+            continue;
+        }
+
+        const signature = minHashSignature(`${result.title} ${result.snippet}`, config);
+        let match: { cluster: Cluster; similarity: number } | undefined;
+        if (signature) {
+            for (const cluster of clusters) {
+                const similarity = cluster.signature ? estimateSimilarity(signature, cluster.signature) : 0;
+                if (similarity >= config.similarityThreshold && (!match || similarity > match.similarity)) {
+                    match = { cluster, similarity };
+                }
+            }
+        }
+
+        if (match) {
+            match.cluster.members.push(result);
+            match.cluster.alternates.set(result, { reason: 'content', similarity: Math.round(match.similarity * 100) / 100 });
+            byUrl.set(canonicalUrl, match.cluster);
+            continue;
+        }
+
+        const cluster: Cluster = { members: [result], signature, alternates: new Map() };
+        clusters.push(cluster);
+        byUrl.set(canonicalUrl, cluster);
+    }
+
+    return clusters.map(cluster => {
+        const best = cluster.members.reduce((kept, member) => (member.score ?? 0) > (kept.score ?? 0) ? member : kept);
+        const representative: SearchResult = { ...best };
+        const others = cluster.members.filter(member => member !== best);
+        if (others.length === 0) {
+            return representative;
+        }
+
+        // The first member is the one the others were matched against
+        const leader = cluster.members[0];
+        representative.alternates = others.map(member => {
+            const match = member === leader ? cluster.alternates.get(best)! : cluster.alternates.get(member)!;
+            mergeEngines(representative, member);
+            return {
+                title: member.title,
+                link: member.link,
+                score: member.score,
+                engines: member.engines,
+                ...match
+            };
+        });
+        return representative;
+    });
+}
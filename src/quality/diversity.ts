@@ -0,0 +1,77 @@
+// src/quality/diversity.ts
+import { DedupConfig, DiversityConfig, SearchResult } from './types.js';
+import { canonicalHost, estimateSimilarity, minHashSignature } from './dedup.js';
+
+interface Candidate {
+    result: SearchResult;
+    index: number; // Position in the score-ordered input
+    host: string;
+    signature?: number[];
+}
+
+/**
+ * Redundancy (0-1 with the default weights) of two results: same host, same source type, overlapping text
+ */
+function redundancy(a: Candidate, b: Candidate, config: DiversityConfig): number {
+    let value = 0;
+
+    if (a.host === b.host) {
+        value += config.hostWeight;
+    }
+    if (a.result.sourceType && a.result.sourceType === b.result.sourceType) {
+        value += config.sourceTypeWeight;
+    }
+    if (a.signature && b.signature) {
+        value += config.contentWeight * estimateSimilarity(a.signature, b.signature);
+    }
+
+    return value;
+}
+
+/**
+ * Re-rank results with maximal marginal relevance: each next result maximizes
+ * lambda * score - (1 - lambda) * (its highest redundancy with a result ranked above it).
+ * Results beyond their host's cap move to the end, in their original order.
+ */
+export function rerankForDiversity(results: SearchResult[], config: DiversityConfig, dedup: DedupConfig): SearchResult[] {
+    if (results.length <= 1) {
+        return results;
+    }
+
+    const remaining: Candidate[] = results.map((result, index) => ({
+        result,
+        index,
+        host: canonicalHost(result.link),
+        signature: minHashSignature(`${result.title} ${result.snippet}`, dedup)
+    }));
+    const ranked: Candidate[] = [];
+    const overflow: Candidate[] = [];
+    const perHost = new Map<string, number>();
+
+    while (remaining.length > 0) {
+        let bestIndex = 0;
+        let bestValue = -Infinity;
+
+        remaining.forEach((candidate, i) => {
+            const maxRedundancy = ranked.reduce((max, picked) => Math.max(max, redundancy(candidate, picked, config)), 0);
+            const value = config.lambda * (candidate.result.score ?? 0) - (1 - config.lambda) * maxRedundancy;
+            if (value > bestValue) {
+                bestValue = value;
+                bestIndex = i;
+            }
+        });
+
+        const [picked] = remaining.splice(bestIndex, 1);
+        const count = perHost.get(picked.host) ?? 0;
+        const cap = config.hostCaps?.[picked.host] ?? config.maxPerHost;
+        if (cap !== undefined && count >= cap) {
+            overflow.push(picked);
+            continue;
+        }
+
+        perHost.set(picked.host, count + 1);
+        ranked.push(picked);
+    }
+
+    return [...ranked, ...overflow.sort((a, b) => a.index - b.index)].map(candidate => candidate.result);
+}
@@ -0,0 +1,171 @@
+// src/quality/domains/configurable.ts
+import { DomainConfig, DomainDefinition, DomainHandler, SearchResult } from '../types.js';
+
+const REGEX_LITERAL = /^\/(.+)\/([a-z]*)$/;
+
+const DEFAULT_BEGINNER_TERMS = [
+    'introduction', 'getting started', 'beginner', 'basics', 'fundamentals',
+    'first steps', 'hello world', 'simple', 'easy', 'overview'
+];
+
+const DEFAULT_ADVANCED_TERMS = [
+    'advanced', 'expert', 'complex', 'deep dive', 'internals',
+    'optimization', 'performance', 'architecture'
+];
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a "/regex/flags" literal, or a hostname such as "docs.rs" or "github.com/rust-lang"
+ * matching that host and its subdomains
+ */
+export function compileTrustedDomain(entry: string): RegExp {
+    const literal = entry.match(REGEX_LITERAL);
+    if (literal) {
+        return new RegExp(literal[1], literal[2]);
+    }
+
+    const host = entry.trim().replace(/^https?:\/\//i, '').replace(/\/+$/, '');
+    return new RegExp(`^https?:\\/\\/([a-zA-Z0-9-]+\\.)*${escapeRegExp(host)}(?=[\\/:?#]|$)`, 'i');
+}
+
+/**
+ * Compile a source-type matcher: a "/regex/flags" literal or a case-insensitive URL substring
+ */
+function compileUrlMatcher(entry: string): RegExp {
+    const literal = entry.match(REGEX_LITERAL);
+    return literal ? new RegExp(literal[1], literal[2]) : new RegExp(escapeRegExp(entry), 'i');
+}
+
+/**
+ * Build the scoring config for a declared domain, with the same defaults as the built-in technical domains
+ */
+export function createDomainConfig(definition: DomainDefinition): DomainConfig {
+    return {
+        minTitleLength: definition.minTitleLength ?? 3,
+        minSnippetLength: definition.minSnippetLength ?? 20,
+        minRelevantWords: definition.minRelevantWords ?? 1,
+        authorityBoost: definition.authorityBoost ?? 0.8,
+        keywords: definition.keywords.map(keyword => keyword.toLowerCase()),
+        keywordWeights: definition.keywordWeights && Object.fromEntries(
+            Object.entries(definition.keywordWeights).map(([keyword, weight]) => [keyword.toLowerCase(), weight])
+        ),
+        trustedDomains: (definition.trustedDomains ?? []).map(compileTrustedDomain),
+        codeIndicators: definition.codeIndicators,
+        synonyms: definition.synonyms,
+        recency: definition.recency
+    };
+}
+
+/**
+ * Domain handler driven entirely by a domain file, so new domains need no code
+ */
+export class ConfigurableDomainHandler implements DomainHandler {
+    private codeIndicators: string[];
+    private contentTerms: string[];
+    private beginnerTerms: string[];
+    private advancedTerms: string[];
+    private sourceTypes: { type: SearchResult['sourceType']; patterns: RegExp[] }[];
+
+    constructor(definition: DomainDefinition) {
+        this.codeIndicators = definition.codeIndicators ?? [];
+        this.contentTerms = (definition.contentTerms ?? []).map(term => term.toLowerCase());
+        this.beginnerTerms = (definition.difficulty?.beginner ?? DEFAULT_BEGINNER_TERMS).map(term => term.toLowerCase());
+        this.advancedTerms = (definition.difficulty?.advanced ?? DEFAULT_ADVANCED_TERMS).map(term => term.toLowerCase());
+        this.sourceTypes = (definition.sourceTypes ?? []).map(rule => ({
+            type: rule.type,
+            patterns: rule.match.map(compileUrlMatcher)
+        }));
+    }
+
+    validateContent(result: SearchResult): number {
+        let score = 0;
+        const content = (result.title + ' ' + result.snippet).toLowerCase();
+
+        // Code indicators only count for domains that declare them
+        if (this.codeIndicators.some(indicator => result.snippet.includes(indicator))) {
+            score += 0.2;
+        }
+
+        // Check for practical examples and tutorials
+        const practicalPatterns = [
+            /example|demo|tutorial|how.to|guide/i,
+            /step.by.step|walkthrough/i,
+            /best.practices|tips|tricks/i
+        ];
+
+        if (practicalPatterns.some(pattern => pattern.test(content))) {
+            score += 0.15;
+        }
+
+        // Bonus for code blocks or formatted code
+        if (this.codeIndicators.length > 0 && /```|<code>|<pre>/i.test(result.snippet)) {
+            score += 0.1;
+        }
+
+        // Domain concepts
+        if (this.contentTerms.some(term => content.includes(term))) {
+            score += 0.1;
+        }
+
+        return score;
+    }
+
+    detectCodeExamples(snippet: string): boolean {
+        if (this.codeIndicators.length === 0) {
+            return false;
+        }
+
+        // Formatted code, or several code indicators in one snippet
+        return /```[\s\S]*?```|<code>[\s\S]*?<\/code>|<pre>[\s\S]*?<\/pre>/i.test(snippet) ||
+               this.codeIndicators.filter(indicator => snippet.includes(indicator)).length >= 2;
+    }
+
+    estimateDifficulty(result: SearchResult): SearchResult['difficulty'] {
+        const content = (result.title + ' ' + result.snippet).toLowerCase();
+
+        const advancedCount = this.advancedTerms.filter(term => content.includes(term)).length;
+        const beginnerCount = this.beginnerTerms.filter(term => content.includes(term)).length;
+
+        if (advancedCount >= 2) {
+            return 'Advanced';
+        } else if (beginnerCount >= 1 && advancedCount === 0) {
+            return 'Beginner';
+        }
+
+        return 'Intermediate';
+    }
+
+    detectSourceType(url: string): SearchResult['sourceType'] {
+        // Declared rules first, in file order
+        const rule = this.sourceTypes.find(candidate => candidate.patterns.some(pattern => pattern.test(url)));
+        if (rule) {
+            return rule.type;
+        }
+
+        const lowerUrl = url.toLowerCase();
+
+        if (lowerUrl.includes('github.com') || lowerUrl.includes('gitlab.com') || lowerUrl.includes('bitbucket.org')) {
+            return 'Code Repository';
+        }
+
+        if (lowerUrl.includes('stackoverflow.com') || lowerUrl.includes('stackexchange.com')) {
+            return 'Q&A';
+        }
+
+        if (lowerUrl.includes('/docs/') || lowerUrl.includes('documentation')) {
+            return 'Documentation';
+        }
+
+        if (lowerUrl.includes('medium.com') || lowerUrl.includes('dev.to') || lowerUrl.includes('blog')) {
+            return 'Blog';
+        }
+
+        return 'Tutorial';
+    }
+}
@@ -14,6 +14,14 @@ export const javascriptConfig: DomainConfig = {
         'esm', 'cjs', 'module', 'package.json', 'eslint', 'prettier', 
         'jest', 'cypress', 'vitest', 'rollup', 'vite', 'parcel'
     ],
+    // Words shared with other programming and general queries
+    keywordWeights: {
+        'tips': 0.1, 'tricks': 0.1, 'best practices': 0.1, 'tutorial': 0.1,
+        'guide': 0.1, 'example': 0.1, 'api': 0.2, 'library': 0.2,
+        'framework': 0.3, 'function': 0.3, 'async': 0.3, 'module': 0.3,
+        'parcel': 0.3, 'promise': 0.4, 'callback': 0.4, 'closure': 0.4,
+        'prototype': 0.4, 'dom': 0.5, 'node': 0.6, 'react': 0.8
+    },
     codeIndicators: ['function', '=>', 'const', 'let', 'var', 'class', 'import', 'export', '{', '}', '()', '[]'],
     trustedDomains: [
         /^https?:\/\/([a-zA-Z0-9-]+\.)*(developer\.mozilla\.org|mdn\.)/,
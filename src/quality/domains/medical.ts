@@ -13,6 +13,12 @@ export const medicalConfig: DomainConfig = {
         'patient', 'hospital', 'medicine', 'pharmaceutical', 'drug',
         'symptom', 'infection', 'outbreak', 'epidemic', 'public health'
     ],
+    // Common words that only hint at a medical query; 'who' is mostly the pronoun
+    keywordWeights: {
+        'who': 0.2, 'study': 0.3, 'research': 0.3, 'guidelines': 0.3,
+        'prevention': 0.4, 'treatment': 0.6, 'health': 0.6, 'drug': 0.6,
+        'virus': 0.6, 'patient': 0.7, 'hospital': 0.7
+    },
     trustedDomains: [
         /^https?:\/\/([a-zA-Z0-9-]+\.)*(cdc|nih|who|fda|cms)\.gov/,
         /^https?:\/\/([a-zA-Z0-9-]+\.)*pubmed\.ncbi\.nlm\.nih\.gov/,
@@ -15,6 +15,17 @@ export const nimConfig: DomainConfig = {
         'async', 'threading', 'channels', 'parallelism', 'performance',
         'systems programming', 'zero cost', 'manual memory'
     ],
+    // Language keywords and concepts shared with other languages
+    keywordWeights: {
+        'method': 0.1, 'var': 0.1, 'let': 0.1, 'const': 0.1, 'type': 0.1,
+        'object': 0.1, 'ref': 0.1, 'ptr': 0.2, 'array': 0.1, 'string': 0.1,
+        'int': 0.1, 'float': 0.1, 'bool': 0.1, 'char': 0.1, 'range': 0.1,
+        'template': 0.2, 'converter': 0.2, 'async': 0.2, 'channels': 0.2,
+        'performance': 0.2, 'macro': 0.3, 'iterator': 0.3, 'threading': 0.3,
+        'parallelism': 0.3, 'memory management': 0.3, 'compile time': 0.3,
+        'seq': 0.4, 'gc': 0.4, 'metaprogramming': 0.4, 'systems programming': 0.4,
+        'zero cost': 0.4, 'manual memory': 0.4, 'proc': 0.5
+    },
     codeIndicators: [
         'proc', 'func', 'template', 'macro', 'iterator', 'converter',
         'var', 'let', 'const', 'type', 'when', 'case', 'of', 'elif',
@@ -0,0 +1,97 @@
+// src/quality/ranking.ts
+import * as fs from 'fs';
+import { RankingModel, ScoreComponents } from './types.js';
+
+export const RANKING_FEATURES: (keyof ScoreComponents)[] = [
+    'length', 'relevance', 'url', 'domainContent', 'generalContent', 'vertical', 'recency', 'authority'
+];
+
+export const DEFAULT_RANKING_MODEL_FILE = './ranking-model.json';
+
+/**
+ * File written by the trainer: one model per domain that had enough judgments
+ */
+export interface RankingModelFile {
+    version: 1;
+    trainedAt: string;
+    models: { [domain: string]: RankingModel };
+    report?: unknown; // Evaluation the models were accepted with, for reference
+}
+
+export function sigmoid(value: number): number {
+    return 1 / (1 + Math.exp(-value));
+}
+
+/**
+ * Score (0-1) of a result's components under a learned model, on the hand-tuned scale when
+ * the model is calibrated so quality thresholds keep their meaning
+ */
+export function applyRankingModel(model: RankingModel, components: ScoreComponents): number {
+    const logit = RANKING_FEATURES.reduce(
+        (sum, feature) => sum + (model.weights[feature] ?? 0) * components[feature],
+        model.bias
+    );
+    const probability = sigmoid(logit);
+    return model.calibration ? calibrate(model.calibration, probability) : probability;
+}
+
+/**
+ * Map a model output onto the hand-tuned scale by interpolating between calibration points
+ * (ascending in both coordinates), extending the outer segments beyond them
+ */
+export function calibrate(points: [number, number][], value: number): number {
+    if (points.length === 1) {
+        return points[0][1];
+    }
+
+    let upper = 1;
+    while (upper < points.length - 1 && points[upper][0] < value) {
+        upper++;
+    }
+    const [x0, y0] = points[upper - 1];
+    const [x1, y1] = points[upper];
+    return Math.max(0, Math.min(1, y0 + (y1 - y0) * (value - x0) / (x1 - x0)));
+}
+
+/**
+ * Load the models from a trainer output file; throws on a malformed file
+ */
+export function loadRankingModels(filePath: string): { [domain: string]: RankingModel } {
+    let parsed: RankingModelFile;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (e) {
+        throw new Error(`Failed to read ranking model file ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    if (!parsed || parsed.version !== 1 || !parsed.models || typeof parsed.models !== 'object') {
+        throw new Error(`Invalid ranking model file ${filePath}: expected version 1 with a models object`);
+    }
+
+    for (const [domain, model] of Object.entries(parsed.models)) {
+        const weightsValid = model && typeof model.weights === 'object' &&
+            Object.entries(model.weights).every(([feature, weight]) =>
+                RANKING_FEATURES.includes(feature as keyof ScoreComponents) && Number.isFinite(weight));
+        const calibrationValid = model?.calibration === undefined || (Array.isArray(model.calibration) &&
+            model.calibration.length > 0 &&
+            model.calibration.every((point, i, points) => Array.isArray(point) && point.length === 2 &&
+                point.every(Number.isFinite) && (i === 0 || (point[0] > points[i - 1][0] && point[1] >= points[i - 1][1]))));
+        if (!Number.isFinite(model?.bias) || !weightsValid || !calibrationValid) {
+            throw new Error(`Invalid ranking model file ${filePath}: bad model for domain "${domain}"`);
+        }
+    }
+
+    return parsed.models;
+}
+
+/**
+ * Normalized discounted cumulative gain of graded relevances listed in ranked order
+ */
+export function ndcgAtK(rankedRelevances: number[], k: number = 10): number {
+    const dcg = (relevances: number[]) => relevances
+        .slice(0, k)
+        .reduce((sum, relevance, index) => sum + (Math.pow(2, relevance) - 1) / Math.log2(index + 2), 0);
+
+    const ideal = dcg([...rankedRelevances].sort((a, b) => b - a));
+    return ideal > 0 ? dcg(rankedRelevances) / ideal : 0;
+}
@@ -0,0 +1,216 @@
+// src/quality/registry.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DomainConfig, DomainDefinition, DomainHandler, SearchResult } from './types.js';
+import { QUERY_DOMAINS } from './config.js';
+import { ConfigurableDomainHandler, createDomainConfig } from './domains/configurable.js';
+
+const DOMAIN_FILE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+const DOMAIN_NAME_PATTERN = /^[a-z][a-z0-9_-]{0,31}$/;
+
+const SOURCE_TYPES: NonNullable<SearchResult['sourceType']>[] = [
+    'Documentation', 'Tutorial', 'Q&A', 'Code Repository', 'Blog',
+    'Medical Authority', 'News', 'Academic', 'Image', 'Video'
+];
+
+export interface RegisteredDomain {
+    name: string;
+    description?: string;
+    source?: string; // File the domain was loaded from
+    config: DomainConfig;
+    handler: DomainHandler;
+}
+
+/**
+ * Check that a field is a list of non-empty strings
+ */
+function isStringList(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim() !== '');
+}
+
+/**
+ * Validate one parsed domain declaration, naming the file and field at fault
+ */
+function validateDefinition(raw: unknown, source: string): DomainDefinition {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid domain in ${source}: ${message}`);
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        fail('expected an object');
+    }
+    const definition = raw as { [key: string]: unknown };
+    const name = definition.name;
+
+    if (typeof name !== 'string' || !DOMAIN_NAME_PATTERN.test(name)) {
+        fail(`name must be lowercase letters, digits, "-" or "_" (got ${JSON.stringify(name)})`);
+    }
+    const label = `"${name}"`;
+
+    if (!isStringList(definition.keywords) || definition.keywords.length === 0) {
+        fail(`${label} keywords must be a non-empty list of strings`);
+    }
+
+    for (const field of ['trustedDomains', 'codeIndicators', 'contentTerms']) {
+        if (definition[field] !== undefined && !isStringList(definition[field])) {
+            fail(`${label} ${field} must be a list of strings`);
+        }
+    }
+
+    const synonyms = definition.synonyms;
+    if (synonyms !== undefined) {
+        if (!synonyms || typeof synonyms !== 'object' || Array.isArray(synonyms) ||
+            !Object.values(synonyms).every(isStringList)) {
+            fail(`${label} synonyms must map each word to a list of strings`);
+        }
+    }
+
+    const keywordWeights = definition.keywordWeights;
+    if (keywordWeights !== undefined) {
+        if (!keywordWeights || typeof keywordWeights !== 'object' || Array.isArray(keywordWeights) ||
+            !Object.values(keywordWeights).every(weight => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0)) {
+            fail(`${label} keywordWeights must map keywords to non-negative numbers`);
+        }
+    }
+
+    for (const field of ['authorityBoost', 'minTitleLength', 'minSnippetLength', 'minRelevantWords']) {
+        const value = definition[field];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+            fail(`${label} ${field} must be a non-negative number`);
+        }
+    }
+
+    const sourceTypes = definition.sourceTypes;
+    if (sourceTypes !== undefined) {
+        if (!Array.isArray(sourceTypes)) {
+            fail(`${label} sourceTypes must be a list of { type, match } rules`);
+        }
+        for (const rule of sourceTypes as { type?: unknown; match?: unknown }[]) {
+            if (!SOURCE_TYPES.includes(rule?.type as NonNullable<SearchResult['sourceType']>)) {
+                fail(`${label} sourceTypes type must be one of: ${SOURCE_TYPES.join(', ')}`);
+            }
+            if (!isStringList(rule.match) || rule.match.length === 0) {
+                fail(`${label} sourceTypes match must be a non-empty list of strings`);
+            }
+        }
+    }
+
+    const difficulty = definition.difficulty as { [key: string]: unknown } | undefined;
+    if (difficulty !== undefined) {
+        if (!difficulty || typeof difficulty !== 'object' ||
+            (difficulty.beginner !== undefined && !isStringList(difficulty.beginner)) ||
+            (difficulty.advanced !== undefined && !isStringList(difficulty.advanced))) {
+            fail(`${label} difficulty must have optional beginner and advanced lists of strings`);
+        }
+    }
+
+    const recency = definition.recency as { [key: string]: unknown } | undefined;
+    if (recency !== undefined) {
+        if (!recency || typeof recency !== 'object' ||
+            typeof recency.halfLifeDays !== 'number' || recency.halfLifeDays <= 0 ||
+            typeof recency.weight !== 'number' || recency.weight < 0) {
+            fail(`${label} recency must have a positive halfLifeDays and a non-negative weight`);
+        }
+    }
+
+    // Surface bad regex literals at load time rather than on the first search
+    try {
+        createDomainConfig(definition as unknown as DomainDefinition);
+        new ConfigurableDomainHandler(definition as unknown as DomainDefinition);
+    } catch (e) {
+        fail(`${label} ${e instanceof Error ? e.message : String(e)}`);
+    }
+
+    return definition as unknown as DomainDefinition;
+}
+
+/**
+ * User-defined quality domains, declared in JSON or YAML domain files and loaded at startup.
+ * Built-in domains (general, medical, javascript, nim) live in code and cannot be redefined.
+ */
+export class DomainRegistry {
+    private domains = new Map<string, RegisteredDomain>();
+
+    /**
+     * Register a domain declaration; throws when it is invalid or its name is taken
+     */
+    register(raw: unknown, source: string = 'inline definition'): RegisteredDomain {
+        const definition = validateDefinition(raw, source);
+
+        if ((QUERY_DOMAINS as string[]).includes(definition.name)) {
+            throw new Error(`Invalid domain in ${source}: "${definition.name}" is a built-in domain`);
+        }
+        const existing = this.domains.get(definition.name);
+        if (existing) {
+            throw new Error(`Invalid domain in ${source}: "${definition.name}" is already defined in ${existing.source}`);
+        }
+
+        const domain: RegisteredDomain = {
+            name: definition.name,
+            description: definition.description,
+            source,
+            config: createDomainConfig(definition),
+            handler: new ConfigurableDomainHandler(definition)
+        };
+        this.domains.set(domain.name, domain);
+        return domain;
+    }
+
+    get(name: string): RegisteredDomain | undefined {
+        return this.domains.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.domains.has(name);
+    }
+
+    names(): string[] {
+        return Array.from(this.domains.keys());
+    }
+
+    /**
+     * Load a domain file holding one domain or a list of domains; returns the names registered
+     */
+    loadFile(filePath: string): string[] {
+        const extension = path.extname(filePath).toLowerCase();
+        if (!DOMAIN_FILE_EXTENSIONS.includes(extension)) {
+            throw new Error(`Unsupported domain file ${filePath}: expected ${DOMAIN_FILE_EXTENSIONS.join(', ')}`);
+        }
+
+        let parsed: unknown;
+        try {
+            const text = fs.readFileSync(filePath, 'utf8');
+            parsed = extension === '.json' ? JSON.parse(text) : parseYaml(text);
+        } catch (e) {
+            throw new Error(`Failed to read domain file ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+        }
+
+        const definitions = Array.isArray(parsed) ? parsed : [parsed];
+        return definitions.map(definition => this.register(definition, filePath).name);
+    }
+
+    /**
+     * Load a domain file, or every domain file in a directory in name order
+     */
+    loadPath(target: string): string[] {
+        let stats: fs.Stats;
+        try {
+            stats = fs.statSync(target);
+        } catch (e) {
+            throw new Error(`Domain path not found: ${target}`);
+        }
+
+        if (!stats.isDirectory()) {
+            return this.loadFile(target);
+        }
+
+        return fs.readdirSync(target)
+            .filter(entry => DOMAIN_FILE_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+            .sort()
+            .flatMap(entry => this.loadFile(path.join(target, entry)));
+    }
+}
+
+// Shared by the analyzer, tool argument validation and startup loading
+export const domainRegistry = new DomainRegistry();
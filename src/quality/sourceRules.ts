@@ -0,0 +1,242 @@
+// src/quality/sourceRules.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { QueryDomain, SourceRule, SourceRuleAction } from './types.js';
+
+export const SOURCE_RULE_ACTIONS: SourceRuleAction[] = ['allow', 'block', 'boost'];
+
+export const DEFAULT_SOURCE_RULES_FILE = './source-rules.json';
+
+const HOST_PATTERN = /^(?=.{1,253}$)[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/;
+
+/**
+ * File holding the rules; rewritten whenever a rule is set or removed at runtime
+ */
+export interface SourceRulesFile {
+    version: 1;
+    rules: SourceRule[];
+}
+
+/**
+ * Reduce a hostname, URL or "*.host" wildcard to a bare lowercase hostname; throws when it is not one.
+ * A leading "www." is dropped, since rules match subdomains anyway.
+ */
+export function normalizeHost(input: string): string {
+    const host = input.trim().toLowerCase()
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+        .replace(/[/?#].*$/, '')
+        .replace(/:\d+$/, '')
+        .replace(/\.$/, '')
+        .replace(/^\*\./, '')
+        .replace(/^www\./, '');
+
+    if (!HOST_PATTERN.test(host)) {
+        throw new Error(`${JSON.stringify(input)} is not a hostname`);
+    }
+    return host;
+}
+
+/**
+ * Hostname of a result link, or undefined when the link is not a valid URL
+ */
+function hostnameOf(url: string): string | undefined {
+    try {
+        return new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+    } catch (e) {
+        return undefined;
+    }
+}
+
+/**
+ * Validate one rule, naming where it came from; returns it with a normalized host
+ */
+function validateRule(raw: unknown, source: string): SourceRule {
+    const fail = (message: string): never => {
+        throw new Error(`Invalid source rule in ${source}: ${message}`);
+    };
+
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        fail('expected an object');
+    }
+    const rule = raw as { [key: string]: unknown };
+
+    if (typeof rule.host !== 'string') {
+        fail('host must be a string');
+    }
+    let host = '';
+    try {
+        host = normalizeHost(rule.host as string);
+    } catch (e) {
+        fail(e instanceof Error ? e.message : String(e));
+    }
+
+    const action = rule.action as SourceRuleAction;
+    if (!SOURCE_RULE_ACTIONS.includes(action)) {
+        fail(`${host} action must be one of: ${SOURCE_RULE_ACTIONS.join(', ')}`);
+    }
+
+    if (rule.domain !== undefined && (typeof rule.domain !== 'string' || rule.domain.trim() === '')) {
+        fail(`${host} domain must be a domain name`);
+    }
+
+    const boost = rule.boost;
+    if (action === 'boost') {
+        if (typeof boost !== 'number' || !Number.isFinite(boost) || boost < -1 || boost > 1) {
+            fail(`${host} boost must be a number between -1 and 1`);
+        }
+    } else if (boost !== undefined) {
+        fail(`${host} boost only applies to boost rules`);
+    }
+
+    if (rule.note !== undefined && typeof rule.note !== 'string') {
+        fail(`${host} note must be a string`);
+    }
+
+    return {
+        host,
+        action,
+        domain: rule.domain as QueryDomain | undefined,
+        boost: action === 'boost' ? boost as number : undefined,
+        note: rule.note as string | undefined
+    };
+}
+
+/**
+ * Short description of a rule for logs and score explanations, e.g. "block example.com in javascript"
+ */
+export function describeSourceRule(rule: SourceRule): string {
+    return `${rule.action} ${rule.host}${rule.domain ? ` in ${rule.domain}` : ''}`;
+}
+
+/**
+ * User-managed allow, block and boost rules for result sites, loaded from a JSON rules file
+ * at startup and editable at runtime. Rules match a result's hostname and its subdomains,
+ * never the rest of the URL, and take precedence over the built-in URL patterns.
+ */
+export class SourceRuleSet {
+    private rules: SourceRule[] = [];
+    private filePath: string = path.resolve(DEFAULT_SOURCE_RULES_FILE);
+
+    /**
+     * File rule changes are saved to
+     */
+    get file(): string {
+        return this.filePath;
+    }
+
+    /**
+     * Load the rules file, replacing the current rules; a missing file holds no rules yet.
+     * Returns the number of rules loaded.
+     */
+    loadFile(filePath: string = DEFAULT_SOURCE_RULES_FILE): number {
+        const resolved = path.resolve(filePath);
+        let rules: SourceRule[] = [];
+
+        if (fs.existsSync(resolved)) {
+            let parsed: unknown;
+            try {
+                parsed = JSON.parse(fs.readFileSync(resolved, 'utf8'));
+            } catch (e) {
+                throw new Error(`Failed to read source rules file ${filePath}: ${e instanceof Error ? e.message : String(e)}`);
+            }
+
+            const list = Array.isArray(parsed) ? parsed : (parsed as SourceRulesFile | null)?.rules;
+            if (!Array.isArray(list)) {
+                throw new Error(`Invalid source rules file ${filePath}: expected a rules list`);
+            }
+            rules = list.map(rule => validateRule(rule, filePath));
+        }
+
+        this.filePath = resolved;
+        this.rules = rules;
+        return rules.length;
+    }
+
+    /**
+     * Every rule, or the rules that apply to one domain (its scoped rules plus the unscoped ones)
+     */
+    list(domain?: QueryDomain): SourceRule[] {
+        return this.rules.filter(rule => domain === undefined || rule.domain === undefined || rule.domain === domain);
+    }
+
+    /**
+     * Add a rule, replacing any rule for the same host and domain, and save the file
+     */
+    set(raw: unknown): SourceRule {
+        const rule = validateRule(raw, 'set_source_rule');
+        const rules = [...this.rules.filter(existing => !this.sameTarget(existing, rule)), rule];
+
+        this.save(rules);
+        this.rules = rules;
+        return rule;
+    }
+
+    /**
+     * Remove the rule for a host and domain, saving the file; returns false when there was none
+     */
+    remove(host: string, domain?: QueryDomain): boolean {
+        const target = { host: normalizeHost(host), domain };
+        const rules = this.rules.filter(existing => !this.sameTarget(existing, target));
+        if (rules.length === this.rules.length) {
+            return false;
+        }
+
+        this.save(rules);
+        this.rules = rules;
+        return true;
+    }
+
+    /**
+     * The rule for a result link in a domain: rules scoped to the domain beat unscoped ones,
+     * then the longest matching host wins
+     */
+    match(url: string, domain: QueryDomain): SourceRule | undefined {
+        if (this.rules.length === 0) {
+            return undefined;
+        }
+
+        const hostname = hostnameOf(url);
+        if (!hostname) {
+            return undefined;
+        }
+
+        let best: SourceRule | undefined;
+        for (const rule of this.rules) {
+            if (rule.domain !== undefined && rule.domain !== domain) {
+                continue;
+            }
+            if (hostname !== rule.host && !hostname.endsWith(`.${rule.host}`)) {
+                continue;
+            }
+
+            const moreSpecific = !best ||
+                (rule.domain !== undefined && best.domain === undefined) ||
+                ((rule.domain === undefined) === (best.domain === undefined) && rule.host.length > best.host.length);
+            if (moreSpecific) {
+                best = rule;
+            }
+        }
+
+        return best;
+    }
+
+    private sameTarget(a: Pick<SourceRule, 'host' | 'domain'>, b: Pick<SourceRule, 'host' | 'domain'>): boolean {
+        return a.host === b.host && a.domain === b.domain;
+    }
+
+    /**
+     * Write the rules file; throws when it cannot be written, so the change is not kept either
+     */
+    private save(rules: SourceRule[]): void {
+        const dir = path.dirname(this.filePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+
+        const file: SourceRulesFile = { version: 1, rules };
+        fs.writeFileSync(this.filePath, JSON.stringify(file, null, 2) + '\n', 'utf8');
+    }
+}
+
+// Shared by the analyzer, the source rule tools and startup loading
+export const sourceRules = new SourceRuleSet();
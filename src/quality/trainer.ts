@@ -0,0 +1,249 @@
+// src/quality/trainer.ts
+import { QueryDomain, RankingModel, RelevanceJudgment, ScoreComponents } from './types.js';
+import { SearchQualityAnalyzer } from './analyzer.js';
+import { applyRankingModel, ndcgAtK, RANKING_FEATURES, sigmoid } from './ranking.js';
+
+export interface TrainingOptions {
+    iterations?: number;
+    learningRate?: number;
+    l2?: number;          // Pull towards the hand-tuned weights, so sparse feedback only nudges them
+    minExamples?: number; // Judgments a domain needs before a model is fitted
+    k?: number;           // NDCG cutoff
+}
+
+export interface DomainTrainingReport {
+    domain: QueryDomain;
+    examples: number;
+    useful: number;
+    queries: number;
+    trained: boolean;
+    reason?: string; // Why no model was fitted
+    evaluation?: {
+        method: 'holdout' | 'training'; // Held-out queries when there are enough, else the training data
+        queries: number;                // Queries with at least two judged results, one of them relevant
+        ndcgBefore: number;             // Ranking by the hand-tuned score
+        ndcgAfter: number;              // Ranking by the learned model
+    };
+}
+
+export interface TrainingReport {
+    trainedAt: string;
+    k: number;
+    judgments: number;
+    domains: DomainTrainingReport[];
+}
+
+interface Example {
+    query: string;
+    features: ScoreComponents;
+    baseline: number;
+    relevance: number;
+}
+
+const USEFUL_RELEVANCE = 2;
+const HOLDOUT_BUCKETS = 5;
+
+// Quantiles at which model outputs are matched to hand-tuned scores
+const CALIBRATION_POINTS = 11;
+
+function round(value: number): number {
+    return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Stable bucket for a query, so the holdout split does not change between runs
+ */
+function queryBucket(query: string): number {
+    let hash = 5381;
+    for (let i = 0; i < query.length; i++) {
+        hash = ((hash * 33) ^ query.charCodeAt(i)) >>> 0;
+    }
+    return hash % HOLDOUT_BUCKETS;
+}
+
+function hasBothClasses(examples: Example[]): boolean {
+    const useful = examples.filter(example => example.relevance >= USEFUL_RELEVANCE).length;
+    return useful > 0 && useful < examples.length;
+}
+
+/**
+ * Logistic regression by batch gradient descent, starting from (and regularized towards)
+ * the hand-tuned weights, so a model fitted on little or uninformative feedback ranks like the rule
+ */
+function fitModel(examples: Example[], options: Required<TrainingOptions>, handTuned: RankingModel['weights']): RankingModel {
+    const prior = RANKING_FEATURES.map(feature => handTuned[feature] ?? 0);
+    const weights = [...prior];
+    let bias = 0;
+
+    for (let iteration = 0; iteration < options.iterations; iteration++) {
+        let biasGradient = 0;
+        const gradient = RANKING_FEATURES.map(() => 0);
+
+        for (const example of examples) {
+            const values = RANKING_FEATURES.map(feature => example.features[feature]);
+            const predicted = sigmoid(bias + values.reduce((sum, value, j) => sum + weights[j] * value, 0));
+            const error = predicted - (example.relevance >= USEFUL_RELEVANCE ? 1 : 0);
+            biasGradient += error;
+            values.forEach((value, j) => gradient[j] += error * value);
+        }
+
+        bias -= options.learningRate * biasGradient / examples.length;
+        weights.forEach((weight, j) => {
+            weights[j] -= options.learningRate * (gradient[j] / examples.length + options.l2 * (weight - prior[j]));
+        });
+    }
+
+    return {
+        bias: round(bias),
+        weights: Object.fromEntries(RANKING_FEATURES.map((feature, j) => [feature, round(weights[j])])),
+        examples: examples.length
+    };
+}
+
+/**
+ * Map the model's probabilities onto the hand-tuned scores by matching their quantiles over the
+ * training judgments, so scores keep their scale and a quality threshold drops the same share
+ * of results with or without the model
+ */
+function fitCalibration(model: RankingModel, examples: Example[]): [number, number][] {
+    const outputs = examples.map(example => applyRankingModel(model, example.features)).sort((a, b) => a - b);
+    const baselines = examples.map(example => example.baseline).sort((a, b) => a - b);
+
+    const points: [number, number][] = [];
+    for (let i = 0; i < CALIBRATION_POINTS; i++) {
+        const index = Math.round(i / (CALIBRATION_POINTS - 1) * (examples.length - 1));
+        const point: [number, number] = [round(outputs[index]), round(baselines[index])];
+        const last = points[points.length - 1];
+        if (last && point[0] <= last[0]) {
+            last[1] = point[1]; // Outputs too close to tell apart map to the higher score
+        } else {
+            points.push(point);
+        }
+    }
+    return points;
+}
+
+/**
+ * Mean NDCG over queries of the hand-tuned ranking and the model's ranking
+ */
+function evaluateModel(model: RankingModel, examples: Example[], k: number): { queries: number; ndcgBefore: number; ndcgAfter: number } {
+    const byQuery = new Map<string, Example[]>();
+    examples.forEach(example => byQuery.set(example.query, [...(byQuery.get(example.query) ?? []), example]));
+
+    const judged = Array.from(byQuery.values())
+        .filter(group => group.length >= 2 && group.some(example => example.relevance > 0));
+    const rankBy = (group: Example[], score: (example: Example) => number) => group
+        .map(example => ({ relevance: example.relevance, score: score(example) }))
+        .sort((a, b) => b.score - a.score)
+        .map(entry => entry.relevance);
+
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+    return {
+        queries: judged.length,
+        ndcgBefore: mean(judged.map(group => ndcgAtK(rankBy(group, example => example.baseline), k))),
+        ndcgAfter: mean(judged.map(group => ndcgAtK(rankBy(group, example => applyRankingModel(model, example.features)), k)))
+    };
+}
+
+/**
+ * Fit one ranking model per domain from relevance judgments and report NDCG before and after.
+ * The analyzer must use the hand-tuned scoring (no ranking models), which serves as the baseline.
+ */
+export function trainRankingModels(
+    judgments: RelevanceJudgment[],
+    analyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer(),
+    trainingOptions: TrainingOptions = {}
+): { models: { [domain: string]: RankingModel }; report: TrainingReport } {
+    const options: Required<TrainingOptions> = {
+        iterations: 2000,
+        learningRate: 0.1,
+        l2: 0.05,
+        minExamples: 10,
+        k: 10,
+        ...trainingOptions
+    };
+
+    const byDomain = new Map<QueryDomain, Example[]>();
+    for (const judgment of judgments) {
+        const example: Example = {
+            query: judgment.query.toLowerCase().trim(),
+            // Copies, since length validation truncates long snippets in place
+            features: analyzer.extractFeatures({ ...judgment.result }, judgment.query, judgment.domain),
+            baseline: analyzer.validateSearchResult({ ...judgment.result }, judgment.query, judgment.domain).score ?? 0,
+            relevance: judgment.relevance
+        };
+        byDomain.set(judgment.domain, [...(byDomain.get(judgment.domain) ?? []), example]);
+    }
+
+    const models: { [domain: string]: RankingModel } = {};
+    const domains: DomainTrainingReport[] = [];
+
+    for (const [domain, examples] of byDomain) {
+        const report: DomainTrainingReport = {
+            domain,
+            examples: examples.length,
+            useful: examples.filter(example => example.relevance >= USEFUL_RELEVANCE).length,
+            queries: new Set(examples.map(example => example.query)).size,
+            trained: false
+        };
+        domains.push(report);
+
+        if (examples.length < options.minExamples) {
+            report.reason = `needs at least ${options.minExamples} judgments`;
+            continue;
+        }
+        if (!hasBothClasses(examples)) {
+            report.reason = 'needs both useful and not useful judgments';
+            continue;
+        }
+
+        // Evaluate on held-out queries when both sides of the split are usable
+        const train = examples.filter(example => queryBucket(example.query) !== 0);
+        const test = examples.filter(example => queryBucket(example.query) === 0);
+        const handTuned = analyzer.handTunedWeights(domain);
+        const holdout = hasBothClasses(train) ? evaluateModel(fitModel(train, options, handTuned), test, options.k) : undefined;
+
+        const model = fitModel(examples, options, handTuned);
+        model.calibration = fitCalibration(model, examples);
+        const evaluation = holdout && holdout.queries > 0
+            ? { method: 'holdout' as const, ...holdout }
+            : { method: 'training' as const, ...evaluateModel(model, examples, options.k) };
+
+        models[domain] = model;
+        report.trained = true;
+        report.evaluation = evaluation;
+    }
+
+    return {
+        models,
+        report: {
+            trainedAt: new Date().toISOString(),
+            k: options.k,
+            judgments: judgments.length,
+            domains
+        }
+    };
+}
+
+/**
+ * Plain-text summary of a training report
+ */
+export function formatTrainingReport(report: TrainingReport): string {
+    const lines = [`Ranking models trained on ${report.judgments} judgments (NDCG@${report.k})`, ''];
+
+    for (const domain of report.domains) {
+        const counts = `${domain.examples} judgments, ${domain.useful} useful, ${domain.queries} queries`;
+        if (!domain.trained || !domain.evaluation) {
+            lines.push(`${domain.domain}: skipped (${domain.reason}) - ${counts}`);
+            continue;
+        }
+        const { method, queries, ndcgBefore, ndcgAfter } = domain.evaluation;
+        const change = ndcgAfter - ndcgBefore;
+        lines.push(
+            `${domain.domain}: NDCG ${ndcgBefore.toFixed(3)} -> ${ndcgAfter.toFixed(3)} ` +
+            `(${change >= 0 ? '+' : ''}${change.toFixed(3)}, ${method}, ${queries} queries) - ${counts}`
+        );
+    }
+
+    return lines.join('\n');
+}
@@ -5,11 +5,76 @@ export interface SearchResult {
    snippet: string;
    score?: number;
    issues?: string[];
-   sourceType?: 'Documentation' | 'Tutorial' | 'Q&A' | 'Code Repository' | 'Blog' | 'Medical Authority' | 'News';
+   sourceType?: 'Documentation' | 'Tutorial' | 'Q&A' | 'Code Repository' | 'Blog' | 'Medical Authority' | 'News' | 'Academic' | 'Image' | 'Video';
    hasCodeExamples?: boolean;
    difficulty?: 'Beginner' | 'Intermediate' | 'Advanced';
    contentLength?: 'Short' | 'Medium' | 'Long';
    lastUpdated?: string;
+   engines?: string[]; // Search engines that returned this result (meta-search)
+   engineRanks?: { [engine: string]: number }; // 1-based rank per engine (meta-search)
+   content?: PageContent; // Extracted page content when fetched
+   vertical?: SearchVertical; // Set for results of a non-web search vertical
+   news?: NewsMetadata;
+   image?: ImageMetadata;
+   video?: VideoMetadata;
+   scholar?: ScholarMetadata;
+   explanation?: ScoreExplanation; // Score breakdown, in explain mode
+   alternates?: DuplicateAlternate[]; // Near-duplicates folded into this result
+}
+
+/**
+ * Another copy of a result (mirror, syndicated copy, tracking-parameter variant) that was folded into it
+ */
+export interface DuplicateAlternate {
+   title: string;
+   link: string;
+   score?: number;
+   engines?: string[];
+   reason: 'url' | 'content'; // Same canonical URL, or near-identical title and snippet
+   similarity?: number;       // Estimated title+snippet similarity (0-1), for content duplicates
+}
+
+export type SearchVertical = 'web' | 'news' | 'images' | 'videos' | 'scholar';
+
+export interface NewsMetadata {
+   publisher?: string;
+   dateLabel?: string; // Date as shown on the results page, e.g. "3 hours ago"
+}
+
+export interface ImageMetadata {
+   imageUrl?: string;
+   thumbnailUrl?: string;
+   width?: number;
+   height?: number;
+   sourceName?: string; // Site hosting the image; the result link is its page
+}
+
+export interface VideoMetadata {
+   duration?: string;
+   durationSeconds?: number;
+   channel?: string;
+   platform?: string;
+   dateLabel?: string;
+}
+
+export interface ScholarMetadata {
+   authors: string[];
+   venue?: string;
+   year?: number;
+   citations?: number;
+   pdfLink?: string;
+}
+
+export interface PageContent {
+   url: string;
+   title: string;
+   text: string;
+   headings: string[];
+   codeBlocks: string[];
+   publishedAt?: string;
+   truncated: boolean;
+   tokenEstimate: number;
+   error?: string;
 }
 
 export interface DomainConfig {
@@ -18,9 +83,79 @@ export interface DomainConfig {
    minRelevantWords: number;
    authorityBoost: number;
    keywords: string[];
+   keywordWeights?: { [keyword: string]: number }; // Classification weight per keyword, default 1
    trustedDomains?: RegExp[];
    codeIndicators?: string[];
    synonyms?: { [key: string]: string[] };
+   recency?: RecencyDecayConfig; // Used when QualityConfig.recencyDecay has no entry for the domain
+}
+
+/**
+ * Domain-specific scoring and enrichment; the optional methods only apply to technical domains
+ */
+export interface DomainHandler {
+   validateContent(result: SearchResult): number;
+   estimateDifficulty(result: SearchResult): SearchResult['difficulty'];
+   detectSourceType(url: string): SearchResult['sourceType'];
+   detectCodeExamples?(snippet: string): boolean;
+   formatSnippet?(snippet: string): string;
+}
+
+/**
+ * A quality domain as declared in a JSON or YAML domain file.
+ * Trusted domains and source-type matchers are hostnames/URL fragments, or "/regex/flags".
+ */
+export interface DomainDefinition {
+   name: string;
+   description?: string;
+   keywords: string[];
+   keywordWeights?: { [keyword: string]: number };
+   synonyms?: { [key: string]: string[] };
+   trustedDomains?: string[];
+   codeIndicators?: string[];
+   authorityBoost?: number;
+   minTitleLength?: number;
+   minSnippetLength?: number;
+   minRelevantWords?: number;
+   sourceTypes?: SourceTypeRule[];
+   difficulty?: {
+       beginner?: string[];
+       advanced?: string[];
+   };
+   contentTerms?: string[]; // Domain concepts that earn a small content bonus when mentioned
+   recency?: RecencyDecayConfig;
+}
+
+export interface SourceTypeRule {
+   type: NonNullable<SearchResult['sourceType']>;
+   match: string[]; // URL substrings or "/regex/flags"; first matching rule wins
+}
+
+export type SourceRuleAction = 'allow' | 'block' | 'boost';
+
+/**
+ * A user-managed rule for results from one site, matched on the result's hostname
+ */
+export interface SourceRule {
+   host: string;             // Hostname; also matches its subdomains
+   action: SourceRuleAction; // allow: trusted authority, block: never returned, boost: URL score adjusted by `boost`
+   domain?: QueryDomain;     // Quality domain the rule is scoped to; every domain when unset
+   boost?: number;           // -1 to 1, for boost rules
+   note?: string;
+}
+
+export interface VerticalConfig {
+   minSnippetLength: number; // Replaces the domain minimum when lower (image results carry little text)
+   trustedSources: RegExp[];
+}
+
+/**
+ * Scoring rules for results of one search vertical, applied on top of the domain handler
+ */
+export interface VerticalHandler {
+   readonly config: VerticalConfig;
+   validateContent(result: SearchResult, issues: string[]): number;
+   detectSourceType(result: SearchResult): SearchResult['sourceType'];
 }
 
 export interface QualityConfig {
@@ -45,6 +180,169 @@ export interface QualityConfig {
        suspicious: RegExp[];
        avoid: RegExp[];
    };
+   
+   // Meta-search rank fusion
+   fusion: FusionConfig;
+   
+   // Share of the final score taken from fetched page content (vs. the snippet)
+   contentWeight: number;
+   
+   // Recency decay per query domain (plus 'news' for news results), falling back to 'general'
+   recencyDecay: { [domain: string]: RecencyDecayConfig };
+   
+   // Weighted query classification and multi-domain blending
+   classification: ClassificationConfig;
+   
+   // Near-duplicate detection
+   dedup: DedupConfig;
+   
+   // Re-ranking so the first results cover different hosts, source types and content
+   diversity: DiversityConfig;
+   
+   // Learned per-domain ranking models, replacing the hand-tuned combination for their domain
+   rankingModels?: { [domain: string]: RankingModel };
+}
+
+/**
+ * Additive score components for one result in one domain; the features ranking models are fitted on
+ */
+export interface ScoreComponents {
+   length: number;
+   relevance: number;
+   url: number;
+   domainContent: number;
+   generalContent: number;
+   vertical: number;
+   recency: number;
+   authority: number; // 1 when the link is an authority for a non-general domain
+}
+
+/**
+ * Logistic model over the score components: score = sigmoid(bias + sum(weight * component))
+ */
+export interface RankingModel {
+   bias: number;
+   weights: { [feature in keyof ScoreComponents]?: number };
+   examples: number; // Judgments the model was fitted on
+   calibration?: [number, number][]; // (model output, hand-tuned score) at matching quantiles, ascending
+}
+
+// Rules that fired while computing each score component, e.g. the trusted pattern or spam word matched
+export type MatchedRules = { [component in keyof ScoreComponents]?: string[] };
+
+/**
+ * One score component's part in a domain score
+ */
+export interface ComponentExplanation {
+   component: keyof ScoreComponents;
+   value: number;        // Component value
+   contribution: number; // What it added: the value itself, the model weight times the value, or the authority boost actually applied
+   rules: string[];
+}
+
+/**
+ * How one domain scored a result
+ */
+export interface DomainScoreExplanation {
+   domain: QueryDomain;
+   weight: number;          // Share of the blended score
+   method: 'rules' | 'model'; // Hand-tuned combination or learned ranking model
+   base: number;            // Neutral score, or the model bias
+   components: ComponentExplanation[];
+   unclamped: number;       // Base plus every component except authority, or the model logit
+   clampAdjustment: number; // Change from clamping to 0-1 (negative when capped at 1, positive when floored at 0)
+   score: number;
+}
+
+/**
+ * Why a result got its final score; attached to results in explain mode
+ */
+export interface ScoreExplanation {
+   score: number;
+   domains: DomainScoreExplanation[];
+   fusion?: {                   // Meta-search: contributions to the fused score
+       quality: number;
+       rank: number;
+       agreement: number;
+       clampAdjustment: number;
+   };
+   content?: {                  // Re-scoring with fetched page content
+       snippetScore: number;
+       contentScore: number;
+       contentWeight: number;
+   };
+   threshold?: number;          // Minimum score to be kept
+   filtered?: boolean;          // Dropped for scoring below the threshold
+   blockedBy?: string;          // Source rule that removed the result before scoring
+}
+
+/**
+ * A user's judgment of how useful a result was for a query
+ */
+export interface RelevanceJudgment {
+   query: string;
+   domain: QueryDomain;
+   result: SearchResult;
+   relevance: number; // 0 (not useful) to 3 (exactly what was needed); 2 and up counts as useful
 }
 
-export type QueryDomain = 'medical' | 'javascript' | 'nim' | 'general'; // Add 'nim'
+export interface ClassificationConfig {
+   generalPrior: number;      // Score 'general' starts with; a domain must beat it to be detected
+   synonymWeight: number;     // Share of a keyword's weight earned by matching one of its synonyms
+   blendRatio: number;        // Domains scoring at least this share of the top domain are blended
+   maxBlendedDomains: number;
+}
+
+export interface DedupConfig {
+   shingleSize: number;         // Words per shingle of title+snippet text
+   signatureSize: number;       // MinHash values per result
+   similarityThreshold: number; // Estimated Jaccard similarity at which two results are duplicates
+   minTokens: number;           // Shorter texts are only compared by URL
+}
+
+export interface DiversityConfig {
+   lambda: number;           // Weight of the quality score against redundancy with results ranked above (1 keeps score order)
+   hostWeight: number;       // Redundancy of two results from the same host
+   sourceTypeWeight: number; // Redundancy of two results of the same source type
+   contentWeight: number;    // Redundancy per unit of estimated title+snippet similarity
+   maxPerHost?: number;      // Results per host before the rest move to the end; no cap when unset
+   hostCaps?: { [host: string]: number }; // Per-host overrides of maxPerHost, keyed by hostname without "www."
+}
+
+// Per-call overrides of the diversity host caps
+export type HostCapsOverride = Pick<DiversityConfig, 'maxPerHost' | 'hostCaps'>;
+
+export interface RecencyDecayConfig {
+   halfLifeDays: number; // Age at which a page gets neither bonus nor penalty
+   weight: number;       // Bonus for brand-new pages; very old pages approach the same penalty
+}
+
+export interface FusionConfig {
+   rrfK: number;           // Reciprocal-rank fusion damping constant
+   rankWeight: number;     // Share of the final score taken from normalized RRF
+   qualityWeight: number;  // Share of the final score taken from the analyzer score
+   agreementBoost: number; // Bonus when every engine returned the result
+}
+
+export interface EngineResults {
+   engine: string;
+   results: SearchResult[]; // Raw results in the engine's rank order
+}
+
+export interface DomainScore {
+   domain: QueryDomain;
+   score: number;       // Sum of matched keyword weights ('general' holds the prior)
+   probability: number; // Share of the summed scores
+   matched: string[];   // Keywords and synonyms found in the query
+}
+
+export interface DomainClassification {
+   domain: QueryDomain; // Highest-ranked domain
+   confidence: number;  // Its probability
+   distribution: DomainScore[]; // Every candidate domain, best first
+}
+
+export type BuiltInDomain = 'medical' | 'javascript' | 'nim' | 'general';
+
+// Built-in domains plus any loaded from domain files at startup
+export type QueryDomain = BuiltInDomain | (string & {});
@@ -0,0 +1,64 @@
+// src/quality/verticals/images.ts
+import { SearchResult, VerticalConfig, VerticalHandler } from '../types.js';
+import { matchesHost } from './shared.js';
+
+export const imagesVerticalConfig: VerticalConfig = {
+    minSnippetLength: 0,
+    trustedSources: [
+        /(^|\.)wikimedia\.org$/,
+        /(^|\.)wikipedia\.org$/,
+        /(^|\.)unsplash\.com$/,
+        /(^|\.)flickr\.com$/,
+        /(^|\.)nasa\.gov$/,
+        /(^|\.)pexels\.com$/,
+    ]
+};
+
+// Stock libraries whose previews are watermarked
+const STOCK_SOURCES: RegExp[] = [
+    /(^|\.)shutterstock\.com$/,
+    /(^|\.)alamy\.com$/,
+    /(^|\.)gettyimages\.[a-z.]+$/,
+    /(^|\.)istockphoto\.com$/,
+    /(^|\.)dreamstime\.com$/,
+    /(^|\.)123rf\.com$/,
+];
+
+export class ImagesVerticalHandler implements VerticalHandler {
+    readonly config = imagesVerticalConfig;
+    
+    validateContent(result: SearchResult, issues: string[]): number {
+        let score = 0;
+        const image = result.image;
+        
+        // Resolution of the original image, when the results page exposes it
+        if (image?.width && image?.height) {
+            const shortestSide = Math.min(image.width, image.height);
+            if (shortestSide >= 800) {
+                score += 0.15;
+            } else if (shortestSide < 200) {
+                issues.push('Low resolution image');
+                score -= 0.1;
+            }
+        }
+        
+        if (image?.imageUrl) {
+            score += 0.05;
+        }
+        
+        if (matchesHost(result.link, this.config.trustedSources)) {
+            score += 0.1;
+        }
+        
+        if (matchesHost(result.link, STOCK_SOURCES)) {
+            issues.push('Stock image (likely watermarked)');
+            score -= 0.1;
+        }
+        
+        return score;
+    }
+    
+    detectSourceType(): SearchResult['sourceType'] {
+        return 'Image';
+    }
+}
@@ -0,0 +1,55 @@
+// src/quality/verticals/news.ts
+import { SearchResult, VerticalConfig, VerticalHandler } from '../types.js';
+import { matchesHost } from './shared.js';
+
+export const newsVerticalConfig: VerticalConfig = {
+    minSnippetLength: 10,
+    trustedSources: [
+        /(^|\.)reuters\.com$/,
+        /(^|\.)apnews\.com$/,
+        /(^|\.)bbc\.(co\.uk|com)$/,
+        /(^|\.)npr\.org$/,
+        /(^|\.)nytimes\.com$/,
+        /(^|\.)theguardian\.com$/,
+        /(^|\.)wsj\.com$/,
+        /(^|\.)ft\.com$/,
+        /(^|\.)bloomberg\.com$/,
+        /(^|\.)economist\.com$/,
+        /(^|\.)arstechnica\.com$/,
+    ]
+};
+
+export class NewsVerticalHandler implements VerticalHandler {
+    readonly config = newsVerticalConfig;
+    
+    validateContent(result: SearchResult, issues: string[]): number {
+        let score = 0;
+        
+        // Established newsrooms
+        if (matchesHost(result.link, this.config.trustedSources)) {
+            score += 0.15;
+        }
+        
+        if (result.news?.publisher) {
+            score += 0.05;
+        }
+        
+        // Recency itself is scored by the analyzer's 'news' decay; an undated story can't be judged
+        if (!result.lastUpdated) {
+            issues.push('Undated news article');
+            score -= 0.05;
+        }
+        
+        // Opinion and sponsored pieces are rarely what a news search is after
+        if (/\b(opinion|op-ed|sponsored|partner content)\b/i.test(result.title)) {
+            issues.push('Opinion or sponsored article');
+            score -= 0.1;
+        }
+        
+        return score;
+    }
+    
+    detectSourceType(): SearchResult['sourceType'] {
+        return 'News';
+    }
+}
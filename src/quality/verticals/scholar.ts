@@ -0,0 +1,58 @@
+// src/quality/verticals/scholar.ts
+import { SearchResult, VerticalConfig, VerticalHandler } from '../types.js';
+import { matchesHost } from './shared.js';
+
+export const scholarVerticalConfig: VerticalConfig = {
+    minSnippetLength: 20,
+    trustedSources: [
+        /(^|\.)arxiv\.org$/,
+        /(^|\.)acm\.org$/,
+        /(^|\.)ieee\.org$/,
+        /(^|\.)nature\.com$/,
+        /(^|\.)springer\.com$/,
+        /(^|\.)sciencedirect\.com$/,
+        /(^|\.)ncbi\.nlm\.nih\.gov$/,
+        /(^|\.)jstor\.org$/,
+        /(^|\.)wiley\.com$/,
+    ]
+};
+
+export class ScholarVerticalHandler implements VerticalHandler {
+    readonly config = scholarVerticalConfig;
+    
+    validateContent(result: SearchResult, issues: string[]): number {
+        let score = 0;
+        const scholar = result.scholar;
+        
+        // Citations on a log scale: 10 -> +0.1, 100 -> +0.2, 1000+ -> +0.3
+        if (scholar?.citations !== undefined) {
+            score += Math.min(0.3, 0.1 * Math.log10(1 + scholar.citations));
+        }
+        
+        // Freely readable full text
+        if (scholar?.pdfLink) {
+            score += 0.1;
+        }
+        
+        if (!scholar || scholar.authors.length === 0) {
+            issues.push('No authors listed');
+            score -= 0.05;
+        }
+        
+        if (matchesHost(result.link, this.config.trustedSources)) {
+            score += 0.1;
+        }
+        
+        // Citation-only entries have no page to read
+        if (/^\[(citation|citace|zitat)\]/i.test(result.title)) {
+            issues.push('Citation-only entry');
+            score -= 0.2;
+        }
+        
+        return score;
+    }
+    
+    detectSourceType(): SearchResult['sourceType'] {
+        return 'Academic';
+    }
+}
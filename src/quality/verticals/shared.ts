@@ -0,0 +1,12 @@
+// src/quality/verticals/shared.ts
+/**
+ * Check a result URL's hostname against host patterns
+ */
+export function matchesHost(url: string, patterns: RegExp[]): boolean {
+    try {
+        const hostname = new URL(url).hostname.toLowerCase();
+        return patterns.some(pattern => pattern.test(hostname));
+    } catch (e) {
+        return false;
+    }
+}
@@ -0,0 +1,58 @@
+// src/quality/verticals/videos.ts
+import { SearchResult, VerticalConfig, VerticalHandler } from '../types.js';
+import { matchesHost } from './shared.js';
+
+export const videosVerticalConfig: VerticalConfig = {
+    minSnippetLength: 10,
+    trustedSources: [
+        /(^|\.)youtube\.com$/,
+        /(^|\.)youtu\.be$/,
+        /(^|\.)vimeo\.com$/,
+        /(^|\.)ted\.com$/,
+    ]
+};
+
+export class VideosVerticalHandler implements VerticalHandler {
+    readonly config = videosVerticalConfig;
+    
+    validateContent(result: SearchResult, issues: string[]): number {
+        let score = 0;
+        const seconds = result.video?.durationSeconds;
+        
+        if (seconds !== undefined) {
+            if (seconds < 60) {
+                issues.push('Very short video');
+                score -= 0.1;
+            } else if (seconds >= 3 * 60 && seconds <= 60 * 60) {
+                // Long enough to explain something, short enough to watch
+                score += 0.1;
+            }
+        }
+        
+        if (result.video?.channel) {
+            score += 0.05;
+        }
+        
+        if (matchesHost(result.link, this.config.trustedSources)) {
+            score += 0.05;
+        }
+        
+        return score;
+    }
+    
+    detectSourceType(): SearchResult['sourceType'] {
+        return 'Video';
+    }
+}
+
+/**
+ * Convert a duration label ("4:05", "1:02:33") into seconds
+ */
+export function parseDurationSeconds(label: string): number | undefined {
+    const match = label.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+    if (!match) {
+        return undefined;
+    }
+    const [, hours, minutes, seconds] = match;
+    return (hours ? parseInt(hours, 10) * 3600 : 0) + parseInt(minutes, 10) * 60 + parseInt(seconds, 10);
+}
@@ -1,12 +1,33 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { tools, toolHandlers } from './tools/index.js';
+import { resolveCaptchaTool } from './tools/resolveCaptcha.js';
+import { BrowserPool } from "./services/browserPool.js";
+import { captchaHandoff } from "./services/captchaHandoff.js";
+import { ToolContext } from "./types/index.js";
+import { ConcurrencyLimiter } from "./utils/concurrency.js";
 import { logger } from "./utils/logger.js";
 
-export function createServer() {
+export interface ServerOptions {
+  browserPool?: BrowserPool;        // Shared pool owned by the caller; by default the server creates and closes its own
+  limiter?: ConcurrencyLimiter;     // Caps concurrent tool calls per client
+  clientId?: string;                // Key the limiter counts this server's calls under
+  remote?: boolean;                 // Serving an HTTP client: page fetches stay off private networks, file options are refused
+  allowRemoteWrites?: boolean;      // Still let a remote client change source rules and record feedback
+}
+
+export function createServer(options: ServerOptions = {}) {
+  // Long-lived browser shared by all tool calls, so back-to-back searches skip the launch
+  const ownsBrowserPool = !options.browserPool;
+  const browserPool = options.browserPool ?? new BrowserPool();
+  const clientId = options.clientId ?? "local";
+  const toolContext: ToolContext = { browserPool, clientId, remote: options.remote, allowRemoteWrites: options.allowRemoteWrites };
+
   const server = new Server(
     {
       name: "g-search-mcp",
@@ -15,6 +36,7 @@ export function createServer() {
     {
       capabilities: {
         tools: {},
+        resources: { listChanged: true },
       },
     }
   );
@@ -30,7 +52,7 @@ export function createServer() {
    * Handle tool call requests
    * Dispatch to the appropriate tool implementation
    */
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const toolName = request.params.name;
     const handler = toolHandlers[toolName];
     
@@ -39,8 +61,74 @@ export function createServer() {
       throw new Error(`Unknown tool: ${toolName}`);
     }
     
-    return handler(request.params.arguments);
+    // Cancellation aborts the signal; progress is only sent when the client passed a token
+    const progressToken = request.params._meta?.progressToken;
+    let lastProgress = -Infinity;
+    const callContext: ToolContext = {
+      ...toolContext,
+      signal: extra.signal,
+      onProgress: progressToken === undefined ? undefined : ({ progress, total, message, data }) => {
+        // Clients expect progress to increase with every notification
+        if (progress <= lastProgress || extra.signal.aborted) {
+          return;
+        }
+        lastProgress = progress;
+        server.notification({
+          method: "notifications/progress",
+          params: { progressToken, progress, total, message, ...data },
+        }).catch((error) => {
+          logger.warn(`[Tools] Could not send progress for ${toolName}: ${error}`);
+        });
+      },
+    };
+    
+    // resolve_captcha unblocks this client's own searches, so it must not queue behind them
+    const call = () => handler(request.params.arguments, callContext);
+    return options.limiter && toolName !== resolveCaptchaTool.name ? options.limiter.run(clientId, call, extra.signal) : call();
   });
 
+  /**
+   * Resources: screenshots of CAPTCHAs handed off by this client's blocked searches, solved with resolve_captcha
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: captchaHandoff.list(clientId).map(challenge => ({
+        uri: challenge.uri,
+        name: `CAPTCHA for "${challenge.query}" (${challenge.provider})`,
+        description: `Challenge blocking this search; solve it with resolve_captcha before ${challenge.expiresAt}`,
+        mimeType: "image/png",
+      })),
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const screenshot = captchaHandoff.screenshot(request.params.uri, clientId);
+    if (!screenshot) {
+      logger.error(`[Error] Unknown resource: ${request.params.uri}`);
+      throw new Error(`Unknown resource: ${request.params.uri}`);
+    }
+    return {
+      contents: [{ uri: request.params.uri, mimeType: "image/png", blob: screenshot.data }],
+    };
+  });
+
+  const stopWatchingCaptchas = captchaHandoff.onChange(() => {
+    server.sendResourceListChanged().catch(() => {
+      // Not connected yet, or already closed
+    });
+  });
+
+  server.onclose = () => {
+    stopWatchingCaptchas();
+    if (!ownsBrowserPool) {
+      logger.info(`[Setup] Server closed for ${clientId}`);
+      return;
+    }
+    logger.info("[Setup] Server closed, shutting down browser pool");
+    browserPool.close().catch((error) => {
+      logger.warn(`[Setup] Error closing browser pool: ${error}`);
+    });
+  };
+
   return server;
 }
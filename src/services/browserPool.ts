@@ -0,0 +1,278 @@
+// src/services/browserPool.ts
+import { chromium, Browser, BrowserContext, Page } from "playwright";
+import { logger } from "../utils/logger.js";
+
+// Browser launch arguments for stealth
+export const BROWSER_ARGS: string[] = [
+   "--disable-blink-features=AutomationControlled",
+   "--disable-features=IsolateOrigins,site-per-process",
+   "--disable-site-isolation-trials",
+   "--disable-web-security",
+   "--no-sandbox",
+   "--disable-setuid-sandbox",
+   "--disable-dev-shm-usage",
+   "--disable-accelerated-2d-canvas",
+   "--no-first-run",
+   "--no-zygote",
+   "--disable-gpu",
+   "--hide-scrollbars",
+   "--mute-audio",
+   "--disable-background-networking",
+   "--disable-background-timer-throttling",
+   "--disable-backgrounding-occluded-windows",
+   "--disable-breakpad",
+   "--disable-component-extensions-with-background-pages",
+   "--disable-extensions",
+   "--disable-features=TranslateUI",
+   "--disable-ipc-flooding-protection",
+   "--disable-renderer-backgrounding",
+   "--enable-features=NetworkService,NetworkServiceInProcess",
+   "--force-color-profile=srgb",
+   "--metrics-recording-only",
+];
+
+export interface BrowserPoolOptions {
+   maxPages?: number;      // Pages open at once across all contexts
+   idleTimeout?: number;   // Close contexts (and finally the browser) unused for this long, in ms
+   reapInterval?: number;  // How often idle contexts are checked, in ms
+   launchTimeout?: number;
+}
+
+export interface PageLease {
+   browser: Browser;
+   context: BrowserContext;
+   page: Page;
+}
+
+interface PooledContext {
+   context: BrowserContext;
+   lastUsed: number;
+   openPages: number;
+}
+
+/**
+ * Headless browser shared across tool calls for the lifetime of the server.
+ *
+ * Contexts are kept warm per fingerprint key so cookies and the stealth setup
+ * survive between searches. Leased pages are returned by closing them; closing
+ * a context (e.g. after a CAPTCHA) simply drops it from the pool.
+ */
+export class BrowserPool {
+   private browser: Browser | null = null;
+   private launching: Promise<Browser> | null = null;
+   private contexts = new Map<string, PooledContext>();
+   private creating = new Map<string, Promise<PooledContext>>();
+   private openPages = 0;
+   private waiters: Array<() => void> = [];
+   private lastActivity = Date.now();
+   private reaper: NodeJS.Timeout | null = null;
+   private closed = false;
+
+   private readonly maxPages: number;
+   private readonly idleTimeout: number;
+   private readonly reapInterval: number;
+   private readonly launchTimeout: number;
+
+   constructor(options: BrowserPoolOptions = {}) {
+       this.maxPages = options.maxPages ?? 5;
+       this.idleTimeout = options.idleTimeout ?? 5 * 60 * 1000;
+       this.reapInterval = options.reapInterval ?? 30 * 1000;
+       this.launchTimeout = options.launchTimeout ?? 120000;
+   }
+
+   /**
+    * Lease a new page in the warm context for `key`, creating the context on first use
+    */
+   async lease(key: string, createContext: (browser: Browser) => Promise<BrowserContext>): Promise<PageLease> {
+       if (this.closed) {
+           throw new Error("Browser pool is closed");
+       }
+
+       await this.acquireSlot();
+       try {
+           const browser = await this.getBrowser();
+           const pooled = await this.getContext(key, browser, createContext);
+
+           // Counted before the page exists, so the reaper leaves the context alone while it opens
+           pooled.openPages++;
+           let page: Page;
+           try {
+               page = await pooled.context.newPage();
+           } catch (error) {
+               pooled.openPages--;
+               throw error;
+           }
+
+           pooled.lastUsed = Date.now();
+           page.once("close", () => {
+               pooled.openPages--;
+               pooled.lastUsed = Date.now();
+               this.releaseSlot();
+           });
+
+           logger.info(`[BrowserPool] Leased page for ${key} (${this.openPages}/${this.maxPages} pages open)`);
+           return { browser, context: pooled.context, page };
+       } catch (error) {
+           this.releaseSlot();
+           throw error;
+       }
+   }
+
+   /**
+    * Pool statistics for logging and health reporting
+    */
+   stats(): { connected: boolean; contexts: number; openPages: number; waiting: number } {
+       return {
+           connected: this.browser?.isConnected() ?? false,
+           contexts: this.contexts.size,
+           openPages: this.openPages,
+           waiting: this.waiters.length,
+       };
+   }
+
+   /**
+    * Close every context and the browser; further leases fail
+    */
+   async close(): Promise<void> {
+       this.closed = true;
+       this.stopReaper();
+       this.contexts.clear();
+
+       const browser = this.browser;
+       this.browser = null;
+       if (browser) {
+           try {
+               await browser.close();
+               logger.info("[BrowserPool] Browser closed");
+           } catch (e) {
+               logger.warn(`[BrowserPool] Error closing browser: ${e instanceof Error ? e.message : String(e)}`);
+           }
+       }
+   }
+
+   private async acquireSlot(): Promise<void> {
+       while (this.openPages >= this.maxPages) {
+           await new Promise<void>(resolve => this.waiters.push(resolve));
+       }
+       this.openPages++;
+       this.lastActivity = Date.now();
+   }
+
+   private releaseSlot(): void {
+       this.openPages--;
+       this.lastActivity = Date.now();
+       this.waiters.shift()?.();
+   }
+
+   /**
+    * Return a connected browser, relaunching it if it crashed or was reaped
+    */
+   private async getBrowser(): Promise<Browser> {
+       if (this.browser?.isConnected()) {
+           return this.browser;
+       }
+
+       if (!this.launching) {
+           this.launching = (async () => {
+               logger.info("[BrowserPool] Launching pooled browser...");
+               this.contexts.clear();
+               const browser = await chromium.launch({
+                   headless: true,
+                   timeout: this.launchTimeout,
+                   args: BROWSER_ARGS,
+                   ignoreDefaultArgs: ["--enable-automation"],
+               });
+               browser.on("disconnected", () => {
+                   if (this.browser === browser) {
+                       logger.warn("[BrowserPool] Pooled browser disconnected");
+                       this.browser = null;
+                       this.contexts.clear();
+                   }
+               });
+               this.browser = browser;
+               this.startReaper();
+               logger.info("[BrowserPool] Pooled browser ready");
+               return browser;
+           })().finally(() => {
+               this.launching = null;
+           });
+       }
+
+       return this.launching;
+   }
+
+   private async getContext(
+       key: string,
+       browser: Browser,
+       createContext: (browser: Browser) => Promise<BrowserContext>
+   ): Promise<PooledContext> {
+       const existing = this.contexts.get(key);
+       if (existing) {
+           return existing;
+       }
+
+       // Concurrent leases for the same key share one context
+       let pending = this.creating.get(key);
+       if (!pending) {
+           pending = (async () => {
+               const context = await createContext(browser);
+               const pooled: PooledContext = { context, lastUsed: Date.now(), openPages: 0 };
+               context.on("close", () => {
+                   if (this.contexts.get(key) === pooled) {
+                       this.contexts.delete(key);
+                       logger.info(`[BrowserPool] Context for ${key} closed`);
+                   }
+               });
+               this.contexts.set(key, pooled);
+               logger.info(`[BrowserPool] Created warm context for ${key}`);
+               return pooled;
+           })().finally(() => {
+               this.creating.delete(key);
+           });
+           this.creating.set(key, pending);
+       }
+
+       return pending;
+   }
+
+   private startReaper(): void {
+       if (this.reaper) {
+           return;
+       }
+       this.reaper = setInterval(() => {
+           this.reapIdle().catch(e => logger.warn(`[BrowserPool] Reaper error: ${e instanceof Error ? e.message : String(e)}`));
+       }, this.reapInterval);
+       // Never keep the process alive just for reaping
+       this.reaper.unref();
+   }
+
+   private stopReaper(): void {
+       if (this.reaper) {
+           clearInterval(this.reaper);
+           this.reaper = null;
+       }
+   }
+
+   /**
+    * Close idle contexts, then the browser itself once nothing has used it for a while
+    */
+   private async reapIdle(): Promise<void> {
+       const now = Date.now();
+
+       for (const [key, pooled] of this.contexts) {
+           if (pooled.openPages === 0 && now - pooled.lastUsed > this.idleTimeout) {
+               logger.info(`[BrowserPool] Reaping idle context for ${key}`);
+               this.contexts.delete(key);
+               await pooled.context.close().catch(() => undefined);
+           }
+       }
+
+       if (this.browser && this.contexts.size === 0 && this.openPages === 0 && now - this.lastActivity > this.idleTimeout) {
+           logger.info("[BrowserPool] Closing idle pooled browser");
+           const browser = this.browser;
+           this.browser = null;
+           this.stopReaper();
+           await browser.close().catch(() => undefined);
+       }
+   }
+}
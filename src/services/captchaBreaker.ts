@@ -0,0 +1,196 @@
+// src/services/captchaBreaker.ts
+import { logger } from "../utils/logger.js";
+import type { SearchProviderName } from "./providers/index.js";
+
+export interface CaptchaBreakerOptions {
+   window?: number;          // Milliseconds of search outcomes the CAPTCHA rate is measured over
+   tripRate?: number;        // Share of searches hitting a CAPTCHA (0-1) that opens the circuit
+   minSamples?: number;      // Searches needed before the rate can trip the circuit
+   baseBackoff?: number;     // Milliseconds the circuit stays open the first time
+   maxBackoff?: number;      // Longest time the circuit stays open, in ms
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitStatus {
+   state: CircuitState;
+   captchaRate: number;
+   samples: number;
+   trips: number;            // Consecutive trips, doubling the backoff each time
+   retryAfter?: number;      // Seconds until the next search is let through, while open
+}
+
+export interface BreakerAdmission {
+   retryAfter?: number;      // Seconds to wait when the search may not go ahead
+   trial?: number;           // Set when the search is the half-open trial, to end it with
+}
+
+// A trial search that never ended (e.g. its process hung) stops blocking others after this long
+const TRIAL_TIMEOUT = 3 * 60 * 1000;
+
+interface Circuit {
+   outcomes: Array<{ at: number; captcha: boolean }>;
+   openUntil: number;
+   trips: number;
+   trialStartedAt: number;   // When the half-open trial search was let through, 0 if none is in flight
+}
+
+/**
+* Circuit breaker over the CAPTCHAs each search engine answers with.
+*
+* While closed every search goes through and its outcome is recorded. Once the
+* CAPTCHA rate over the window reaches tripRate the circuit opens and searches
+* fail fast. When the backoff expires one trial search is let through (half-open):
+* success closes the circuit, another CAPTCHA reopens it for twice as long, and any
+* other ending lets the next search be the trial.
+*/
+export class CaptchaCircuitBreaker {
+   private circuits = new Map<SearchProviderName, Circuit>();
+   private readonly window: number;
+   private readonly tripRate: number;
+   private readonly minSamples: number;
+   private readonly baseBackoff: number;
+   private readonly maxBackoff: number;
+
+   constructor(options: CaptchaBreakerOptions = {}) {
+       this.window = options.window ?? 15 * 60 * 1000;
+       this.tripRate = options.tripRate ?? 0.3;
+       this.minSamples = options.minSamples ?? 5;
+       this.baseBackoff = options.baseBackoff ?? 60 * 1000;
+       this.maxBackoff = options.maxBackoff ?? 60 * 60 * 1000;
+   }
+
+   /**
+    * Seconds to wait before searching this provider again, or undefined when a search may go ahead.
+    * Only checks: the search is let through by admit once it is about to reach the provider.
+    */
+   retryAfter(provider: SearchProviderName): number | undefined {
+       const circuit = this.circuits.get(provider);
+       if (!circuit || circuit.openUntil === 0) {
+           return undefined;
+       }
+
+       const now = Date.now();
+       if (now < circuit.openUntil) {
+           return Math.ceil((circuit.openUntil - now) / 1000);
+       }
+       if (now - circuit.trialStartedAt < TRIAL_TIMEOUT) {
+           // Hold everyone else back until the trial search ends
+           return 5;
+       }
+       return undefined;
+   }
+
+   /**
+    * Let through a search that is about to reach the provider, starting the half-open trial
+    * once the backoff has expired. The trial ends with recordSuccess or recordCaptcha, and a
+    * search admitted as the trial must call endTrial however it finishes.
+    */
+   admit(provider: SearchProviderName): BreakerAdmission {
+       const retryAfter = this.retryAfter(provider);
+       if (retryAfter !== undefined) {
+           return { retryAfter };
+       }
+
+       const circuit = this.circuits.get(provider);
+       if (!circuit || circuit.openUntil === 0) {
+           return {};
+       }
+
+       circuit.trialStartedAt = Date.now();
+       logger.info(`[CaptchaBreaker] ${provider} backoff expired, letting a trial search through`);
+       return { trial: circuit.trialStartedAt };
+   }
+
+   /**
+    * Finish a trial search. One that ended without a success or a CAPTCHA (another error,
+    * cancellation) leaves the circuit half-open for the next search to try.
+    */
+   endTrial(provider: SearchProviderName, trial: number): void {
+       const circuit = this.circuits.get(provider);
+       if (!circuit || circuit.trialStartedAt !== trial) {
+           return; // Already ended by its outcome
+       }
+       circuit.trialStartedAt = 0;
+       logger.info(`[CaptchaBreaker] ${provider} trial search ended without an outcome, the next search will try`);
+   }
+
+   recordSuccess(provider: SearchProviderName): void {
+       const circuit = this.circuit(provider);
+       if (circuit.openUntil !== 0) {
+           logger.info(`[CaptchaBreaker] ${provider} searched without a CAPTCHA, closing the circuit`);
+           circuit.outcomes = [];
+           circuit.openUntil = 0;
+           circuit.trips = 0;
+           circuit.trialStartedAt = 0;
+       }
+       this.record(circuit, false);
+   }
+
+   recordCaptcha(provider: SearchProviderName): void {
+       const circuit = this.circuit(provider);
+       this.record(circuit, true);
+       if (Date.now() < circuit.openUntil) {
+           return; // Searches already running when the circuit opened; the pause stands
+       }
+
+       const { captchaRate, samples } = this.rate(circuit);
+       const trialFailed = circuit.trialStartedAt !== 0;
+       if (!trialFailed && (samples < this.minSamples || captchaRate < this.tripRate)) {
+           return;
+       }
+
+       const backoff = Math.min(this.baseBackoff * 2 ** circuit.trips, this.maxBackoff);
+       circuit.trips++;
+       circuit.openUntil = Date.now() + backoff;
+       circuit.trialStartedAt = 0;
+       logger.warn(`[CaptchaBreaker] ${provider} CAPTCHA rate ${Math.round(captchaRate * 100)}% over ${samples} searches, pausing it for ${Math.round(backoff / 1000)}s`);
+   }
+
+   /**
+    * Circuit state per provider that has searched, for logging and health reporting
+    */
+   status(): Partial<Record<SearchProviderName, CircuitStatus>> {
+       const status: Partial<Record<SearchProviderName, CircuitStatus>> = {};
+       const now = Date.now();
+
+       this.circuits.forEach((circuit, provider) => {
+           const { captchaRate, samples } = this.rate(circuit);
+           const open = now < circuit.openUntil;
+           status[provider] = {
+               state: open ? 'open' : circuit.openUntil !== 0 ? 'half-open' : 'closed',
+               captchaRate: Math.round(captchaRate * 100) / 100,
+               samples,
+               trips: circuit.trips,
+               retryAfter: open ? Math.ceil((circuit.openUntil - now) / 1000) : undefined,
+           };
+       });
+
+       return status;
+   }
+
+   private circuit(provider: SearchProviderName): Circuit {
+       let circuit = this.circuits.get(provider);
+       if (!circuit) {
+           circuit = { outcomes: [], openUntil: 0, trips: 0, trialStartedAt: 0 };
+           this.circuits.set(provider, circuit);
+       }
+       return circuit;
+   }
+
+   private record(circuit: Circuit, captcha: boolean): void {
+       const now = Date.now();
+       circuit.outcomes = circuit.outcomes.filter(outcome => now - outcome.at < this.window);
+       circuit.outcomes.push({ at: now, captcha });
+   }
+
+   private rate(circuit: Circuit): { captchaRate: number; samples: number } {
+       const now = Date.now();
+       const recent = circuit.outcomes.filter(outcome => now - outcome.at < this.window);
+       const captchas = recent.filter(outcome => outcome.captcha).length;
+       return { captchaRate: recent.length > 0 ? captchas / recent.length : 0, samples: recent.length };
+   }
+}
+
+// Shared by every search in the process
+export const captchaBreaker = new CaptchaCircuitBreaker();
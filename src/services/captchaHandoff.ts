@@ -0,0 +1,218 @@
+// src/services/captchaHandoff.ts
+import { randomUUID } from "crypto";
+import type { BrowserContext, Page } from "playwright";
+import { logger } from "../utils/logger.js";
+import type { SearchProvider, SearchProviderName } from "./providers/index.js";
+
+export const DEFAULT_HANDOFF_TIMEOUT = 5 * 60 * 1000;
+
+// Challenge screenshots are MCP resources named captcha://<id>
+export const CAPTCHA_URI_SCHEME = "captcha://";
+
+export interface CaptchaChallengeInfo {
+   id: string;
+   uri: string;              // Resource holding the screenshot
+   provider: SearchProviderName;
+   query: string;
+   url: string;              // The challenge page
+   createdAt: string;
+   expiresAt: string;        // The blocked search fails with CAPTCHA_HANDOFF_TIMEOUT after this
+}
+
+// Playwright storage state, the format of browser-state.json; only the cookies are used
+export interface StorageStateInput {
+   cookies: Parameters<BrowserContext["addCookies"]>[0];
+   origins?: unknown[];
+}
+
+export type CaptchaResolution =
+   | { action: 'cookies'; storageState: StorageStateInput }
+   | { action: 'click'; x: number; y: number }
+   | { action: 'type'; text: string; pressEnter?: boolean }
+   | { action: 'abandon' };
+
+export interface CaptchaResolveResult {
+   challenge: CaptchaChallengeInfo;
+   state: 'resolved' | 'pending' | 'abandoned';
+   screenshot?: string;      // Base64 PNG of the page after the action, while still pending
+}
+
+interface Challenge {
+   info: CaptchaChallengeInfo;
+   clientId?: string;        // Client whose search met the CAPTCHA, the only one that sees it
+   page: Page;
+   context: BrowserContext;
+   provider: SearchProvider;
+   screenshot: Buffer;
+   settle: (error?: Error) => void;
+}
+
+/**
+* Hands CAPTCHAs met by headless searches over to the MCP client.
+*
+* The blocked search keeps its page open and waits while the challenge's screenshot
+* is offered as a resource. The client either imports cookies from a browser where
+* the CAPTCHA was solved (a browser-state.json), or clicks and types on the page
+* through resolve_captcha until the engine lets it through. Unanswered challenges
+* fail the search after the timeout. Each challenge belongs to the client whose search
+* met it; other clients of a shared server can neither see nor resolve it.
+*/
+export class CaptchaHandoff {
+   private challenges = new Map<string, Challenge>();
+   private listeners = new Set<() => void>();
+   private timeout = DEFAULT_HANDOFF_TIMEOUT;
+   private active = false;
+
+   get enabled(): boolean {
+       return this.active;
+   }
+
+   configure(options: { enabled?: boolean; timeout?: number }): void {
+       this.active = options.enabled ?? this.active;
+       this.timeout = options.timeout ?? this.timeout;
+   }
+
+   /**
+    * Call the listener whenever challenges appear, change or go away; returns the unsubscribe function
+    */
+   onChange(listener: () => void): () => void {
+       this.listeners.add(listener);
+       return () => this.listeners.delete(listener);
+   }
+
+   /**
+    * Offer the CAPTCHA on the page to the client and wait until it is resolved. Rejects with
+    * CAPTCHA_HANDOFF_TIMEOUT, CAPTCHA_HANDOFF_ABANDONED or, when the signal aborts, SEARCH_CANCELLED.
+    */
+   async handOff(
+       page: Page,
+       context: BrowserContext,
+       provider: SearchProvider,
+       query: string,
+       signal?: AbortSignal,
+       onOpen?: (challenge: CaptchaChallengeInfo) => void,
+       clientId?: string
+   ): Promise<void> {
+       const id = randomUUID();
+       const screenshot = await page.screenshot({ type: "png" });
+       const now = Date.now();
+       const info: CaptchaChallengeInfo = {
+           id,
+           uri: `${CAPTCHA_URI_SCHEME}${id}`,
+           provider: provider.name,
+           query,
+           url: page.url(),
+           createdAt: new Date(now).toISOString(),
+           expiresAt: new Date(now + this.timeout).toISOString(),
+       };
+
+       await new Promise<void>((resolve, reject) => {
+           const settle = (error?: Error) => {
+               clearTimeout(timer);
+               signal?.removeEventListener("abort", onAbort);
+               this.challenges.delete(id);
+               this.notify();
+               if (error) {
+                   reject(error);
+               } else {
+                   resolve();
+               }
+           };
+           const onAbort = () => settle(new Error("SEARCH_CANCELLED"));
+           const timer = setTimeout(() => {
+               logger.warn(`[CaptchaHandoff] Nobody resolved ${info.uri} for "${query}" in time`);
+               settle(new Error("CAPTCHA_HANDOFF_TIMEOUT"));
+           }, this.timeout);
+           signal?.addEventListener("abort", onAbort, { once: true });
+
+           this.challenges.set(id, { info, clientId, page, context, provider, screenshot, settle });
+           logger.warn(`[CaptchaHandoff] ${provider.displayName} CAPTCHA for "${query}" handed off as ${info.uri}, waiting up to ${Math.round(this.timeout / 1000)}s for resolve_captcha`);
+           onOpen?.(info);
+           this.notify();
+       });
+   }
+
+   /**
+    * Pending challenges of one client
+    */
+   list(clientId?: string): CaptchaChallengeInfo[] {
+       return Array.from(this.challenges.values())
+           .filter(challenge => challenge.clientId === clientId)
+           .map(challenge => challenge.info);
+   }
+
+   /**
+    * Latest screenshot of a client's challenge, by id or captcha:// URI, as base64 PNG
+    */
+   screenshot(idOrUri: string, clientId?: string): { challenge: CaptchaChallengeInfo; data: string } | undefined {
+       const challenge = this.find(idOrUri, clientId);
+       return challenge && { challenge: challenge.info, data: challenge.screenshot.toString("base64") };
+   }
+
+   /**
+    * Act on a pending challenge. Imported cookies resume the search straight away, since the
+    * retry shows whether they were enough; clicks and typing resume it once the engine lets
+    * the page through, and otherwise return a fresh screenshot.
+    */
+   async resolve(idOrUri: string, resolution: CaptchaResolution, clientId?: string): Promise<CaptchaResolveResult> {
+       const challenge = this.find(idOrUri, clientId);
+       if (!challenge) {
+           throw new Error(`No pending CAPTCHA ${idOrUri}; it may have been resolved or timed out`);
+       }
+       const { info, page, context, provider } = challenge;
+
+       switch (resolution.action) {
+           case 'abandon':
+               logger.info(`[CaptchaHandoff] ${info.uri} abandoned`);
+               challenge.settle(new Error("CAPTCHA_HANDOFF_ABANDONED"));
+               return { challenge: info, state: 'abandoned' };
+
+           case 'cookies':
+               await context.addCookies(resolution.storageState.cookies);
+               logger.info(`[CaptchaHandoff] Imported ${resolution.storageState.cookies.length} cookies for ${info.uri}, resuming the search`);
+               challenge.settle();
+               return { challenge: info, state: 'resolved' };
+
+           case 'click':
+               await page.mouse.click(resolution.x, resolution.y);
+               break;
+
+           case 'type':
+               await page.keyboard.type(resolution.text, { delay: 50 });
+               if (resolution.pressEnter) {
+                   await page.keyboard.press("Enter");
+               }
+               break;
+       }
+
+       // Give the challenge time to react or navigate back to the results
+       await page.waitForLoadState("load", { timeout: 10000 }).catch(() => {});
+       await page.waitForTimeout(1500);
+
+       if (!provider.detectCaptcha(page.url())) {
+           logger.info(`[CaptchaHandoff] ${info.uri} solved on the page, resuming the search`);
+           challenge.settle();
+           return { challenge: info, state: 'resolved' };
+       }
+
+       challenge.screenshot = await page.screenshot({ type: "png" });
+       this.notify();
+       return { challenge: info, state: 'pending', screenshot: challenge.screenshot.toString("base64") };
+   }
+
+   private find(idOrUri: string, clientId?: string): Challenge | undefined {
+       const challenge = this.challenges.get(toId(idOrUri));
+       return challenge?.clientId === clientId ? challenge : undefined;
+   }
+
+   private notify(): void {
+       this.listeners.forEach(listener => listener());
+   }
+}
+
+function toId(idOrUri: string): string {
+   return idOrUri.startsWith(CAPTCHA_URI_SCHEME) ? idOrUri.slice(CAPTCHA_URI_SCHEME.length) : idOrUri;
+}
+
+// Shared by every search in the process; challenges are kept apart by client
+export const captchaHandoff = new CaptchaHandoff();
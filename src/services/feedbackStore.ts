@@ -0,0 +1,100 @@
+// src/services/feedbackStore.ts
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../utils/logger.js";
+import type { RelevanceJudgment } from "../quality/types.js";
+
+export interface FeedbackEntry extends RelevanceJudgment {
+   key: string;
+   ratedAt: number;
+}
+
+export const DEFAULT_FEEDBACK_FILE = "./search-feedback.jsonl";
+
+/**
+ * Append-only JSONL store of relevance judgments from the rate_result tool.
+ *
+ * Each line is one FeedbackEntry; rating the same result for the same query
+ * and domain again supersedes the earlier line.
+ */
+export class FeedbackStore {
+   private static instances = new Map<string, FeedbackStore>();
+
+   private entries: Map<string, FeedbackEntry> | null = null;
+
+   constructor(private readonly filePath: string = DEFAULT_FEEDBACK_FILE) {}
+
+   /**
+    * Get the shared store instance for a file
+    */
+   static forFile(filePath: string = DEFAULT_FEEDBACK_FILE): FeedbackStore {
+       const resolved = path.resolve(filePath);
+       let store = FeedbackStore.instances.get(resolved);
+       if (!store) {
+           store = new FeedbackStore(resolved);
+           FeedbackStore.instances.set(resolved, store);
+       }
+       return store;
+   }
+
+   /**
+    * Build the key a judgment is stored under
+    */
+   static key(judgment: RelevanceJudgment): string {
+       const normalizedQuery = judgment.query.toLowerCase().trim().replace(/\s+/g, " ");
+       const normalizedLink = judgment.result.link.replace(/#.*$/, "").replace(/\/+$/, "");
+       return [judgment.domain, normalizedQuery, normalizedLink].join("|");
+   }
+
+   /**
+    * Record a judgment; throws when it cannot be written, since the caller asked for it to be kept
+    */
+   record(judgment: RelevanceJudgment): FeedbackEntry {
+       const entry: FeedbackEntry = { key: FeedbackStore.key(judgment), ratedAt: Date.now(), ...judgment };
+
+       const dir = path.dirname(this.filePath);
+       if (!fs.existsSync(dir)) {
+           fs.mkdirSync(dir, { recursive: true });
+       }
+       fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n", "utf8");
+
+       this.load().set(entry.key, entry);
+       return entry;
+   }
+
+   /**
+    * Current judgments, latest rating per result
+    */
+   list(): FeedbackEntry[] {
+       return Array.from(this.load().values());
+   }
+
+   private load(): Map<string, FeedbackEntry> {
+       if (this.entries) {
+           return this.entries;
+       }
+
+       this.entries = new Map();
+       if (!fs.existsSync(this.filePath)) {
+           return this.entries;
+       }
+
+       try {
+           const lines = fs.readFileSync(this.filePath, "utf8").split("\n").filter(line => line.trim());
+           for (const line of lines) {
+               try {
+                   const entry = JSON.parse(line) as FeedbackEntry;
+                   this.entries.set(entry.key, entry);
+               } catch (e) {
+                   // Skip a partially written line
+                   continue;
+               }
+           }
+           logger.info(`[FeedbackStore] Loaded ${this.entries.size} judgments from ${this.filePath}`);
+       } catch (error) {
+           logger.warn(`[FeedbackStore] Could not read feedback file: ${error instanceof Error ? error.message : String(error)}`);
+       }
+
+       return this.entries;
+   }
+}
@@ -1,116 +1,60 @@
 // src/services/googleSearch.ts
-import { chromium, devices, Browser, BrowserContext, Page, Response } from "playwright";
+import { chromium, devices, Browser, BrowserContext, Page } from "playwright";
 import { logger } from "../utils/logger.js";
+import { parseSnippetDate } from "../utils/dates.js";
 import { SearchQualityAnalyzer } from "../quality/analyzer.js";
 import type { SearchResult, QualityConfig, QueryDomain } from "../quality/types.js";
+import type { SearchOptions, SearchResponse, SearchProviderName, SearchStatus } from "../types/index.js";
+import { getSearchProvider } from "./providers/index.js";
+import { ResultCache, cacheDefaults } from "./resultCache.js";
+import { BrowserPool, BROWSER_ARGS } from "./browserPool.js";
+import { fetchPageContents } from "./pageContent.js";
+import { searchScheduler, runWindowed, SchedulerPause } from "./scheduler.js";
+import { captchaBreaker } from "./captchaBreaker.js";
+import { captchaHandoff } from "./captchaHandoff.js";
+import type { SearchProvider, SavedState, HostMachineConfig, SerpFeatures } from "./providers/index.js";
 import { defaultQualityConfig } from "../quality/config.js";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
-// Type definitions for search operations
-interface SearchResponse {
-   query: string;
-   results: SearchResult[];
-   success: boolean;
-   duration?: number;
-   resultCount?: number;
-   error?: string;
-}
-
-interface SearchOptions {
-   limit?: number;
-   timeout?: number;
-   stateFile?: string;
-   noSaveState?: boolean;
-   locale?: string;
-   enableQualityFiltering?: boolean;
-   minQualityScore?: number;
-   debug?: boolean;
-   maxRetries?: number;
-   concurrency?: number;
-}
-
-interface HostMachineConfig {
-   deviceName: string;
-   locale: string;
-   timezoneId: string;
-   colorScheme: string;
-   reducedMotion: string;
-   forcedColors: string;
-}
-
-interface SavedState {
-   fingerprint?: HostMachineConfig;
-   googleDomain?: string;
-}
-
-interface ResultSelector {
-   container: string;
-   title: string;
-   snippet: string;
-}
-
-// CAPTCHA detection patterns
-const CAPTCHA_PATTERNS: string[] = [
-   "google.com/sorry/index",
-   "google.com/sorry",
-   "recaptcha",
-   "captcha",
-   "unusual traffic",
-];
-
-// Browser launch arguments for stealth
-const BROWSER_ARGS: string[] = [
-   "--disable-blink-features=AutomationControlled",
-   "--disable-features=IsolateOrigins,site-per-process",
-   "--disable-site-isolation-trials",
-   "--disable-web-security",
-   "--no-sandbox",
-   "--disable-setuid-sandbox",
-   "--disable-dev-shm-usage",
-   "--disable-accelerated-2d-canvas",
-   "--no-first-run",
-   "--no-zygote",
-   "--disable-gpu",
-   "--hide-scrollbars",
-   "--mute-audio",
-   "--disable-background-networking",
-   "--disable-background-timer-throttling",
-   "--disable-backgrounding-occluded-windows",
-   "--disable-breakpad",
-   "--disable-component-extensions-with-background-pages",
-   "--disable-extensions",
-   "--disable-features=TranslateUI",
-   "--disable-ipc-flooding-protection",
-   "--disable-renderer-backgrounding",
-   "--enable-features=NetworkService,NetworkServiceInProcess",
-   "--force-color-profile=srgb",
-   "--metrics-recording-only",
-];
+// Results pages visited per search unless the caller asks for more
+export const DEFAULT_MAX_PAGES = 3;
+// Hard cap on results pages, however many results are still missing
+export const MAX_PAGES = 10;
 
 /**
- * Main Google Search Service with modular quality analysis
+ * Main Search Service with modular quality analysis, dispatching to the
+ * provider selected in the search options (Google by default)
  */
 export class GoogleSearchService {
    private qualityAnalyzer: SearchQualityAnalyzer;
+   private browserPool?: BrowserPool;
    
-   constructor(qualityConfig: QualityConfig = defaultQualityConfig) {
+   constructor(qualityConfig: QualityConfig = defaultQualityConfig, browserPool?: BrowserPool) {
        this.qualityAnalyzer = new SearchQualityAnalyzer(qualityConfig);
+       this.browserPool = browserPool;
    }
    
    /**
     * Perform single search with quality filtering
     */
    async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
-       return await googleSearch(query, options, undefined, this.qualityAnalyzer);
+       return await googleSearch(query, options, undefined, this.qualityAnalyzer, this.browserPool);
+   }
+   
+   /**
+    * Perform a single search across several providers and fuse the rankings
+    */
+   async metaSearch(query: string, providers: SearchProviderName[], options: SearchOptions = {}): Promise<SearchResponse> {
+       return await metaSearch(query, { ...options, providers }, undefined, this.qualityAnalyzer, this.browserPool);
    }
    
    /**
     * Perform multiple searches with quality filtering
     */
    async multiSearch(queries: string[], options: SearchOptions = {}): Promise<SearchResponse[]> {
-       return await multiGoogleSearch(queries, options, this.qualityAnalyzer);
+       return await multiGoogleSearch(queries, options, this.qualityAnalyzer, this.browserPool);
    }
    
    /**
@@ -123,16 +67,6 @@ export class GoogleSearchService {
    }
 }
 
-/**
-* Detect CAPTCHA on current page
-*/
-function detectCaptcha(url: string, response: Response | null = null): boolean {
-   return CAPTCHA_PATTERNS.some((pattern) => 
-       url.includes(pattern) || 
-       (response && response.url().toString().includes(pattern))
-   );
-}
-
 /**
 * Clean up browser resources
 */
@@ -168,6 +102,22 @@ async function cleanupResources(
    }
 }
 
+/**
+* Stop a search the caller has cancelled; callers pass the error up without retrying
+*/
+function throwIfCancelled(options: SearchOptions): void {
+   if (options.signal?.aborted) {
+       throw new Error("SEARCH_CANCELLED");
+   }
+}
+
+/**
+* Tell the caller a search reached a new stage
+*/
+function reportStatus(options: SearchOptions, query: string, status: SearchStatus, provider?: SearchProviderName): void {
+   options.onProgress?.({ query, status, provider });
+}
+
 /**
 * Handle CAPTCHA detection with retry logic
 */
@@ -177,7 +127,8 @@ async function handleCaptchaDetection(
    page: Page, 
    context: BrowserContext, 
    browser: Browser, 
-   timeout: number
+   timeout: number,
+   provider: SearchProvider
 ): Promise<void> {
    if (headless) {
        logger.warn("[GoogleSearch] CAPTCHA detected, switching to non-headless mode...");
@@ -193,22 +144,12 @@ async function handleCaptchaDetection(
        
        await page.waitForNavigation({
            timeout: timeout * 2,
-           url: (url: URL) => {
-               const urlStr = url.toString();
-               return CAPTCHA_PATTERNS.every((pattern) => !urlStr.includes(pattern));
-           },
+           url: (url: URL) => !provider.detectCaptcha(url.toString()),
        });
        logger.info("[GoogleSearch] CAPTCHA verification completed, continuing with search...");
    }
 }
 
-/**
-* Get random delay between min and max milliseconds
-*/
-function getRandomDelay(min: number, max: number): number {
-   return Math.floor(Math.random() * (max - min + 1)) + min;
-}
-
 /**
 * Get the host machine's actual configuration
 */
@@ -309,216 +250,28 @@ async function saveBrowserState(
 }
 
 /**
-* Extract search results from page using multiple selector strategies
+* Setup browser context and first page with stealth configuration
 */
-async function extractSearchResults(page: Page, limit: number, qualityAnalyzer: SearchQualityAnalyzer): Promise<SearchResult[]> {
-   logger.info("[GoogleSearch] Extracting search results...");
-   
-   // Primary selector strategies
-   const resultSelectors: ResultSelector[] = [
-       { container: "#search .g", title: "h3", snippet: ".VwiC3b" },
-       { container: "#rso .g", title: "h3", snippet: ".VwiC3b" },
-       { container: ".g", title: "h3", snippet: ".VwiC3b" },
-       { container: "[data-sokoban-container] > div", title: "h3", snippet: "[data-sncf='1']" },
-       { container: "div[role='main'] .g", title: "h3", snippet: "[data-sncf='1']" },
-   ];
-   
-   let results: SearchResult[] = [];
-   
-   // Try each selector strategy
-   for (const selector of resultSelectors) {
-       try {
-           results = await page.$$eval(selector.container, (elements: Element[], params: any) => {
-               return elements
-                   .slice(0, params.maxResults)
-                   .map((el: Element) => {
-                       const titleElement = el.querySelector(params.titleSelector);
-                       const linkElement = el.querySelector("a");
-                       const snippetElement = el.querySelector(params.snippetSelector);
-                       
-                       // Enhanced snippet extraction for code content
-                       let snippet = "";
-                       if (snippetElement) {
-                           snippet = snippetElement.textContent?.trim() || "";
-                       }                 
-                       
-                       // Expand snippet length for technical content if too short
-                       if (snippet.length < 100) {
-                           const parentText = el.textContent?.trim() || "";
-                           if (parentText.length > snippet.length && parentText.length < 600) {
-                               snippet = parentText.substring(0, 400);
-                           }
-                       }
-                       
-                       return {
-                           title: titleElement ? titleElement.textContent?.trim() || "" : "",
-                           link: linkElement && linkElement instanceof HTMLAnchorElement 
-                               ? linkElement.href 
-                               : "",
-                           snippet: snippet,
-                       };
-                   })
-                   .filter((item: SearchResult) => item.title && item.link);
-           }, {
-               maxResults: limit,
-               titleSelector: selector.title,
-               snippetSelector: selector.snippet,
-           });
-           
-           if (results.length > 0) {
-               logger.info(`[GoogleSearch] Successfully extracted ${results.length} results with selector: ${selector.container}`);
-               break;
-           }
-       } catch (e) {
-           continue;
-       }
-   }
-   
-   // Fallback method if primary selectors fail
-   if (results.length === 0) {
-       logger.warn("[GoogleSearch] Using fallback method to extract search results...");
-       
-       try {
-           results = await page.$$eval("a[href^='http']", (elements: Element[], maxResults: number) => {
-               return elements
-                   .filter((el: Element) => {
-                       const href = el.getAttribute("href") || "";
-                       return (
-                           href.startsWith("http") &&
-                           !href.includes("google.com/search") &&
-                           !href.includes("google.com/url?") &&
-                           !href.includes("accounts.google") &&
-                           !href.includes("support.google") &&
-                           !href.includes("policies.google")
-                       );
-                   })
-                   .slice(0, maxResults)
-                   .map((el: Element) => {
-                       const title = el.textContent?.trim() || "";
-                       const link = el instanceof HTMLAnchorElement 
-                           ? el.href 
-                           : el.getAttribute("href") || "";
-                       
-                       // Try to get surrounding text as snippet
-                       let snippet = "";
-                       let parent = el.parentElement;
-                       for (let i = 0; i < 3 && parent; i++) {
-                           const text = parent.textContent?.trim() || "";
-                           if (text.length > snippet.length && text !== title && text.length < 500) {
-                               snippet = text;
-                           }
-                           parent = parent.parentElement;
-                       }
-                       
-                       return { title, link, snippet };
-                   })
-                   .filter((item: SearchResult) => item.title && item.link);
-           }, limit);
-       } catch (e) {
-           logger.error(`[GoogleSearch] Fallback extraction failed: ${e instanceof Error ? e.message : String(e)}`);
-       }
-   }
-   
-   // Use quality analyzer for basic result validation
-   return qualityAnalyzer.validateResults(results);
-}
-
-/**
-* Wait for search results to appear on page
-*/
-async function waitForSearchResults(page: Page, timeout: number): Promise<void> {
-   logger.info(`[GoogleSearch] Waiting for search results to load... URL: ${page.url()}`);
-   
-   const searchResultSelectors: string[] = [
-       "#search",
-       "#rso", 
-       ".g",
-       "[data-sokoban-container]",
-       "div[role='main']",
-   ];
-   
-   let resultsFound = false;
-   
-   for (const selector of searchResultSelectors) {
-       try {
-           await page.waitForSelector(selector, { timeout: timeout / 2 });
-           logger.info(`[GoogleSearch] Found search results with selector: ${selector}`);
-           resultsFound = true;
-           break;
-       } catch (e) {
-           continue;
-       }
-   }
-   
-   if (!resultsFound) {
-       const currentUrl = page.url();
-       if (detectCaptcha(currentUrl)) {
-           throw new Error("CAPTCHA_DETECTED_DURING_RESULTS");
-       } else {
-           throw new Error("Could not find search result elements");
-       }
-   }
-   
-   await page.waitForTimeout(getRandomDelay(200, 500));
-}
-
-/**
-* Perform the actual search on the page
-*/
-async function performSearch(page: Page, query: string, timeout: number): Promise<void> {
-   logger.info(`[GoogleSearch] Entering search keyword: ${query}`);
-   
-   // Search input selectors in order of preference
-   const searchInputSelectors: string[] = [
-       "textarea[name='q']",
-       "input[name='q']", 
-       "textarea[title='Search']",
-       "input[title='Search']",
-       "textarea[aria-label='Search']",
-       "input[aria-label='Search']",
-       "textarea",
-   ];
-   
-   let searchInput = null;
-   
-   // Find search input field
-   for (const selector of searchInputSelectors) {
-       searchInput = await page.$(selector);
-       if (searchInput) {
-           logger.info(`[GoogleSearch] Found search box with selector: ${selector}`);
-           break;
-       }
-   }
-   
-   if (!searchInput) {
-       throw new Error("Could not find search box");
-   }
-   
-   // Perform search
-   await searchInput.click();
-   await page.keyboard.type(query, { delay: getRandomDelay(10, 30) });
-   await page.waitForTimeout(getRandomDelay(100, 300));
-   await page.keyboard.press("Enter");
-   
-   logger.info("[GoogleSearch] Waiting for page to load...");
-   await page.waitForLoadState("networkidle", { timeout });
-   
-   // Check for CAPTCHA after search
-   const searchUrl = page.url();
-   if (detectCaptcha(searchUrl)) {
-       throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
-   }
+async function setupBrowserContext(
+   browser: Browser, 
+   savedState: SavedState, 
+   locale: string, 
+   storageState?: string
+): Promise<{ context: BrowserContext; page: Page }> {
+   const context = await createStealthContext(browser, savedState, locale, storageState);
+   const page = await context.newPage();
+   return { context, page };
 }
 
 /**
-* Setup browser context with stealth configuration
+* Create a browser context with stealth configuration
 */
-async function setupBrowserContext(
+async function createStealthContext(
    browser: Browser, 
    savedState: SavedState, 
    locale: string, 
    storageState?: string
-): Promise<{ context: BrowserContext; page: Page }> {
+): Promise<BrowserContext> {
    const deviceList = ["Desktop Chrome", "Desktop Edge", "Desktop Firefox", "Desktop Safari"];
    
    // Get device configuration
@@ -616,74 +369,194 @@ async function setupBrowserContext(
        }
    });
    
-   const page = await context.newPage();
-   
    // Set realistic screen properties
-   await page.addInitScript(() => {
+   await context.addInitScript(() => {
        Object.defineProperty(window.screen, "width", { get: () => 1920 });
        Object.defineProperty(window.screen, "height", { get: () => 1080 });
        Object.defineProperty(window.screen, "colorDepth", { get: () => 24 });
        Object.defineProperty(window.screen, "pixelDepth", { get: () => 24 });
    });
    
-   return { context, page };
+   return context;
 }
 
 /**
-* Navigate to Google and handle initial setup
+* Score, filter and enrich raw results with the quality analyzer.
+* In explain mode the results filtering dropped are returned too.
 */
-async function navigateToGoogle(page: Page, savedState: SavedState, timeout: number): Promise<void> {
-   const googleDomains: string[] = [
-       "https://www.google.com",
-       "https://www.google.co.uk", 
-       "https://www.google.ca",
-       "https://www.google.com.au",
-   ];
-   
-   // Select Google domain
-   let selectedDomain: string;
-   if (savedState.googleDomain) {
-       selectedDomain = savedState.googleDomain;
-       logger.info(`[GoogleSearch] Using saved Google domain: ${selectedDomain}`);
-   } else {
-       selectedDomain = googleDomains[Math.floor(Math.random() * googleDomains.length)];
-       savedState.googleDomain = selectedDomain;
-       logger.info(`[GoogleSearch] Selected Google domain: ${selectedDomain}`);
+function applyQualityPipeline(
+   results: SearchResult[],
+   query: string,
+   options: SearchOptions,
+   domain: QueryDomain,
+   qualityAnalyzer: SearchQualityAnalyzer
+): Pick<SearchResponse, 'results' | 'resultCount' | 'filteredResults'> {
+   const { enableQualityFiltering = true, limit = 20, explain = false, diversify = true } = options;
+   if (!enableQualityFiltering) {
+       const raw = results.slice(0, limit);
+       return { results: raw, resultCount: raw.length };
    }
    
-   logger.info("[GoogleSearch] Visiting Google search page...");
+   const adaptiveMinScore = getAdaptiveMinScore(options, domain, qualityAnalyzer);
+   logger.info(`[GoogleSearch] ${options.domain ? "Using forced" : "Detected"} ${domain} query: "${query}" - using adaptive quality threshold: ${adaptiveMinScore}`);
+   
+   const filteredOut: SearchResult[] = [];
+   const scored = qualityAnalyzer
+       .applyQualityFiltering(results, query, adaptiveMinScore, options.domain, explain, filteredOut)
+       .map(result => qualityAnalyzer.analyzeResult(result, query, options.domain));
+   const filtered = (diversify ? qualityAnalyzer.diversifyResults(scored, options) : scored).slice(0, limit);
    
-   // Navigate to Google
-   const response = await page.goto(selectedDomain, {
-       timeout,
-       waitUntil: "networkidle",
+   logger.info(`[GoogleSearch] Quality filtering applied: ${filtered.length}/${results.length} quality results for ${domain} query`);
+   return {
+       results: filtered,
+       resultCount: filtered.length,
+       filteredResults: explain ? filteredOut : undefined,
+   };
+}
+
+/**
+* The caller's quality threshold, or the adaptive default for the query's domain
+*/
+function getAdaptiveMinScore(options: SearchOptions, domain: QueryDomain, qualityAnalyzer: SearchQualityAnalyzer): number {
+   return options.minQualityScore ?? qualityAnalyzer.defaultMinQualityScore(domain);
+}
+
+/**
+* Count how many of the raw results so far would survive quality filtering
+*/
+function countKeptResults(
+   results: SearchResult[],
+   query: string,
+   options: SearchOptions,
+   domain: QueryDomain,
+   qualityAnalyzer: SearchQualityAnalyzer
+): number {
+   if (options.enableQualityFiltering === false) {
+       return results.length;
+   }
+   return qualityAnalyzer.applyQualityFiltering(results, query, getAdaptiveMinScore(options, domain, qualityAnalyzer), options.domain).length;
+}
+
+/**
+* Set lastUpdated from the date engines print before snippets ("3 days ago — ...").
+* Relative dates are resolved now, so cached results keep an absolute date.
+*/
+function annotateSerpDates(results: SearchResult[]): SearchResult[] {
+   const now = new Date();
+   return results.map(result => {
+       if (result.lastUpdated) {
+           return result;
+       }
+       const lastUpdated = parseSnippetDate(result.snippet, now);
+       return lastUpdated ? { ...result, lastUpdated } : result;
    });
+}
+
+/**
+* Extract results from the current page and follow further results pages until
+* enough of them survive quality filtering, or the page cap is reached
+*/
+async function collectResultPages(
+   page: Page,
+   provider: SearchProvider,
+   query: string,
+   options: SearchOptions,
+   domain: QueryDomain,
+   qualityAnalyzer: SearchQualityAnalyzer
+): Promise<SearchResult[]> {
+   const { limit = 20, timeout = 60000, vertical = 'web' } = options;
+   const maxPages = Math.min(options.maxPages ?? DEFAULT_MAX_PAGES, MAX_PAGES);
+   
+   // Extract results, drop engine-internal links and date them from their snippets
+   const extractPage = async () => annotateSerpDates(
+       qualityAnalyzer.validateResults(await provider.extractResults(page, limit, vertical))
+   );
    
-   // Check for CAPTCHA on initial load
-   const currentUrl = page.url();
-   if (detectCaptcha(currentUrl, response)) {
-       throw new Error("CAPTCHA_DETECTED_ON_LOAD");
+   const results = await extractPage();
+   const seenLinks = new Set(results.map(result => result.link));
+   
+   for (let pageIndex = 1; pageIndex < maxPages; pageIndex++) {
+       const kept = countKeptResults(results, query, options, domain, qualityAnalyzer);
+       if (kept >= limit) {
+           break;
+       }
+       
+       logger.info(`[GoogleSearch] ${kept}/${limit} results kept after ${pageIndex} page(s), fetching the next page`);
+       if (!await provider.goToNextPage(page, pageIndex, timeout, vertical)) {
+           break;
+       }
+       await provider.waitForResults(page, timeout, vertical);
+       
+       const pageResults = (await extractPage()).filter(result => !seenLinks.has(result.link));
+       if (pageResults.length === 0) {
+           logger.info(`[GoogleSearch] Results page ${pageIndex + 1} added no new results, stopping pagination`);
+           break;
+       }
+       
+       pageResults.forEach(result => seenLinks.add(result.link));
+       results.push(...pageResults);
    }
+   
+   return results;
+}
+
+interface SearchedPage {
+   results: SearchResult[];
+   serpFeatures?: SerpFeatures;
 }
 
 /**
-* Perform a single search attempt with quality analysis
+* Search on an open page and collect the results, with the non-organic sections of the first page
+*/
+async function searchOnPage(
+   page: Page,
+   provider: SearchProvider,
+   query: string,
+   options: SearchOptions,
+   domain: QueryDomain,
+   qualityAnalyzer: SearchQualityAnalyzer,
+   savedState: SavedState
+): Promise<SearchedPage> {
+   const { timeout = 60000, locale = "en-US", vertical = 'web' } = options;
+
+   throwIfCancelled(options);
+   reportStatus(options, query, 'navigating', provider.name);
+   logger.info(`[GoogleSearch] Searching with provider: ${provider.displayName}`);
+   await provider.search(page, query, { savedState, locale, timeout, operators: options.operators, vertical });
+
+   // Wait for and validate results
+   await provider.waitForResults(page, timeout, vertical);
+
+   reportStatus(options, query, 'extracting', provider.name);
+
+   // Extract non-organic sections from the first page; always kept so cached entries can serve them later
+   const serpFeatures = provider.extractSerpFeatures && vertical === 'web'
+       ? await provider.extractSerpFeatures(page)
+       : undefined;
+
+   const results = await collectResultPages(page, provider, query, options, domain, qualityAnalyzer);
+   return { results, serpFeatures };
+}
+
+/**
+* Perform a single search attempt, returning raw extracted results
 */
 async function performSearchAttempt(
    query: string, 
    options: SearchOptions, 
    existingBrowser: Browser | null, 
    useHeadless: boolean,
-   qualityAnalyzer: SearchQualityAnalyzer
+   qualityAnalyzer: SearchQualityAnalyzer,
+   browserPool?: BrowserPool,
+   bypassBreaker = false,
+   pause: SchedulerPause = wait => wait()
 ): Promise<SearchResponse> {
    const {
-       limit = 20,
        timeout = 60000,
        stateFile = "./browser-state.json",
        noSaveState = false,
        locale = "en-US",
-       enableQualityFiltering = true,
-       minQualityScore = 0.3,
+       vertical = 'web',
    } = options;
 
    const startTime = Date.now();
@@ -691,15 +564,52 @@ async function performSearchAttempt(
    let context: BrowserContext | null = null;
    let page: Page | null = null;
    let browserWasProvided = false;
+   let leased = false;
    let savedState: SavedState = {};
+   const provider = getSearchProvider(options.provider);
 
-   // Detect query domain for adaptive quality thresholds
-   const domain = qualityAnalyzer.detectQueryDomain(query);
-   const adaptiveMinScore = domain !== 'general' ? Math.min(minQualityScore, 0.1) : minQualityScore;
-   
-   logger.info(`[GoogleSearch] Detected ${domain} query: "${query}" - using adaptive quality threshold: ${adaptiveMinScore}`);
+   // Detect query domain (unless the caller forced one)
+   const domain = options.domain ?? qualityAnalyzer.detectQueryDomain(query);
+
+   if (!provider.verticals.includes(vertical)) {
+       logger.warn(`[GoogleSearch] ${provider.displayName} does not support ${vertical} search`);
+       return {
+           query,
+           results: [],
+           success: false,
+           provider: provider.name,
+           domain,
+           error: `VERTICAL_NOT_SUPPORTED: ${provider.name} supports ${provider.verticals.join(", ")}`,
+           duration: Date.now() - startTime,
+           resultCount: 0,
+       };
+   }
+
+   // Checked again now the search has its slot, since the half-open trial must be the search
+   // that actually reaches the provider rather than one still queued
+   let trial: number | undefined;
+   if (!bypassBreaker) {
+       const admission = captchaBreaker.admit(provider.name);
+       if (admission.retryAfter !== undefined) {
+           return rateLimitedResponse(query, provider.name, domain, admission.retryAfter);
+       }
+       trial = admission.trial;
+   }
+
+   // CAPTCHAs met headless are handed to the MCP client, each one using up a retry
+   const canHandOff = captchaHandoff.enabled && useHeadless;
+   const maxHandoffs = options.maxRetries ?? 2;
+
+   // Cancelling closes the in-flight page, so whatever Playwright call is pending fails at once
+   const onAbort = () => {
+       if (page && !page.isClosed()) {
+           page.close().catch(() => {});
+       }
+   };
+   options.signal?.addEventListener("abort", onAbort);
 
    try {
+       throwIfCancelled(options);
        logger.info("[GoogleSearch] Initializing browser...");
 
        // Load existing state if available
@@ -723,8 +633,19 @@ async function performSearchAttempt(
            logger.info("[GoogleSearch] No browser state found, creating new session");
        }
 
-       // Setup browser
-       if (existingBrowser) {
+       // Setup browser, preferring a warm pooled context for headless searches
+       if (browserPool && useHeadless) {
+           const lease = await browserPool.lease(
+               `${path.resolve(stateFile)}|${locale}`,
+               pooledBrowser => createStealthContext(pooledBrowser, savedState, locale, storageState)
+           );
+           browser = lease.browser;
+           context = lease.context;
+           page = lease.page;
+           browserWasProvided = true;
+           leased = true;
+           logger.info("[GoogleSearch] Using pooled browser context");
+       } else if (existingBrowser) {
            browser = existingBrowser;
            browserWasProvided = true;
            logger.info("[GoogleSearch] Using existing browser instance");
@@ -742,50 +663,57 @@ async function performSearchAttempt(
        }
 
        // Setup browser context and page
-       const { context: browserContext, page: browserPage } = await setupBrowserContext(
-           browser, 
-           savedState, 
-           locale, 
-           storageState
-       );
-       context = browserContext;
-       page = browserPage;
-
-       // Navigate to Google
-       await navigateToGoogle(page, savedState, timeout);
-
-       // Perform search
-       await performSearch(page, query, timeout);
-
-       // Wait for and validate results
-       await waitForSearchResults(page, timeout);
-
-       // Extract results with enhanced snippet extraction
-       let results = await extractSearchResults(page, limit, qualityAnalyzer);
-       logger.info(`[GoogleSearch] Successfully retrieved ${results.length} raw results`);    
+       if (!page || !context) {
+           const { context: browserContext, page: browserPage } = await setupBrowserContext(
+               browser, 
+               savedState, 
+               locale, 
+               storageState
+           );
+           context = browserContext;
+           page = browserPage;
+       }
 
-       // Apply quality filtering using the modular analyzer
-       if (enableQualityFiltering) {
-           results = qualityAnalyzer.applyQualityFiltering(results, query, adaptiveMinScore);
-           
-           // Enhance results with metadata
-           results = results.map(result => qualityAnalyzer.analyzeResult(result, query));
-           
-           logger.info(`[GoogleSearch] Quality filtering applied: ${results.length} quality results for ${domain} query`);
+       // Navigate to the provider and perform search. A CAPTCHA handed to the client is searched
+       // again in this same context, which holds the cookies that got past it; the wait for the
+       // client gives up the scheduler slot.
+       let searched: SearchedPage | undefined;
+       for (let handoffs = 0; !searched; handoffs++) {
+           try {
+               searched = await searchOnPage(page, provider, query, options, domain, qualityAnalyzer, savedState);
+           } catch (error) {
+               if (!canHandOff || !(error as Error).message.includes("CAPTCHA_DETECTED") || handoffs >= maxHandoffs || options.signal?.aborted) {
+                   throw error;
+               }
+               captchaBreaker.recordCaptcha(provider.name);
+               await pause(() => captchaHandoff.handOff(page!, context!, provider, query, options.signal, challenge =>
+                   options.onProgress?.({ query, status: 'captcha', provider: provider.name, challenge }), options.clientId));
+               // Keep the cookies that got past the challenge for later searches too
+               await saveBrowserState(context, stateFile, savedState, noSaveState);
+               logger.info(`[GoogleSearch] CAPTCHA resolved by the client, searching again in the same browser context`);
+           }
        }
+       const { results, serpFeatures } = searched;
+       logger.info(`[GoogleSearch] Successfully retrieved ${results.length} raw results from ${provider.displayName}`);    
        
+       captchaBreaker.recordSuccess(provider.name);
+
        // Save browser state
        await saveBrowserState(context, stateFile, savedState, noSaveState);
        
        // Calculate performance metrics
        const endTime = Date.now();
        const duration = endTime - startTime;
-       logger.info(`[GoogleSearch] Search completed successfully in ${duration}ms with ${results.length} quality results (${domain} domain)`);
+       logger.info(`[GoogleSearch] Search completed successfully in ${duration}ms with ${results.length} raw results (${domain} domain)`);
        
        // Clean up resources (but keep browser open if externally provided or in debug mode)
        if (!browserWasProvided && !options.debug) {
            await cleanupResources(page, context, browser, browserWasProvided, false);
            logger.info("[GoogleSearch] Browser resources cleaned up");
+       } else if (browserPool && useHeadless) {
+           // Return the page to the pool, keeping the warm context
+           await cleanupResources(page, null, null, true, false);
+           logger.info("[GoogleSearch] Returned page to browser pool");
        } else {
            logger.info("[GoogleSearch] Keeping browser instance open");
        }
@@ -794,27 +722,46 @@ async function performSearchAttempt(
            query,
            results,
            success: true,
+           provider: provider.name,
+           domain,
            duration,
            resultCount: results.length,
+           serpFeatures,
        };
        
    } catch (error) {
       const err = error as Error;
+
+      if (options.signal?.aborted) {
+          // Only the search's own page goes; a pooled context stays warm for the next search
+          logger.info(`[GoogleSearch] Search for "${query}" cancelled`);
+          await cleanupResources(page, leased ? null : context, browser, browserWasProvided, false);
+          throw new Error("SEARCH_CANCELLED");
+      }
+
       logger.error(`[GoogleSearch] Search attempt failed: ${err.message}`);
    
       // Handle CAPTCHA-specific errors
-      if (err.message.includes("CAPTCHA_DETECTED")) {
+      const captcha = err.message.includes("CAPTCHA_DETECTED");
+      if (captcha) {
+          captchaBreaker.recordCaptcha(provider.name);
+      }
+
+      // With handoff the client had its chances; nobody can solve the CAPTCHA in a window on a server
+      if (captcha && !canHandOff) {
+          reportStatus(options, query, 'captcha', provider.name);
           if (useHeadless && !browserWasProvided) {
               await cleanupResources(page, context, browser, browserWasProvided, false);
               throw new Error("CAPTCHA_RETRY_NON_HEADLESS");
           } else if (browserWasProvided) {
+              // The context's cookies are flagged now, so a pooled one is dropped from the pool too
               await cleanupResources(page, context, null, browserWasProvided, false);
               throw new Error("CAPTCHA_RETRY_WITH_NEW_BROWSER");
           } else {
               // Non-headless mode, try to handle CAPTCHA interactively
               try {
                   if (page && context && browser) {
-                      await handleCaptchaDetection(false, browserWasProvided, page, context, browser, timeout);
+                      await handleCaptchaDetection(false, browserWasProvided, page, context, browser, timeout, provider);
                   }
                   // If we get here, CAPTCHA was resolved, retry the search logic
                   throw new Error("CAPTCHA_RESOLVED_RETRY");
@@ -834,8 +781,8 @@ async function performSearchAttempt(
           }
       }
    
-      // Clean up resources
-      await cleanupResources(page, context, browser, browserWasProvided, options.debug || false);
+      // Clean up resources; a pooled context stays warm unless a CAPTCHA flagged its cookies
+      await cleanupResources(page, leased && !captcha ? null : context, browser, browserWasProvided, options.debug || false);
    
       // Return error result instead of throwing for non-critical errors
       if (!err.message.includes("CAPTCHA_RETRY") && !err.message.includes("CAPTCHA_RESOLVED_RETRY")) {
@@ -844,6 +791,8 @@ async function performSearchAttempt(
               query,
               results: [],
               success: false,
+              provider: provider.name,
+              domain,
               error: err.message,
               duration: endTime - startTime,
               resultCount: 0,
@@ -852,37 +801,325 @@ async function performSearchAttempt(
    
       // Re-throw retry errors
       throw error;
+   } finally {
+      options.signal?.removeEventListener("abort", onAbort);
+      if (trial !== undefined) {
+          captchaBreaker.endTrial(provider.name, trial);
+      }
    }
 }
 
 /**
-* Enhanced Google search function with modular quality analysis
+* Fetch page content for the top results and fold it into their scores
+*/
+async function attachPageContent(
+   results: SearchResult[],
+   query: string,
+   options: SearchOptions,
+   domain: QueryDomain,
+   qualityAnalyzer: SearchQualityAnalyzer,
+   browserPool?: BrowserPool
+): Promise<SearchResult[]> {
+   const {
+       fetchContentCount = 3,
+       contentTokenBudget = 2000,
+       timeout = 60000,
+       locale = "en-US",
+       enableQualityFiltering = true,
+   } = options;
+   
+   const top = results.slice(0, fetchContentCount);
+   if (top.length === 0) {
+       return results;
+   }
+   
+   logger.info(`[GoogleSearch] Fetching page content for top ${top.length} results of "${query}"`);
+   const contents = await fetchPageContents(
+       top.map(result => result.link),
+       {
+           timeout: Math.min(timeout, 30000),
+           locale,
+           tokenBudget: contentTokenBudget,
+           blockPrivateNetworks: options.blockPrivateNetworks,
+           signal: options.signal,
+       },
+       browserPool
+   );
+   throwIfCancelled(options);
+   
+   let enriched: SearchResult[] = top.map((result, index) => ({ ...result, content: contents[index] }));
+   if (enableQualityFiltering) {
+       // Only the fetched results are re-ranked, among themselves
+       enriched = enriched
+           .map(result => qualityAnalyzer.scoreWithContent(result, query, options.domain))
+           .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+   }
+   
+   return [...enriched, ...results.slice(top.length)];
+}
+
+/**
+* Enhanced search function with modular quality analysis, run through the selected provider.
+* Raw results are cached on disk and re-scored on every call, so changes to the
+* quality config never require re-fetching.
 */
 export async function googleSearch(
    query: string, 
    options: SearchOptions = {}, 
    existingBrowser?: Browser,
-   qualityAnalyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer()
+   qualityAnalyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer(),
+   browserPool?: BrowserPool
+): Promise<SearchResponse> {
+   let response = await searchWithCache(query, options, existingBrowser, qualityAnalyzer, browserPool);
+   if (response.retryAfter !== undefined && options.fallback?.length) {
+       response = await searchFallbacks(query, options, response, existingBrowser, qualityAnalyzer, browserPool);
+   }
+   if (!options.serpFeatures) {
+       delete response.serpFeatures;
+   }
+   if (!options.domain) {
+       response.domainClassification = qualityAnalyzer.classifyQuery(query);
+   }
+   
+   if (options.fetchContent && response.success) {
+       throwIfCancelled(options);
+       const domain = response.domain ?? options.domain ?? qualityAnalyzer.detectQueryDomain(query);
+       response.results = await attachPageContent(response.results, query, options, domain, qualityAnalyzer, browserPool);
+   }
+   
+   return response;
+}
+
+/**
+* Answer a query whose provider is paused for CAPTCHAs from options.fallback, in order: the
+* cache, however old, or another provider. Keeps the rate-limited response if none succeeds.
+*/
+async function searchFallbacks(
+   query: string,
+   options: SearchOptions,
+   limited: SearchResponse,
+   existingBrowser: Browser | undefined,
+   qualityAnalyzer: SearchQualityAnalyzer,
+   browserPool?: BrowserPool
+): Promise<SearchResponse> {
+   const limitedProvider = limited.provider ?? options.provider ?? 'google';
+   
+   for (const fallback of options.fallback ?? []) {
+       if (fallback === limitedProvider) {
+           continue;
+       }
+       throwIfCancelled(options);
+       
+       const response = fallback === 'cache'
+           ? await searchWithCache(query, { ...options, cache: 'only' }, existingBrowser, qualityAnalyzer, browserPool)
+           : await searchWithCache(query, {
+                 ...options,
+                 provider: fallback,
+                 stateFile: (options.stateFile || "./browser-state.json").replace(".json", `-${fallback}.json`),
+             }, existingBrowser, qualityAnalyzer, browserPool);
+       if (response.success) {
+           logger.info(`[GoogleSearch] ${limitedProvider} is rate limited, answered "${query}" from ${fallback}`);
+           return { ...response, retryAfter: limited.retryAfter, fallbackFrom: limitedProvider };
+       }
+       logger.info(`[GoogleSearch] Fallback ${fallback} could not answer "${query}": ${response.error}`);
+   }
+   
+   return limited;
+}
+
+/**
+* Serve a search from the raw result cache or fetch it, then apply quality scoring
+*/
+async function searchWithCache(
+   query: string, 
+   options: SearchOptions, 
+   existingBrowser: Browser | undefined,
+   qualityAnalyzer: SearchQualityAnalyzer,
+   browserPool?: BrowserPool
+): Promise<SearchResponse> {
+   const {
+       limit = 20,
+       locale = "en-US",
+       cache: cacheMode = 'enabled',
+       cacheTtl = cacheDefaults.ttl,
+       staleWhileRevalidate = cacheDefaults.staleWhileRevalidate,
+   } = options;
+   const provider = options.provider ?? 'google';
+   const domain = options.domain ?? qualityAnalyzer.detectQueryDomain(query);
+   
+   if (cacheMode === 'disabled') {
+       const response = await fetchRawResults(query, options, existingBrowser, qualityAnalyzer, browserPool);
+       reportStatus(options, query, 'filtering', provider);
+       return {
+           ...response,
+           ...applyQualityPipeline(response.results, query, options, domain, qualityAnalyzer),
+           cacheStatus: 'bypass',
+       };
+   }
+   
+   const cache = ResultCache.forFile(options.cacheFile ?? cacheDefaults.file);
+   // Pagination stops once enough results survive filtering, so the filter settings shape the raw results too
+   const key = ResultCache.key(query, locale, limit, provider, options.operators, options.vertical, {
+       maxPages: options.maxPages,
+       minQualityScore: options.minQualityScore,
+       enableQualityFiltering: options.enableQualityFiltering,
+       domain: options.domain,
+   });
+   const cached = cacheMode === 'refresh' ? undefined : cache.get(key, cacheTtl, staleWhileRevalidate);
+   
+   // Offline mode serves whatever is cached, however old; entries stored without
+   // SERP features only satisfy callers that don't ask for them
+   const hasWantedFeatures = !options.serpFeatures
+       || !getSearchProvider(provider).extractSerpFeatures
+       || (options.vertical ?? 'web') !== 'web'
+       || cached?.entry.serpFeatures !== undefined;
+   const usable = cached && (cached.state !== 'expired' || cacheMode === 'only')
+       && (hasWantedFeatures || cacheMode === 'only');
+   if (cached && usable) {
+       const isFresh = cached.state === 'fresh';
+       logger.info(`[GoogleSearch] Cache ${isFresh ? "hit" : "stale hit"} for "${query}" (${provider}, stored ${new Date(cached.entry.storedAt).toISOString()})`);
+       
+       if (!isFresh && cacheMode !== 'only') {
+           // Stale-while-revalidate: refresh in the background with a browser of its own, outliving the request;
+           // stale hits while it runs share it rather than each starting a search
+           cache.revalidate(key, () =>
+               fetchRawResults(query, { ...options, debug: false, signal: undefined, onProgress: undefined }, undefined, qualityAnalyzer, browserPool)
+                   .then(response => storeRawResults(cache, key, query, provider, locale, limit, response)));
+       }
+       
+       reportStatus(options, query, 'filtering', provider);
+       return {
+           query,
+           ...applyQualityPipeline(cached.entry.results.map(result => ({ ...result })), query, options, domain, qualityAnalyzer),
+           success: true,
+           provider,
+           domain,
+           duration: 0,
+           cacheStatus: isFresh ? 'hit' : 'stale',
+           cachedAt: new Date(cached.entry.storedAt).toISOString(),
+           serpFeatures: cached.entry.serpFeatures,
+       };
+   }
+   
+   if (cacheMode === 'only') {
+       logger.info(`[GoogleSearch] Cache miss for "${query}" in cache-only mode`);
+       return {
+           query,
+           results: [],
+           success: false,
+           provider,
+           domain,
+           error: "CACHE_MISS",
+           duration: 0,
+           resultCount: 0,
+           cacheStatus: 'miss',
+       };
+   }
+   
+   const response = await fetchRawResults(query, options, existingBrowser, qualityAnalyzer, browserPool);
+   storeRawResults(cache, key, query, provider, locale, limit, response);
+   
+   reportStatus(options, query, 'filtering', provider);
+   return {
+       ...response,
+       ...applyQualityPipeline(response.results, query, options, domain, qualityAnalyzer),
+       cacheStatus: 'miss',
+   };
+}
+
+/**
+* Store the raw results of a successful search in the cache
+*/
+function storeRawResults(
+   cache: ResultCache,
+   key: string,
+   query: string,
+   provider: SearchProviderName,
+   locale: string,
+   limit: number,
+   response: SearchResponse
+): void {
+   if (!response.success) {
+       return;
+   }
+   
+   cache.set({
+       key,
+       query,
+       provider,
+       locale,
+       limit,
+       results: response.results,
+       serpFeatures: response.serpFeatures,
+       storedAt: Date.now(),
+   });
+}
+
+/**
+* Failed response for a search refused while its provider is paused after repeated CAPTCHAs
+*/
+function rateLimitedResponse(query: string, provider: SearchProviderName, domain: string, retryAfter: number): SearchResponse {
+   logger.warn(`[GoogleSearch] ${provider} is paused after repeated CAPTCHAs, retry after ${retryAfter}s`);
+   return {
+       query,
+       results: [],
+       success: false,
+       provider,
+       domain,
+       error: `RATE_LIMITED: ${provider} keeps answering with CAPTCHAs, retry after ${retryAfter} seconds`,
+       retryAfter,
+       duration: 0,
+       resultCount: 0,
+   };
+}
+
+/**
+* Run a search with CAPTCHA-aware retries, returning raw extracted results
+*/
+async function fetchRawResults(
+   query: string, 
+   options: SearchOptions, 
+   existingBrowser: Browser | undefined,
+   qualityAnalyzer: SearchQualityAnalyzer,
+   browserPool?: BrowserPool
 ): Promise<SearchResponse> {
-   const maxRetries = options.maxRetries || 2;
+   const maxRetries = options.maxRetries ?? 2;
+   const provider = options.provider ?? 'google';
    let retryCount = 0;
    let lastError: Error | null = null;
    
    // Detect query domain for logging
-   const domain = qualityAnalyzer.detectQueryDomain(query);
+   const domain = options.domain ?? qualityAnalyzer.detectQueryDomain(query);
    logger.info(`[GoogleSearch] Starting search for ${domain} query: "${query}"`);
    
    while (retryCount <= maxRetries) {
       try {
+          // Fail fast while the provider keeps answering with CAPTCHAs, rather than escalating to a
+          // visible browser nobody is watching; debug mode still lets the user solve them, and a
+          // search already let through ends the pause when its handed-off CAPTCHA is resolved
+          const bypassBreaker = options.debug === true;
+          const retryAfter = bypassBreaker ? undefined : captchaBreaker.retryAfter(provider);
+          if (retryAfter !== undefined) {
+              return rateLimitedResponse(query, provider, domain, retryAfter);
+          }
+          
           const useHeadless = retryCount === 0 ? !options.debug : false;
           const currentBrowser = retryCount === 0 ? existingBrowser || null : null;
           
           logger.info(`[GoogleSearch] Search attempt ${retryCount + 1}/${maxRetries + 1} for query: "${query}" (${domain} domain)`);
           
-          return await performSearchAttempt(query, options, currentBrowser, useHeadless, qualityAnalyzer);
+          // Every attempt, retries included, is a request to the engine and waits its turn
+          return await searchScheduler.run(
+              provider,
+              pause => performSearchAttempt(query, options, currentBrowser, useHeadless, qualityAnalyzer, browserPool, bypassBreaker, pause),
+              options.signal
+          );
    
       } catch (error) {
           const err = error as Error;
+          if (err.message === "SEARCH_CANCELLED") {
+              throw err;
+          }
           lastError = err;
           retryCount++;
    
@@ -908,6 +1145,8 @@ export async function googleSearch(
                   query,
                   results: [],
                   success: false,
+                  provider,
+                  domain,
                   error: err.message,
                   duration: 0,
                   resultCount: 0,
@@ -921,6 +1160,8 @@ export async function googleSearch(
       query,
       results: [],
       success: false,
+      provider,
+      domain,
       error: lastError?.message || "Search failed after all retry attempts",
       duration: 0,
       resultCount: 0,
@@ -928,40 +1169,128 @@ export async function googleSearch(
 }
 
 /**
-* Enhanced multiple Google searches with modular quality analysis
+* Meta-search: run one query on every provider in options.providers and fuse the
+* raw rankings with reciprocal-rank fusion and quality scores
+*/
+export async function metaSearch(
+   query: string,
+   options: SearchOptions = {},
+   existingBrowser?: Browser,
+   qualityAnalyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer(),
+   browserPool?: BrowserPool
+): Promise<SearchResponse> {
+   const providers = Array.from(new Set(options.providers?.length ? options.providers : [options.provider ?? 'google']));
+   const {
+       limit = 10,
+       enableQualityFiltering = true,
+       minQualityScore,
+       explain = false,
+       diversify = true,
+   } = options;
+   const startTime = Date.now();
+   const domain = options.domain ?? qualityAnalyzer.detectQueryDomain(query);
+   
+   logger.info(`[MetaSearch] Searching ${providers.join(", ")} for ${domain} query: "${query}"`);
+   
+   // Collect raw rankings; quality filtering happens once, after fusion
+   const responses = await Promise.all(providers.map(provider => googleSearch(query, {
+       ...options,
+       provider,
+       providers: undefined,
+       enableQualityFiltering: false,
+       fetchContent: false,
+       // The other providers already stand in for a paused one
+       fallback: options.fallback?.filter(fallback => fallback === 'cache'),
+       stateFile: (options.stateFile || "./browser-state.json").replace(".json", `-${provider}.json`),
+   }, existingBrowser, qualityAnalyzer, browserPool)));
+   
+   throwIfCancelled(options);
+   
+   const succeeded = responses.filter(r => r.success);
+   const failed = responses.filter(r => !r.success);
+   failed.forEach(r => logger.warn(`[MetaSearch] ${r.provider} failed: ${r.error}`));
+   
+   const engineResults = succeeded.map(r => ({ engine: r.provider!, results: r.results }));
+   const serpFeatures = succeeded.find(r => r.serpFeatures)?.serpFeatures;
+   const filteredOut: SearchResult[] = [];
+   reportStatus(options, query, 'filtering');
+   let results = enableQualityFiltering
+       ? qualityAnalyzer.fuseResults(engineResults, query, minQualityScore, options.domain, explain, filteredOut)
+             .map(result => qualityAnalyzer.analyzeResult(result, query, options.domain))
+       : qualityAnalyzer.fuseResults(engineResults, query, 0, options.domain, explain);
+   if (enableQualityFiltering && diversify) {
+       results = qualityAnalyzer.diversifyResults(results, options);
+   }
+   results = results.slice(0, limit);
+   
+   if (options.fetchContent && succeeded.length > 0) {
+       throwIfCancelled(options);
+       results = await attachPageContent(results, query, options, domain, qualityAnalyzer, browserPool);
+   }
+   
+   const duration = Date.now() - startTime;
+   logger.info(`[MetaSearch] Fused ${results.length} results from ${succeeded.length}/${providers.length} providers in ${duration}ms`);
+   
+   return {
+      query,
+      results,
+      success: succeeded.length > 0,
+      providers: succeeded.map(r => r.provider!),
+      domain,
+      domainClassification: options.domain ? undefined : qualityAnalyzer.classifyQuery(query),
+      error: failed.length > 0
+          ? failed.map(r => `${r.provider}: ${r.error}`).join("; ")
+          : undefined,
+      duration,
+      resultCount: results.length,
+      filteredResults: explain && enableQualityFiltering ? filteredOut : undefined,
+      serpFeatures,
+   };
+}
+
+/**
+* Enhanced multiple searches with modular quality analysis, run through the selected provider
+* (or fused across options.providers in meta-search mode)
 */
 export async function multiGoogleSearch(
    queries: string[], 
    options: SearchOptions = {},
-   qualityAnalyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer()
+   qualityAnalyzer: SearchQualityAnalyzer = new SearchQualityAnalyzer(),
+   browserPool?: BrowserPool
 ): Promise<SearchResponse[]> {
 
    if (!queries || queries.length === 0) {
       throw new Error("At least one search query is required");
    }
+   throwIfCancelled(options);
    
    const startTime = Date.now();
    
    // Analyze query domains for better logging
-   const domainCounts = {
-      medical: 0,
-      javascript: 0,
-      nim: 0,
-      general: 0
-   };
+   const queryDomains: QueryDomain[] = queries.map(q => options.domain ?? qualityAnalyzer.detectQueryDomain(q));
+   const domainCounts: { [domain: string]: number } = {};
    
-   queries.forEach(q => {
-      const domain = qualityAnalyzer.detectQueryDomain(q);
-      domainCounts[domain]++;
+   queryDomains.forEach(domain => {
+      domainCounts[domain] = (domainCounts[domain] || 0) + 1;
    });
+   const domainSummary = Object.entries(domainCounts)
+       .map(([domain, count]) => `${count} ${domain}`)
+       .join(", ");
    
-   logger.info(`[MultiSearch] Starting searches: ${queries.length} total (${domainCounts.medical} medical, ${domainCounts.javascript} JS, ${domainCounts.nim} Nim, ${domainCounts.general} general)`);
+   const providerLabel = options.providers?.length
+       ? `meta (${options.providers.join(", ")})`
+       : getSearchProvider(options.provider).displayName;
+   logger.info(`[MultiSearch] Starting ${providerLabel} searches: ${queries.length} total (${domainSummary})`);
+   queries.forEach((query, queryIndex) => options.onProgress?.({ query, queryIndex, status: 'queued' }));
    
    let sharedBrowser: Browser | null = null;
    
    try {
       // Launch a shared browser instance for all searches if not in debug mode
-      if (!options.debug) {
+      // (unless the server's long-lived browser pool can serve them)
+      if (browserPool && !options.debug) {
+          logger.info(`[MultiSearch] Using browser pool: ${JSON.stringify(browserPool.stats())}`);
+      } else if (!options.debug) {
           logger.info("[MultiSearch] Launching shared browser instance...");
           sharedBrowser = await chromium.launch({
               headless: true,
@@ -970,42 +1299,37 @@ export async function multiGoogleSearch(
           });
       }
    
-      // Execute searches with controlled concurrency
-      const concurrencyLimit = options.concurrency || 3;
-      const searchPromises: Promise<SearchResponse>[] = [];
-      
-      for (let i = 0; i < queries.length; i += concurrencyLimit) {
-          const batch = queries.slice(i, i + concurrencyLimit);
+      // Sliding window: each finished query makes room for the next. The shared scheduler
+      // paces the engine requests and caps them across all concurrent tool calls.
+      const results = await runWindowed(queries, options.concurrency || 3, (query, index) => {
+          throwIfCancelled(options);
+          const domain = queryDomains[index];
+          const searchOptions: SearchOptions = {
+              ...options,
+              stateFile: options.stateFile 
+                  ? `${options.stateFile}-${index}`
+                  : `./browser-state-${index}.json`,
+              // Tag each query's progress with its position
+              onProgress: options.onProgress && (progress => options.onProgress!({ ...progress, queryIndex: index })),
+          };
           
-          const batchPromises = batch.map((query: string, batchIndex: number) => {
-              const domain = qualityAnalyzer.detectQueryDomain(query);
-              const searchOptions: SearchOptions = {
-                  ...options,
-                  // Use adaptive quality thresholds based on domain
-                  minQualityScore: options.minQualityScore || (domain !== 'general' ? 0.1 : 0.3),
-                  stateFile: options.stateFile 
-                      ? `${options.stateFile}-${i + batchIndex}`
-                      : `./browser-state-${i + batchIndex}.json`,
-              };
-              
-              const globalIndex = i + batchIndex;
-              logger.info(`[MultiSearch] Starting search #${globalIndex + 1} for ${domain} query: "${query}"`);
-              
-              return googleSearch(query, searchOptions, sharedBrowser || undefined, qualityAnalyzer);
-          });
+          logger.info(`[MultiSearch] Starting search #${index + 1} for ${domain} query: "${query}"`);
           
-          searchPromises.push(...batchPromises);
+          const search = options.providers?.length
+              ? metaSearch(query, searchOptions, sharedBrowser || undefined, qualityAnalyzer, browserPool)
+              : googleSearch(query, searchOptions, sharedBrowser || undefined, qualityAnalyzer, browserPool);
           
-          // Wait for current batch to complete before starting next batch
-          if (i + concurrencyLimit < queries.length) {
-              await Promise.all(batchPromises);
-              // Small delay between batches to avoid rate limiting
-              await new Promise(resolve => setTimeout(resolve, getRandomDelay(500, 1500)));
-          }
-      }
-   
-      // Wait for all searches to complete
-      const results = await Promise.all(searchPromises);
+          // Stream each query's results as soon as it finishes
+          return search.then(response => {
+              searchOptions.onProgress?.({
+                  query,
+                  status: response.success ? 'completed' : 'failed',
+                  provider: response.provider,
+                  response,
+              });
+              return response;
+          });
+      });
       
       const endTime = Date.now();
       const duration = endTime - startTime;
@@ -1013,21 +1337,25 @@ export async function multiGoogleSearch(
       const totalResults = results.reduce((sum, r) => sum + (r.resultCount || 0), 0);
       
       // Calculate domain-specific statistics
-      const domainResults = {
-          medical: results.filter((r, i) => qualityAnalyzer.detectQueryDomain(queries[i]) === 'medical'),
-          javascript: results.filter((r, i) => qualityAnalyzer.detectQueryDomain(queries[i]) === 'javascript'),
-          nim: results.filter((r, i) => qualityAnalyzer.detectQueryDomain(queries[i]) === 'nim'),
-          general: results.filter((r, i) => qualityAnalyzer.detectQueryDomain(queries[i]) === 'general')
-      };
+      const domainBreakdown = Object.keys(domainCounts)
+          .map(domain => {
+              const successful = results.filter((r, i) => queryDomains[i] === domain && r.success).length;
+              return `${domain}: ${successful}/${domainCounts[domain]}`;
+          })
+          .join(", ");
       
       logger.info(`[MultiSearch] Completed in ${duration}ms: ${successCount}/${queries.length} successful searches, ${totalResults} total results`);
-      logger.info(`[MultiSearch] Domain breakdown - Medical: ${domainResults.medical.length}, JS: ${domainResults.javascript.length}, Nim: ${domainResults.nim.length}, General: ${domainResults.general.length}`);
+      logger.info(`[MultiSearch] Domain breakdown (successful/total) - ${domainBreakdown}`);
    
       return results;
    
    } catch (error) {
       const err = error as Error;
-      logger.error(`[MultiSearch] Fatal error: ${err.message}`);
+      if (err.message === "SEARCH_CANCELLED") {
+          logger.info(`[MultiSearch] Cancelled after ${Date.now() - startTime}ms`);
+      } else {
+          logger.error(`[MultiSearch] Fatal error: ${err.message}`);
+      }
       throw error;
       
    } finally {
@@ -0,0 +1,336 @@
+// src/services/pageContent.ts
+import { chromium, APIResponse, Browser, BrowserContext, Page, Route } from "playwright";
+import { logger } from "../utils/logger.js";
+import type { PageContent } from "../quality/types.js";
+import { assertPublicUrl } from "../utils/network.js";
+import { BrowserPool, BROWSER_ARGS } from "./browserPool.js";
+import { runWindowed } from "./scheduler.js";
+
+export interface FetchContentOptions {
+   timeout?: number;
+   locale?: string;
+   tokenBudget?: number; // Approximate tokens of text + code returned per page
+   blockPrivateNetworks?: boolean; // Refuse loopback, link-local and private addresses, redirects included
+   concurrency?: number;     // Pages loaded at once (default: 3)
+   signal?: AbortSignal;     // Closes the pages being loaded and skips the rest
+}
+
+// Rough characters-per-token ratio for English prose and code
+const CHARS_PER_TOKEN = 4;
+
+// Share of the token budget code blocks may use before prose is cut
+const CODE_BUDGET_SHARE = 0.3;
+
+// Redirects followed per request when private networks are blocked
+const MAX_REDIRECTS = 10;
+
+interface ExtractedPage {
+   title: string;
+   text: string;
+   headings: string[];
+   codeBlocks: string[];
+   publishedAt?: string;
+}
+
+/**
+ * Fetch and extract readable content for several URLs, a few at a time, sharing one browser.
+ * Pages cancelled by the signal come back with a REQUEST_CANCELLED error.
+ */
+export async function fetchPageContents(
+   urls: string[],
+   options: FetchContentOptions = {},
+   browserPool?: BrowserPool
+): Promise<PageContent[]> {
+   if (urls.length === 0) {
+       return [];
+   }
+
+   let browser: Browser | null = null;
+   try {
+       if (!browserPool) {
+           logger.info("[PageContent] Launching browser for content extraction...");
+           browser = await chromium.launch({
+               headless: true,
+               args: BROWSER_ARGS,
+               ignoreDefaultArgs: ["--enable-automation"],
+           });
+       }
+       const ownBrowser = browser;
+
+       return await runWindowed(urls, options.concurrency ?? 3, url => fetchSinglePage(url, options, browserPool, ownBrowser));
+   } finally {
+       if (browser) {
+           await browser.close().catch(e => logger.warn(`[PageContent] Error closing browser: ${e instanceof Error ? e.message : String(e)}`));
+       }
+   }
+}
+
+/**
+ * Fetch and extract readable content for a single URL
+ */
+export async function fetchPageContent(
+   url: string,
+   options: FetchContentOptions = {},
+   browserPool?: BrowserPool
+): Promise<PageContent> {
+   const [content] = await fetchPageContents([url], options, browserPool);
+   return content;
+}
+
+async function fetchSinglePage(
+   url: string,
+   options: FetchContentOptions,
+   browserPool: BrowserPool | undefined,
+   browser: Browser | null
+): Promise<PageContent> {
+   const { timeout = 30000, locale = "en-US", tokenBudget = 2000, blockPrivateNetworks = false, signal } = options;
+   let context: BrowserContext | null = null;
+   let page: Page | null = null;
+
+   // Cancelling closes the page, so whatever Playwright call is pending fails at once
+   const onAbort = () => {
+       if (page && !page.isClosed()) {
+           page.close().catch(() => undefined);
+       }
+   };
+   signal?.addEventListener("abort", onAbort, { once: true });
+
+   try {
+       if (signal?.aborted) {
+           throw new Error("REQUEST_CANCELLED");
+       }
+
+       if (blockPrivateNetworks) {
+           await assertPublicUrl(url);
+       }
+
+       if (browserPool) {
+           const key = `content|${locale}${blockPrivateNetworks ? "|public" : ""}`;
+           const lease = await browserPool.lease(key, pooledBrowser => createContentContext(pooledBrowser, locale, blockPrivateNetworks));
+           page = lease.page;
+       } else {
+           context = await createContentContext(browser!, locale, blockPrivateNetworks);
+           page = await context.newPage();
+       }
+       if (signal?.aborted) {
+           throw new Error("REQUEST_CANCELLED");
+       }
+
+       logger.info(`[PageContent] Fetching ${url}`);
+       await page.goto(url, { timeout, waitUntil: "domcontentloaded" });
+       // Give client-rendered pages a moment, but never wait for every tracker
+       await page.waitForLoadState("networkidle", { timeout: Math.min(5000, timeout) }).catch(() => undefined);
+
+       const extracted = await page.evaluate(extractReadableContent);
+       return truncateToBudget(url, extracted, tokenBudget);
+   } catch (error) {
+       const message = signal?.aborted ? "REQUEST_CANCELLED" : error instanceof Error ? error.message : String(error);
+       logger.warn(`[PageContent] Failed to fetch ${url}: ${message}`);
+       return {
+           url,
+           title: "",
+           text: "",
+           headings: [],
+           codeBlocks: [],
+           truncated: false,
+           tokenEstimate: 0,
+           error: message,
+       };
+   } finally {
+       signal?.removeEventListener("abort", onAbort);
+       if (page && !page.isClosed()) {
+           await page.close().catch(() => undefined);
+       }
+       if (context) {
+           await context.close().catch(() => undefined);
+       }
+   }
+}
+
+/**
+ * Lightweight context for reading pages: no images, media or fonts.
+ *
+ * With blockPrivateNetworks every request the page makes is checked and fetched here, and
+ * redirects are followed here too, since the browser would follow a fulfilled redirect
+ * without routing the next hop.
+ */
+async function createContentContext(browser: Browser, locale: string, blockPrivateNetworks = false): Promise<BrowserContext> {
+   const context = await browser.newContext({ locale, javaScriptEnabled: true });
+   await context.route("**/*", async route => {
+       const type = route.request().resourceType();
+       if (["image", "media", "font"].includes(type)) {
+           return route.abort();
+       }
+       if (!blockPrivateNetworks) {
+           return route.continue();
+       }
+
+       try {
+           await route.fulfill({ response: await fetchPublic(route) });
+       } catch (error) {
+           logger.warn(`[PageContent] Blocked ${route.request().url()}: ${error instanceof Error ? error.message : String(error)}`);
+           await route.abort("blockedbyclient").catch(() => undefined);
+       }
+   });
+
+   if (blockPrivateNetworks) {
+       // WebSockets bypass request routing, and reading a page never needs them
+       await context.routeWebSocket(/.*/, ws => ws.close());
+   }
+   return context;
+}
+
+/**
+ * Fetch a routed request, checking its URL and every redirect target before it is requested
+ */
+async function fetchPublic(route: Route): Promise<APIResponse> {
+   let url = route.request().url();
+   let method = route.request().method();
+   for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+       await assertPublicUrl(url);
+       const response = await route.fetch({ url, method, maxRedirects: 0 });
+       const location = response.headers()["location"];
+       if (response.status() < 300 || response.status() >= 400 || !location) {
+           return response;
+       }
+       url = new URL(location, url).toString();
+       // Like browsers, only 307 and 308 repeat the original method and body
+       if (response.status() !== 307 && response.status() !== 308) {
+           method = "GET";
+       }
+   }
+   throw new Error(`Too many redirects from ${route.request().url()}`);
+}
+
+/**
+ * Cut extracted text and code blocks down to the token budget
+ */
+function truncateToBudget(url: string, extracted: ExtractedPage, tokenBudget: number): PageContent {
+   const totalChars = tokenBudget * CHARS_PER_TOKEN;
+   let codeChars = Math.floor(totalChars * CODE_BUDGET_SHARE);
+   let truncated = false;
+
+   const codeBlocks: string[] = [];
+   for (const block of extracted.codeBlocks) {
+       if (codeChars <= 0) {
+           truncated = true;
+           break;
+       }
+       if (block.length > codeChars) {
+           codeBlocks.push(block.substring(0, codeChars) + "\n...");
+           truncated = true;
+           codeChars = 0;
+       } else {
+           codeBlocks.push(block);
+           codeChars -= block.length;
+       }
+   }
+
+   const usedCodeChars = codeBlocks.reduce((sum, block) => sum + block.length, 0);
+   const textChars = totalChars - usedCodeChars;
+   let text = extracted.text;
+   if (text.length > textChars) {
+       // Cut at a sentence or word boundary where possible
+       const cut = text.substring(0, textChars);
+       const boundary = Math.max(cut.lastIndexOf(". "), cut.lastIndexOf("\n"));
+       text = (boundary > textChars * 0.8 ? cut.substring(0, boundary + 1) : cut.replace(/\s+\S*$/, "")) + " ...";
+       truncated = true;
+   }
+
+   return {
+       url,
+       title: extracted.title,
+       text,
+       headings: extracted.headings,
+       codeBlocks,
+       publishedAt: extracted.publishedAt,
+       truncated,
+       tokenEstimate: Math.ceil((text.length + usedCodeChars) / CHARS_PER_TOKEN),
+   };
+}
+
+/**
+ * Readability-style extraction, run inside the page.
+ * Scores block containers by the paragraph text they hold, picks the best
+ * one and reads text, headings and code from it after stripping boilerplate.
+ */
+function extractReadableContent(): ExtractedPage {
+   const boilerplate = "script, style, noscript, iframe, svg, nav, header, footer, aside, form, [role='navigation'], [role='banner'], [role='contentinfo'], [aria-hidden='true'], .ad, .ads, .advert, .cookie, .newsletter, .share, .social, .sidebar, .comments";
+   const unlikely = /comment|sidebar|footer|header|menu|nav|promo|related|share|social|sponsor|cookie|banner|popup|modal/i;
+
+   const root = document.body.cloneNode(true) as HTMLElement;
+   root.querySelectorAll(boilerplate).forEach(el => el.remove());
+
+   // Score candidate containers by the paragraphs they hold
+   const scores = new Map<Element, number>();
+   root.querySelectorAll("p, pre, td, li, blockquote").forEach(el => {
+       const text = el.textContent?.trim() || "";
+       if (text.length < 25) {
+           return;
+       }
+       const score = 1 + text.split(",").length + Math.min(3, Math.floor(text.length / 100));
+       const parent = el.parentElement;
+       const grandparent = parent?.parentElement;
+       if (parent) {
+           scores.set(parent, (scores.get(parent) || 0) + score);
+       }
+       if (grandparent) {
+           scores.set(grandparent, (scores.get(grandparent) || 0) + score / 2);
+       }
+   });
+
+   let best: Element = root.querySelector("article, main, [role='main']") || root;
+   let bestScore = 0;
+   for (const [el, score] of scores) {
+       const hint = `${el.className} ${el.id}`;
+       const adjusted = unlikely.test(hint) ? score * 0.25 : score;
+       if (adjusted > bestScore) {
+           best = el;
+           bestScore = adjusted;
+       }
+   }
+
+   const codeBlocks = Array.from(best.querySelectorAll("pre"))
+       .map(el => el.textContent?.trim() || "")
+       .filter(code => code.length > 0);
+
+   const headings = Array.from(best.querySelectorAll("h1, h2, h3"))
+       .map(el => el.textContent?.trim().replace(/\s+/g, " ") || "")
+       .filter(heading => heading.length > 0);
+
+   // Keep paragraph breaks, drop code (returned separately)
+   best.querySelectorAll("pre").forEach(el => el.remove());
+   const text = Array.from(best.querySelectorAll("h1, h2, h3, h4, p, li, blockquote, td"))
+       .map(el => el.textContent?.trim().replace(/\s+/g, " ") || "")
+       .filter(line => line.length > 0)
+       .join("\n");
+
+   // Publication date from common metadata locations
+   const metaDate = [
+       "meta[property='article:published_time']",
+       "meta[name='date']",
+       "meta[name='pubdate']",
+       "meta[itemprop='datePublished']",
+       "meta[name='DC.date.issued']",
+   ]
+       .map(selector => document.querySelector(selector)?.getAttribute("content"))
+       .find(value => value);
+   let publishedAt = metaDate || document.querySelector("time[datetime]")?.getAttribute("datetime") || undefined;
+   if (!publishedAt) {
+       for (const script of Array.from(document.querySelectorAll("script[type='application/ld+json']"))) {
+           const match = (script.textContent || "").match(/"datePublished"\s*:\s*"([^"]+)"/);
+           if (match) {
+               publishedAt = match[1];
+               break;
+           }
+       }
+   }
+
+   return {
+       title: document.title.trim(),
+       text: text || (best.textContent || "").replace(/\s+/g, " ").trim(),
+       headings,
+       codeBlocks,
+       publishedAt,
+   };
+}
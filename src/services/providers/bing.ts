@@ -0,0 +1,165 @@
+// src/services/providers/bing.ts
+import type { Page } from "playwright";
+import { logger } from "../../utils/logger.js";
+import type { SearchResult } from "../../quality/types.js";
+import type { SearchProvider, ProviderSearchContext, SearchOperators, SearchVertical } from "./types.js";
+import { buildQueryString, toEpochDays } from "./queryBuilder.js";
+import { matchesChallengeUrl } from "./captcha.js";
+
+const BING_SEARCH_URL = "https://www.bing.com/search";
+
+// Organic results per page, used for first= offsets
+const RESULTS_PER_PAGE = 10;
+
+// CAPTCHA / bot challenge patterns, matched on host and path
+const CAPTCHA_PATTERNS: string[] = [
+   "bing.com/turing",
+   "/challenge",
+   "captcha",
+];
+
+/**
+ * Bing web search, navigating straight to the results URL
+ */
+export class BingSearchProvider implements SearchProvider {
+   readonly name = 'bing' as const;
+   readonly displayName = "Bing";
+   readonly verticals: SearchVertical[] = ['web'];
+
+   constructor(private readonly baseUrl: string = BING_SEARCH_URL) {}
+
+   async search(page: Page, query: string, context: ProviderSearchContext): Promise<void> {
+       const operators = context.operators ?? {};
+       const [language, localeCountry] = context.locale.split(/[-_]/);
+       const country = operators.region ?? localeCountry;
+       const url = new URL(this.baseUrl);
+       url.searchParams.set("q", buildQueryString(query, operators, { languageOperator: true }));
+       if (language) {
+           url.searchParams.set("setlang", language.toLowerCase());
+       }
+       if (country) {
+           url.searchParams.set("cc", country.toUpperCase());
+       }
+       if (operators.safeSearch) {
+           url.searchParams.set("adlt", operators.safeSearch);
+       }
+       const dateFilter = this.buildDateFilter(operators);
+       if (dateFilter) {
+           url.searchParams.set("filters", dateFilter);
+       }
+
+       logger.info(`[Bing] Visiting results page for: ${query}`);
+       const response = await page.goto(url.toString(), {
+           timeout: context.timeout,
+           waitUntil: "domcontentloaded",
+       });
+
+       const currentUrl = page.url();
+       if (this.detectCaptcha(currentUrl) || (response !== null && this.detectCaptcha(response.url()))) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+   }
+
+   /**
+    * Bing's time filter: ez1-ez3 for the past day/week/month, ez5 for a range of days since the epoch.
+    * Freshness takes precedence over a date range, since only one filter applies.
+    */
+   private buildDateFilter(operators: SearchOperators): string | undefined {
+       const today = toEpochDays(new Date().toISOString().slice(0, 10));
+       const presets: Record<string, string> = { day: "ez1", week: "ez2", month: "ez3" };
+
+       if (typeof operators.freshness === "string") {
+           return presets[operators.freshness]
+               ? `ex1:"${presets[operators.freshness]}"`
+               : `ex1:"ez5_${today - 365}_${today}"`;
+       }
+
+       const range = operators.freshness ?? operators.dateRange;
+       if (!range) {
+           return undefined;
+       }
+       const from = range.after ? toEpochDays(range.after) : 0;
+       const to = range.before ? toEpochDays(range.before) : today;
+       return `ex1:"ez5_${from}_${to}"`;
+   }
+
+   async waitForResults(page: Page, timeout: number): Promise<void> {
+       logger.info(`[Bing] Waiting for search results to load... URL: ${page.url()}`);
+
+       try {
+           await page.waitForSelector("#b_results", { timeout: timeout / 2 });
+       } catch (e) {
+           if (this.detectCaptcha(page.url())) {
+               throw new Error("CAPTCHA_DETECTED_DURING_RESULTS");
+           }
+           throw new Error("Could not find search result elements");
+       }
+   }
+
+   async extractResults(page: Page, limit: number): Promise<SearchResult[]> {
+       logger.info("[Bing] Extracting search results...");
+
+       const results = await page.$$eval("#b_results > li.b_algo", (elements: Element[], maxResults: number) => {
+           // Bing wraps outbound links as bing.com/ck/a?...&u=a1<base64url target>
+           const decodeBingLink = (href: string): string => {
+               try {
+                   const parsed = new URL(href, window.location.href);
+                   const encoded = parsed.hostname.endsWith("bing.com") ? parsed.searchParams.get("u") : null;
+                   if (encoded && encoded.startsWith("a1")) {
+                       const base64 = encoded.slice(2).replace(/-/g, "+").replace(/_/g, "/");
+                       return atob(base64 + "=".repeat((4 - base64.length % 4) % 4));
+                   }
+                   return parsed.href;
+               } catch (e) {
+                   return "";
+               }
+           };
+
+           return elements
+               .map((el: Element) => {
+                   const titleElement = el.querySelector("h2");
+                   const linkElement = el.querySelector("h2 a");
+                   const snippetElement = el.querySelector(".b_caption p, .b_lineclamp2, .b_lineclamp3, .b_algoSlug");
+
+                   return {
+                       title: titleElement?.textContent?.trim() || "",
+                       link: decodeBingLink(linkElement?.getAttribute("href") || ""),
+                       snippet: snippetElement?.textContent?.trim() || "",
+                   };
+               })
+               .filter((item: SearchResult) => item.title && item.link)
+               .slice(0, maxResults);
+       }, limit);
+
+       logger.info(`[Bing] Extracted ${results.length} results`);
+       return results;
+   }
+
+   async goToNextPage(page: Page, pageIndex: number, timeout: number): Promise<boolean> {
+       const nextHref = await page.$eval("a.sb_pagN", (el: Element) => (el as HTMLAnchorElement).href).catch(() => null);
+
+       let nextUrl: string;
+       if (nextHref) {
+           nextUrl = nextHref;
+       } else {
+           const url = new URL(page.url());
+           if (!url.searchParams.has("q")) {
+               return false;
+           }
+           url.searchParams.set("first", String(pageIndex * RESULTS_PER_PAGE + 1));
+           nextUrl = url.toString();
+       }
+
+       logger.info(`[Bing] Loading results page ${pageIndex + 1}`);
+       await page.goto(nextUrl, { timeout, waitUntil: "domcontentloaded" });
+
+       if (this.detectCaptcha(page.url())) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+       return true;
+   }
+
+   detectCaptcha(url: string): boolean {
+       return matchesChallengeUrl(url, CAPTCHA_PATTERNS);
+   }
+}
@@ -0,0 +1,17 @@
+// src/services/providers/captcha.ts
+
+/**
+ * Check a URL's host and path against an engine's challenge patterns. The query
+ * string is left out: it carries the search terms, so a query such as
+ * "coding challenge" would otherwise look like a CAPTCHA.
+ */
+export function matchesChallengeUrl(url: string, patterns: string[]): boolean {
+   let target: string;
+   try {
+      const parsed = new URL(url);
+      target = `${parsed.hostname}${parsed.pathname}`.toLowerCase();
+   } catch (e) {
+      return false;
+   }
+   return patterns.some((pattern) => target.includes(pattern));
+}
@@ -0,0 +1,147 @@
+// src/services/providers/duckduckgo.ts
+import type { Page } from "playwright";
+import { logger } from "../../utils/logger.js";
+import type { SearchResult } from "../../quality/types.js";
+import type { SearchProvider, ProviderSearchContext, SafeSearchLevel, SearchVertical } from "./types.js";
+import { buildQueryString } from "./queryBuilder.js";
+import { matchesChallengeUrl } from "./captcha.js";
+
+// The JavaScript-free endpoint is far more stable to scrape than the main site
+const DUCKDUCKGO_HTML_URL = "https://html.duckduckgo.com/html/";
+
+// CAPTCHA / bot challenge patterns, matched on host and path
+const CAPTCHA_PATTERNS: string[] = [
+   "duckduckgo.com/anomaly",
+   "/challenge",
+   "captcha",
+];
+
+// Values of DuckDuckGo's "kp" safe-search parameter
+const SAFE_SEARCH_PARAMS: Record<SafeSearchLevel, string> = {
+   strict: "1",
+   moderate: "-1",
+   off: "-2",
+};
+
+/**
+ * Convert a locale such as "en-US" into DuckDuckGo's region code ("us-en"),
+ * letting explicit region / language operators override either half
+ */
+function toRegionCode(locale: string, region?: string, resultLanguage?: string): string {
+   const [localeLanguage, localeCountry] = locale.toLowerCase().split(/[-_]/);
+   const language = resultLanguage?.toLowerCase() ?? localeLanguage;
+   const country = region?.toLowerCase() ?? localeCountry;
+   return language && country ? `${country}-${language}` : "wt-wt";
+}
+
+/**
+ * DuckDuckGo search through its HTML-only endpoint
+ */
+export class DuckDuckGoSearchProvider implements SearchProvider {
+   readonly name = 'duckduckgo' as const;
+   readonly displayName = "DuckDuckGo";
+   readonly verticals: SearchVertical[] = ['web'];
+
+   constructor(private readonly baseUrl: string = DUCKDUCKGO_HTML_URL) {}
+
+   async search(page: Page, query: string, context: ProviderSearchContext): Promise<void> {
+       const operators = context.operators ?? {};
+       const url = new URL(this.baseUrl);
+       url.searchParams.set("q", buildQueryString(query, operators));
+       url.searchParams.set("kl", toRegionCode(context.locale, operators.region, operators.language));
+       if (operators.safeSearch) {
+           url.searchParams.set("kp", SAFE_SEARCH_PARAMS[operators.safeSearch]);
+       }
+       const range = typeof operators.freshness === "object" ? operators.freshness : operators.dateRange;
+       if (typeof operators.freshness === "string") {
+           // Past day / week / month / year
+           url.searchParams.set("df", operators.freshness.charAt(0));
+       } else if (range) {
+           // Custom date range; open ends are filled in since the endpoint wants both
+           const after = range.after ?? "1990-01-01";
+           const before = range.before ?? new Date().toISOString().slice(0, 10);
+           url.searchParams.set("df", `${after}..${before}`);
+       }
+
+       logger.info(`[DuckDuckGo] Visiting results page for: ${query}`);
+       const response = await page.goto(url.toString(), {
+           timeout: context.timeout,
+           waitUntil: "domcontentloaded",
+       });
+
+       const currentUrl = page.url();
+       if (this.detectCaptcha(currentUrl) || (response !== null && this.detectCaptcha(response.url()))) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+   }
+
+   async waitForResults(page: Page, timeout: number): Promise<void> {
+       logger.info(`[DuckDuckGo] Waiting for search results to load... URL: ${page.url()}`);
+
+       try {
+           await page.waitForSelector("#links .result, .no-results", { timeout: timeout / 2 });
+       } catch (e) {
+           // The anomaly modal is rendered in-page rather than as a redirect
+           if (this.detectCaptcha(page.url()) || await page.$(".anomaly-modal__title, #challenge-form")) {
+               throw new Error("CAPTCHA_DETECTED_DURING_RESULTS");
+           }
+           throw new Error("Could not find search result elements");
+       }
+   }
+
+   async extractResults(page: Page, limit: number): Promise<SearchResult[]> {
+       logger.info("[DuckDuckGo] Extracting search results...");
+
+       const results = await page.$$eval("#links .result:not(.result--ad)", (elements: Element[], maxResults: number) => {
+           return elements
+               .map((el: Element) => {
+                   const titleElement = el.querySelector(".result__a");
+                   const snippetElement = el.querySelector(".result__snippet");
+                   let link = titleElement?.getAttribute("href") || "";
+
+                   // Result links go through a redirect carrying the target in "uddg"
+                   try {
+                       const parsed = link ? new URL(link, window.location.href) : null;
+                       link = parsed ? parsed.searchParams.get("uddg") || parsed.href : "";
+                   } catch (e) {
+                       link = "";
+                   }
+
+                   return {
+                       title: titleElement?.textContent?.trim() || "",
+                       link,
+                       snippet: snippetElement?.textContent?.trim() || "",
+                   };
+               })
+               .filter((item: SearchResult) => item.title && item.link)
+               .slice(0, maxResults);
+       }, limit);
+
+       logger.info(`[DuckDuckGo] Extracted ${results.length} results`);
+       return results;
+   }
+
+   async goToNextPage(page: Page, pageIndex: number, timeout: number): Promise<boolean> {
+       // The HTML endpoint paginates through a POST form rather than links
+       const nextButton = await page.$(".nav-link form input[type='submit'][value*='Next'], .nav-link form .btn--alt");
+       if (!nextButton) {
+           logger.info(`[DuckDuckGo] No further results pages after page ${pageIndex}`);
+           return false;
+       }
+
+       logger.info(`[DuckDuckGo] Loading results page ${pageIndex + 1}`);
+       await Promise.all([
+           page.waitForNavigation({ timeout, waitUntil: "domcontentloaded" }),
+           nextButton.click(),
+       ]);
+
+       if (this.detectCaptcha(page.url())) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+       return true;
+   }
+
+   detectCaptcha(url: string): boolean {
+       return matchesChallengeUrl(url, CAPTCHA_PATTERNS);
+   }
+}
@@ -0,0 +1,440 @@
+// src/services/providers/google.ts
+import type { Page } from "playwright";
+import { logger } from "../../utils/logger.js";
+import { getRandomDelay } from "../../utils/delay.js";
+import type { SearchResult } from "../../quality/types.js";
+import type { SearchProvider, ProviderSearchContext, SavedState, SerpFeatures, SearchOperators, SearchVertical } from "./types.js";
+import { buildQueryString } from "./queryBuilder.js";
+import { matchesChallengeUrl } from "./captcha.js";
+import { extractGoogleSerpFeatures } from "./googleSerpFeatures.js";
+import {
+   extractGoogleVerticalResults,
+   GOOGLE_VERTICAL_TBM,
+   GOOGLE_VERTICAL_RESULT_SELECTORS,
+   GOOGLE_SCHOLAR_URL,
+} from "./googleVerticals.js";
+
+interface ResultSelector {
+   container: string;
+   title: string;
+   snippet: string;
+}
+
+// Organic results per page, used for start= offsets
+const RESULTS_PER_PAGE = 10;
+
+// CAPTCHA detection patterns, matched on host and path
+const CAPTCHA_PATTERNS: string[] = [
+   "google.com/sorry/index",
+   "google.com/sorry",
+   "recaptcha",
+   "captcha",
+];
+
+/**
+ * Google web search, driven through the google.com search box, plus the
+ * news, images and videos tabs and Google Scholar
+ */
+export class GoogleSearchProvider implements SearchProvider {
+   readonly name = 'google' as const;
+   readonly displayName = "Google";
+   readonly verticals: SearchVertical[] = ['web', 'news', 'images', 'videos', 'scholar'];
+
+   // Home page with the search box; by default a Google domain picked once and kept in the saved state
+   constructor(private readonly baseUrl?: string) {}
+
+   async search(page: Page, query: string, context: ProviderSearchContext): Promise<void> {
+       if (context.vertical === 'scholar') {
+           await this.navigateToScholar(page, query, context);
+           return;
+       }
+       
+       await this.navigateToGoogle(page, context.savedState, context.timeout);
+       await this.submitQuery(page, buildQueryString(query, context.operators, { dateOperators: true }), context.timeout);
+       await this.applyUrlParams(page, this.buildUrlParams(context.operators, context.vertical), context.timeout);
+   }
+
+   detectCaptcha(url: string): boolean {
+       return matchesChallengeUrl(url, CAPTCHA_PATTERNS);
+   }
+
+   /**
+    * Navigate to Google and handle initial setup
+    */
+   private async navigateToGoogle(page: Page, savedState: SavedState, timeout: number): Promise<void> {
+       const googleDomains: string[] = [
+           "https://www.google.com",
+           "https://www.google.co.uk", 
+           "https://www.google.ca",
+           "https://www.google.com.au",
+       ];
+   
+       // Select Google domain
+       let selectedDomain: string;
+       if (this.baseUrl) {
+           selectedDomain = this.baseUrl;
+       } else if (savedState.googleDomain) {
+           selectedDomain = savedState.googleDomain;
+           logger.info(`[GoogleSearch] Using saved Google domain: ${selectedDomain}`);
+       } else {
+           selectedDomain = googleDomains[Math.floor(Math.random() * googleDomains.length)];
+           savedState.googleDomain = selectedDomain;
+           logger.info(`[GoogleSearch] Selected Google domain: ${selectedDomain}`);
+       }
+   
+       logger.info("[GoogleSearch] Visiting Google search page...");
+   
+       // Navigate to Google
+       const response = await page.goto(selectedDomain, {
+           timeout,
+           waitUntil: "networkidle",
+       });
+   
+       // Check for CAPTCHA on initial load
+       const currentUrl = page.url();
+       if (this.detectCaptcha(currentUrl) || (response !== null && this.detectCaptcha(response.url()))) {
+           throw new Error("CAPTCHA_DETECTED_ON_LOAD");
+       }
+   }
+
+   /**
+    * Perform the actual search on the page
+    */
+   private async submitQuery(page: Page, query: string, timeout: number): Promise<void> {
+       logger.info(`[GoogleSearch] Entering search keyword: ${query}`);
+   
+       // Search input selectors in order of preference
+       const searchInputSelectors: string[] = [
+           "textarea[name='q']",
+           "input[name='q']", 
+           "textarea[title='Search']",
+           "input[title='Search']",
+           "textarea[aria-label='Search']",
+           "input[aria-label='Search']",
+           "textarea",
+       ];
+   
+       let searchInput = null;
+   
+       // Find search input field
+       for (const selector of searchInputSelectors) {
+           searchInput = await page.$(selector);
+           if (searchInput) {
+               logger.info(`[GoogleSearch] Found search box with selector: ${selector}`);
+               break;
+           }
+       }
+   
+       if (!searchInput) {
+           throw new Error("Could not find search box");
+       }
+   
+       // Perform search
+       const homeUrl = page.url();
+       await searchInput.click();
+       await page.keyboard.type(query, { delay: getRandomDelay(10, 30) });
+       await page.waitForTimeout(getRandomDelay(100, 300));
+       await page.keyboard.press("Enter");
+   
+       // The home page is already idle, so wait for the results page itself
+       logger.info("[GoogleSearch] Waiting for page to load...");
+       await page.waitForURL(url => url.toString() !== homeUrl, { timeout, waitUntil: "networkidle" });
+   
+       // Check for CAPTCHA after search
+       const searchUrl = page.url();
+       if (this.detectCaptcha(searchUrl)) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+   }
+
+   /**
+    * Map operators that have no query syntax onto Google's URL parameters
+    */
+   private buildUrlParams(operators: SearchOperators = {}, vertical: SearchVertical = 'web'): Record<string, string> {
+       const params: Record<string, string> = {};
+       
+       // Switch to the news / images / videos tab
+       const tbm = GOOGLE_VERTICAL_TBM[vertical];
+       if (tbm) {
+           params.tbm = tbm;
+       }
+       
+       if (operators.language) {
+           params.lr = `lang_${operators.language}`;
+       }
+       if (operators.region) {
+           params.cr = `country${operators.region.toUpperCase()}`;
+           params.gl = operators.region.toLowerCase();
+       }
+       if (operators.safeSearch === 'strict') {
+           params.safe = "active";
+       } else if (operators.safeSearch === 'off') {
+           params.safe = "off";
+       }
+       if (typeof operators.freshness === "string") {
+           params.tbs = `qdr:${operators.freshness.charAt(0)}`;
+       } else if (operators.freshness) {
+           // Custom range; Google wants M/D/YYYY
+           const toGoogleDate = (iso: string) => {
+               const [year, month, day] = iso.split("-").map(Number);
+               return `${month}/${day}/${year}`;
+           };
+           const { after, before } = operators.freshness;
+           params.tbs = ["cdr:1", after ? `cd_min:${toGoogleDate(after)}` : "", before ? `cd_max:${toGoogleDate(before)}` : ""]
+               .filter(Boolean)
+               .join(",");
+       }
+       
+       return params;
+   }
+
+   /**
+    * Open Google Scholar results directly; it has no search-box warm-up page of its own
+    */
+   private async navigateToScholar(page: Page, query: string, context: ProviderSearchContext): Promise<void> {
+       const operators = context.operators ?? {};
+       const url = new URL(GOOGLE_SCHOLAR_URL);
+       url.searchParams.set("q", buildQueryString(query, { ...operators, dateRange: undefined }));
+       url.searchParams.set("hl", (operators.language ?? context.locale.split(/[-_]/)[0]).toLowerCase());
+       
+       // Scholar filters by publication year only
+       const range = typeof operators.freshness === "object" ? operators.freshness : operators.dateRange;
+       if (typeof operators.freshness === "string") {
+           url.searchParams.set("as_ylo", String(new Date().getUTCFullYear() - (operators.freshness === 'year' ? 1 : 0)));
+       } else if (range) {
+           if (range.after) {
+               url.searchParams.set("as_ylo", range.after.slice(0, 4));
+           }
+           if (range.before) {
+               url.searchParams.set("as_yhi", range.before.slice(0, 4));
+           }
+       }
+       
+       logger.info(`[GoogleSearch] Visiting Google Scholar for: ${query}`);
+       const response = await page.goto(url.toString(), {
+           timeout: context.timeout,
+           waitUntil: "domcontentloaded",
+       });
+       
+       if (this.detectCaptcha(page.url()) || (response !== null && this.detectCaptcha(response.url()))) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+   }
+
+   /**
+    * Reload the results page with extra URL parameters, since the search box only takes the query
+    */
+   private async applyUrlParams(page: Page, params: Record<string, string>, timeout: number): Promise<void> {
+       if (Object.keys(params).length === 0) {
+           return;
+       }
+       
+       const url = new URL(page.url());
+       Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+       logger.info(`[GoogleSearch] Applying search parameters: ${JSON.stringify(params)}`);
+       await page.goto(url.toString(), { timeout, waitUntil: "networkidle" });
+       
+       if (this.detectCaptcha(page.url())) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+   }
+
+   /**
+    * Wait for search results to appear on page
+    */
+   async waitForResults(page: Page, timeout: number, vertical: SearchVertical = 'web'): Promise<void> {
+       logger.info(`[GoogleSearch] Waiting for search results to load... URL: ${page.url()}`);
+   
+       const searchResultSelectors: string[] = vertical !== 'web' ? GOOGLE_VERTICAL_RESULT_SELECTORS[vertical] : [
+           "#search",
+           "#rso", 
+           ".g",
+           "[data-sokoban-container]",
+           "div[role='main']",
+       ];
+   
+       let resultsFound = false;
+   
+       for (const selector of searchResultSelectors) {
+           try {
+               await page.waitForSelector(selector, { timeout: timeout / 2 });
+               logger.info(`[GoogleSearch] Found search results with selector: ${selector}`);
+               resultsFound = true;
+               break;
+           } catch (e) {
+               continue;
+           }
+       }
+   
+       if (!resultsFound) {
+           const currentUrl = page.url();
+           // Scholar renders its challenge in-page
+           if (this.detectCaptcha(currentUrl) || (vertical === 'scholar' && await page.$("#gs_captcha_ccl"))) {
+               throw new Error("CAPTCHA_DETECTED_DURING_RESULTS");
+           } else {
+               throw new Error("Could not find search result elements");
+           }
+       }
+   
+       await page.waitForTimeout(getRandomDelay(200, 500));
+   }
+
+   /**
+    * Extract search results from page using multiple selector strategies
+    */
+   async extractResults(page: Page, limit: number, vertical: SearchVertical = 'web'): Promise<SearchResult[]> {
+       if (vertical !== 'web') {
+           return extractGoogleVerticalResults(page, vertical, limit);
+       }
+       
+       logger.info("[GoogleSearch] Extracting search results...");
+   
+       // Primary selector strategies
+       const resultSelectors: ResultSelector[] = [
+           { container: "#search .g", title: "h3", snippet: ".VwiC3b" },
+           { container: "#rso .g", title: "h3", snippet: ".VwiC3b" },
+           { container: ".g", title: "h3", snippet: ".VwiC3b" },
+           { container: "[data-sokoban-container] > div", title: "h3", snippet: "[data-sncf='1']" },
+           { container: "div[role='main'] .g", title: "h3", snippet: "[data-sncf='1']" },
+       ];
+   
+       let results: SearchResult[] = [];
+   
+       // Try each selector strategy
+       for (const selector of resultSelectors) {
+           try {
+               results = await page.$$eval(selector.container, (elements: Element[], params: any) => {
+                   return elements
+                       .slice(0, params.maxResults)
+                       .map((el: Element) => {
+                           const titleElement = el.querySelector(params.titleSelector);
+                           const linkElement = el.querySelector("a");
+                           const snippetElement = el.querySelector(params.snippetSelector);
+                        
+                           // Enhanced snippet extraction for code content
+                           let snippet = "";
+                           if (snippetElement) {
+                               snippet = snippetElement.textContent?.trim() || "";
+                           }                 
+                        
+                           // Expand snippet length for technical content if too short
+                           if (snippet.length < 100) {
+                               const parentText = el.textContent?.trim() || "";
+                               if (parentText.length > snippet.length && parentText.length < 600) {
+                                   snippet = parentText.substring(0, 400);
+                               }
+                           }
+                        
+                           return {
+                               title: titleElement ? titleElement.textContent?.trim() || "" : "",
+                               link: linkElement && linkElement instanceof HTMLAnchorElement 
+                                   ? linkElement.href 
+                                   : "",
+                               snippet: snippet,
+                           };
+                       })
+                       .filter((item: SearchResult) => item.title && item.link);
+               }, {
+                   maxResults: limit,
+                   titleSelector: selector.title,
+                   snippetSelector: selector.snippet,
+               });
+            
+               if (results.length > 0) {
+                   logger.info(`[GoogleSearch] Successfully extracted ${results.length} results with selector: ${selector.container}`);
+                   break;
+               }
+           } catch (e) {
+               continue;
+           }
+       }
+   
+       // Fallback method if primary selectors fail
+       if (results.length === 0) {
+           logger.warn("[GoogleSearch] Using fallback method to extract search results...");
+        
+           try {
+               results = await page.$$eval("a[href^='http']", (elements: Element[], maxResults: number) => {
+                   return elements
+                       .filter((el: Element) => {
+                           const href = el.getAttribute("href") || "";
+                           return (
+                               href.startsWith("http") &&
+                               !href.includes("google.com/search") &&
+                               !href.includes("google.com/url?") &&
+                               !href.includes("accounts.google") &&
+                               !href.includes("support.google") &&
+                               !href.includes("policies.google")
+                           );
+                       })
+                       .slice(0, maxResults)
+                       .map((el: Element) => {
+                           const title = el.textContent?.trim() || "";
+                           const link = el instanceof HTMLAnchorElement 
+                               ? el.href 
+                               : el.getAttribute("href") || "";
+                        
+                           // Try to get surrounding text as snippet
+                           let snippet = "";
+                           let parent = el.parentElement;
+                           for (let i = 0; i < 3 && parent; i++) {
+                               const text = parent.textContent?.trim() || "";
+                               if (text.length > snippet.length && text !== title && text.length < 500) {
+                                   snippet = text;
+                               }
+                               parent = parent.parentElement;
+                           }
+                        
+                           return { title, link, snippet };
+                       })
+                       .filter((item: SearchResult) => item.title && item.link);
+               }, limit);
+           } catch (e) {
+               logger.error(`[GoogleSearch] Fallback extraction failed: ${e instanceof Error ? e.message : String(e)}`);
+           }
+       }
+   
+       return results;
+   }
+
+   /**
+    * Follow the "Next" link, falling back to a start= offset when the pager isn't rendered
+    */
+   async goToNextPage(page: Page, pageIndex: number, timeout: number, vertical: SearchVertical = 'web'): Promise<boolean> {
+       // Image results load by infinite scroll rather than pages
+       if (vertical === 'images') {
+           return false;
+       }
+       
+       const nextSelector = vertical === 'scholar' ? ".gs_ico_nav_next" : "a#pnnext";
+       const nextHref = await page.$eval(nextSelector, (el: Element) => (el.closest("a") as HTMLAnchorElement | null)?.href || null).catch(() => null);
+       
+       let nextUrl: string;
+       if (nextHref) {
+           nextUrl = nextHref;
+       } else {
+           const url = new URL(page.url());
+           if (!url.searchParams.has("q")) {
+               return false;
+           }
+           url.searchParams.set("start", String(pageIndex * RESULTS_PER_PAGE));
+           nextUrl = url.toString();
+       }
+       
+       logger.info(`[GoogleSearch] Loading results page ${pageIndex + 1}`);
+       await page.waitForTimeout(getRandomDelay(500, 1500));
+       await page.goto(nextUrl, { timeout, waitUntil: "networkidle" });
+       
+       if (this.detectCaptcha(page.url())) {
+           throw new Error("CAPTCHA_DETECTED_AFTER_SEARCH");
+       }
+       return true;
+   }
+
+   /**
+    * Extract featured snippet, People also ask, knowledge panel, top stories, videos and related searches
+    */
+   async extractSerpFeatures(page: Page): Promise<SerpFeatures> {
+       return extractGoogleSerpFeatures(page);
+   }
+}
@@ -0,0 +1,179 @@
+// src/services/providers/googleSerpFeatures.ts
+import type { Page } from "playwright";
+import { logger } from "../../utils/logger.js";
+import type {
+   SerpFeatures,
+   FeaturedSnippet,
+   PeopleAlsoAskItem,
+   KnowledgePanel,
+   TopStory,
+   VideoResult,
+} from "./types.js";
+
+// Each extractor runs inside the page and must be self-contained.
+// Google rotates class names regularly, so every extractor tries several
+// selectors and falls back to structural hints (data-attrid, roles, headings).
+
+function extractFeaturedSnippet(): FeaturedSnippet | undefined {
+   const block = document.querySelector(".xpdopen .c2xzTb, .c2xzTb, [data-attrid='wa:/description'], .V3FYCf");
+   if (!block) {
+       return undefined;
+   }
+
+   const textElement = block.querySelector(".hgKElc, .IZ6rdc, [data-attrid='wa:/description'] span, .LGOjhe") || block;
+   const text = textElement.textContent?.trim().replace(/\s+/g, " ") || "";
+   if (!text) {
+       return undefined;
+   }
+
+   const anchor = block.querySelector(".yuRUbf a, a[href^='http']") as HTMLAnchorElement | null;
+   return {
+       text,
+       title: block.querySelector("h3")?.textContent?.trim() || undefined,
+       link: anchor?.href || undefined,
+       source: block.querySelector("cite")?.textContent?.trim() || undefined,
+   };
+}
+
+function extractPeopleAlsoAsk(): PeopleAlsoAskItem[] {
+   const items: PeopleAlsoAskItem[] = [];
+   const seen = new Set<string>();
+
+   document.querySelectorAll(".related-question-pair, [jsname='Cpkphb'], [data-q]").forEach(el => {
+       const question = (el.getAttribute("data-q")
+           || el.querySelector("[role='button'] span, .CSkcDe, .JlqpRe")?.textContent
+           || "").trim();
+       if (!question || seen.has(question)) {
+           return;
+       }
+       seen.add(question);
+
+       // Answers are pre-rendered (collapsed) for most questions
+       const answer = el.querySelector(".hgKElc, .wDYxhc, .bCOlv")?.textContent?.trim().replace(/\s+/g, " ");
+       const anchor = el.querySelector(".yuRUbf a, a[href^='http']") as HTMLAnchorElement | null;
+       items.push({
+           question,
+           answer: answer || undefined,
+           link: anchor?.href || undefined,
+       });
+   });
+
+   return items;
+}
+
+function extractKnowledgePanel(): KnowledgePanel | undefined {
+   const panel = document.querySelector(".kp-wholepage, #rhs .kp-blk, #rhs [data-attrid='title']")?.closest(".kp-wholepage, #rhs") || null;
+   if (!panel) {
+       return undefined;
+   }
+
+   const title = panel.querySelector("[data-attrid='title'], h2[data-attrid], .qrShPb")?.textContent?.trim() || "";
+   if (!title) {
+       return undefined;
+   }
+
+   const facts: { label: string; value: string }[] = [];
+   panel.querySelectorAll(".rVusze, [data-attrid^='kc:'], [data-attrid^='ss:']").forEach(row => {
+       const label = row.querySelector(".w8qArf, .GRkHZd")?.textContent?.replace(/[:\s]+$/, "").trim() || "";
+       const value = row.querySelector(".LrzXr, .kno-fv")?.textContent?.trim().replace(/\s+/g, " ") || "";
+       if (label && value && !facts.some(fact => fact.label === label)) {
+           facts.push({ label, value });
+       }
+   });
+
+   const descriptionElement = panel.querySelector(".kno-rdesc span, [data-attrid='description'] span");
+   const sourceAnchor = panel.querySelector(".kno-rdesc a, [data-attrid='description'] a") as HTMLAnchorElement | null;
+   return {
+       title,
+       subtitle: panel.querySelector("[data-attrid='subtitle'], .wwUB2c")?.textContent?.trim() || undefined,
+       description: descriptionElement?.textContent?.trim() || undefined,
+       source: sourceAnchor?.href || undefined,
+       facts,
+   };
+}
+
+function extractTopStories(): TopStory[] {
+   const stories: TopStory[] = [];
+   const sections = Array.from(document.querySelectorAll("g-section-with-header, [data-news-cluster-id], div[role='region']"))
+       .filter(section => /top stories|news/i.test(section.querySelector("[role='heading'], h3, h2")?.textContent || "")
+           || section.hasAttribute("data-news-cluster-id"));
+
+   sections.forEach(section => {
+       section.querySelectorAll("a.WlydOe, a[href^='http']").forEach(el => {
+           const anchor = el as HTMLAnchorElement;
+           const title = anchor.querySelector("[role='heading'], .mCBkyc, .n0jPhd")?.textContent?.trim().replace(/\s+/g, " ") || "";
+           if (!title || stories.some(story => story.link === anchor.href)) {
+               return;
+           }
+           stories.push({
+               title,
+               link: anchor.href,
+               source: anchor.querySelector(".MgUUmf, .CEMjEf, .NUnG9d")?.textContent?.trim() || undefined,
+               published: anchor.querySelector(".OSrXXb, time, .ZE0LJd")?.textContent?.trim() || undefined,
+           });
+       });
+   });
+
+   return stories;
+}
+
+function extractVideos(): VideoResult[] {
+   const videos: VideoResult[] = [];
+
+   document.querySelectorAll("video-voyager, .RzdJxc, [data-vid]").forEach(el => {
+       const anchor = el.querySelector("a[href^='http']") as HTMLAnchorElement | null;
+       const title = el.querySelector("[role='heading'], h3, .fc9yUc")?.textContent?.trim().replace(/\s+/g, " ") || "";
+       if (!anchor || !title || videos.some(video => video.link === anchor.href)) {
+           return;
+       }
+
+       const durationLabel = el.querySelector(".J1mWY, .vrCBgb, [aria-label*='minute'], [aria-label*='second']");
+       videos.push({
+           title,
+           link: anchor.href,
+           channel: el.querySelector(".Zg1NU, .pcJO7e cite, .gqF9jc span")?.textContent?.trim() || undefined,
+           duration: durationLabel?.textContent?.trim() || durationLabel?.getAttribute("aria-label") || undefined,
+           published: el.querySelector(".fG8Fp, .hMJ0yc, .P7xzyf span")?.textContent?.trim() || undefined,
+       });
+   });
+
+   return videos;
+}
+
+function extractRelatedSearches(): string[] {
+   const terms = Array.from(document.querySelectorAll("#bres a, .k8XOCe, .s75CSd, a.ngTNl"))
+       .map(el => el.textContent?.trim().replace(/\s+/g, " ") || "")
+       .filter(term => term.length > 0);
+   return Array.from(new Set(terms));
+}
+
+/**
+ * Run an in-page extractor, logging and swallowing failures so one broken
+ * section never loses the others
+ */
+async function runExtractor<T>(page: Page, name: string, extractor: () => T, fallback: T): Promise<T> {
+   try {
+       return (await page.evaluate(extractor)) ?? fallback;
+   } catch (e) {
+       logger.warn(`[GoogleSearch] SERP ${name} extraction failed: ${e instanceof Error ? e.message : String(e)}`);
+       return fallback;
+   }
+}
+
+/**
+ * Extract featured snippet, People also ask, knowledge panel, top stories,
+ * videos and related searches from a Google results page
+ */
+export async function extractGoogleSerpFeatures(page: Page): Promise<SerpFeatures> {
+   const features: SerpFeatures = {
+       featuredSnippet: await runExtractor(page, "featured snippet", extractFeaturedSnippet, undefined),
+       peopleAlsoAsk: await runExtractor(page, "people also ask", extractPeopleAlsoAsk, []),
+       knowledgePanel: await runExtractor(page, "knowledge panel", extractKnowledgePanel, undefined),
+       topStories: await runExtractor(page, "top stories", extractTopStories, []),
+       videos: await runExtractor(page, "videos", extractVideos, []),
+       relatedSearches: await runExtractor(page, "related searches", extractRelatedSearches, []),
+   };
+
+   logger.info(`[GoogleSearch] SERP features: featuredSnippet=${!!features.featuredSnippet}, peopleAlsoAsk=${features.peopleAlsoAsk.length}, knowledgePanel=${!!features.knowledgePanel}, topStories=${features.topStories.length}, videos=${features.videos.length}, relatedSearches=${features.relatedSearches.length}`);
+   return features;
+}
@@ -0,0 +1,270 @@
+// src/services/providers/googleVerticals.ts
+import type { Page } from "playwright";
+import { logger } from "../../utils/logger.js";
+import { parseSerpDate } from "../../utils/dates.js";
+import { parseDurationSeconds } from "../../quality/verticals/videos.js";
+import type { SearchResult, SearchVertical } from "../../quality/types.js";
+
+// Google "tbm" parameter per results tab; Scholar lives on its own host
+export const GOOGLE_VERTICAL_TBM: Partial<Record<SearchVertical, string>> = {
+   news: "nws",
+   images: "isch",
+   videos: "vid",
+};
+
+export const GOOGLE_SCHOLAR_URL = "https://scholar.google.com/scholar";
+
+// Selectors that indicate results have rendered, per vertical
+export const GOOGLE_VERTICAL_RESULT_SELECTORS: Record<Exclude<SearchVertical, 'web'>, string[]> = {
+   news: ["div.SoaBEf", "#rso a.WlydOe", "#rso"],
+   images: ["div[data-ri]", "div[jsname='dTDiAc']", "#islrg", "#rso"],
+   videos: ["video-voyager", "#rso .g", "#rso"],
+   scholar: ["#gs_res_ccl .gs_r", "#gs_res_ccl"],
+};
+
+// Raw fields read inside the page; dates and durations are normalized in Node
+interface RawVerticalResult {
+   title: string;
+   link: string;
+   snippet: string;
+   publisher?: string;
+   dateLabel?: string;
+   imageUrl?: string;
+   thumbnailUrl?: string;
+   width?: number;
+   height?: number;
+   duration?: string;
+   channel?: string;
+   authorsLine?: string;
+   citations?: number;
+   pdfLink?: string;
+}
+
+function extractNews(maxResults: number): RawVerticalResult[] {
+   const items: RawVerticalResult[] = [];
+   const containers = Array.from(document.querySelectorAll("div.SoaBEf, #rso a.WlydOe"));
+
+   for (const el of containers) {
+       const anchor = (el.matches("a") ? el : el.querySelector("a[href^='http']")) as HTMLAnchorElement | null;
+       const title = el.querySelector("[role='heading'], .n0jPhd, .mCBkyc")?.textContent?.trim().replace(/\s+/g, " ") || "";
+       if (!anchor || !title || items.some(item => item.link === anchor.href)) {
+           continue;
+       }
+       items.push({
+           title,
+           link: anchor.href,
+           snippet: el.querySelector(".GI74Re, .Y3v8qd")?.textContent?.trim().replace(/\s+/g, " ") || "",
+           publisher: el.querySelector(".MgUUmf span, .NUnG9d span, .CEMjEf span")?.textContent?.trim() || undefined,
+           dateLabel: el.querySelector(".OSrXXb span, .LfVVr, .rbYSKb span, .ZE0LJd span")?.textContent?.trim() || undefined,
+       });
+       if (items.length >= maxResults) {
+           break;
+       }
+   }
+
+   return items;
+}
+
+function extractImages(maxResults: number): RawVerticalResult[] {
+   const items: RawVerticalResult[] = [];
+   const containers = Array.from(document.querySelectorAll("div[data-ri], div[jsname='dTDiAc'], div.eA0Zlc"));
+
+   for (const el of containers) {
+       // The outbound anchor points at the page hosting the image
+       const sourceAnchor = Array.from(el.querySelectorAll("a[href^='http']"))
+           .find(a => !/\.google\./.test(new URL((a as HTMLAnchorElement).href).hostname)) as HTMLAnchorElement | undefined;
+       const img = el.querySelector("img");
+       const title = (el.querySelector(".toI8Rb, .Q6A6Dc, h3")?.textContent || img?.getAttribute("alt") || "").trim();
+       if (!sourceAnchor || !title || items.some(item => item.link === sourceAnchor.href)) {
+           continue;
+       }
+
+       // Full-size URL and dimensions only appear on some layouts (imgres links, data-ow/oh attributes)
+       let imageUrl: string | undefined;
+       const imgresAnchor = el.querySelector("a[href*='imgurl=']") as HTMLAnchorElement | null;
+       if (imgresAnchor) {
+           imageUrl = new URL(imgresAnchor.href).searchParams.get("imgurl") || undefined;
+       }
+       const width = parseInt(el.getAttribute("data-ow") || "", 10);
+       const height = parseInt(el.getAttribute("data-oh") || "", 10);
+       const thumbnail = img?.getAttribute("data-src") || img?.getAttribute("src") || "";
+
+       const publisher = el.querySelector(".LAA3yd, .ptes9b, .fxgdke")?.textContent?.trim() || undefined;
+       items.push({
+           title,
+           link: sourceAnchor.href,
+           snippet: [title, publisher].filter(Boolean).join(" — "),
+           publisher,
+           imageUrl,
+           thumbnailUrl: thumbnail.startsWith("http") ? thumbnail : undefined,
+           width: Number.isFinite(width) ? width : undefined,
+           height: Number.isFinite(height) ? height : undefined,
+       });
+       if (items.length >= maxResults) {
+           break;
+       }
+   }
+
+   return items;
+}
+
+function extractVideos(maxResults: number): RawVerticalResult[] {
+   const items: RawVerticalResult[] = [];
+   const containers = Array.from(document.querySelectorAll("video-voyager, #rso .g, #rso div[data-vid]"));
+
+   for (const el of containers) {
+       const anchor = el.querySelector("a[href^='http']") as HTMLAnchorElement | null;
+       const title = el.querySelector("h3, [role='heading']")?.textContent?.trim().replace(/\s+/g, " ") || "";
+       if (!anchor || !title || items.some(item => item.link === anchor.href)) {
+           continue;
+       }
+
+       // "YouTube · Channel name · 3 days ago" style attribution line
+       const attribution = Array.from(el.querySelectorAll(".gqF9jc span, .pcJO7e span, .Zg1NU"))
+           .map(span => span.textContent?.trim() || "")
+           .filter(text => text && text !== "·");
+       const durationElement = el.querySelector(".J1mWY, .vrCBgb, .c8rnLc span, [aria-label*='minute']");
+
+       items.push({
+           title,
+           link: anchor.href,
+           snippet: el.querySelector(".VwiC3b, .ITZIwc, .Uroaid")?.textContent?.trim().replace(/\s+/g, " ") || "",
+           duration: durationElement?.textContent?.trim() || undefined,
+           channel: attribution[1] || undefined,
+           publisher: attribution[0] || undefined,
+           dateLabel: attribution[2] || el.querySelector(".fG8Fp, .P7xzyf span")?.textContent?.trim() || undefined,
+       });
+       if (items.length >= maxResults) {
+           break;
+       }
+   }
+
+   return items;
+}
+
+function extractScholar(maxResults: number): RawVerticalResult[] {
+   const items: RawVerticalResult[] = [];
+
+   for (const el of Array.from(document.querySelectorAll("#gs_res_ccl .gs_r.gs_or, #gs_res_ccl .gs_ri"))) {
+       const entry = el.querySelector(".gs_ri") || el;
+       const anchor = entry.querySelector(".gs_rt a") as HTMLAnchorElement | null;
+       const title = entry.querySelector(".gs_rt")?.textContent?.trim().replace(/\s+/g, " ") || "";
+       const link = anchor?.href || "";
+       if (!title || !link || items.some(item => item.link === link)) {
+           continue;
+       }
+
+       const citedBy = Array.from(entry.querySelectorAll(".gs_fl a"))
+           .map(a => a.textContent || "")
+           .find(text => /\d/.test(text) && /cited/i.test(text));
+       const pdfAnchor = el.querySelector(".gs_ggs a, .gs_or_ggsm a") as HTMLAnchorElement | null;
+
+       items.push({
+           title,
+           link,
+           snippet: entry.querySelector(".gs_rs")?.textContent?.trim().replace(/\s+/g, " ") || "",
+           authorsLine: entry.querySelector(".gs_a")?.textContent?.trim().replace(/\s+/g, " ") || undefined,
+           citations: citedBy ? parseInt(citedBy.replace(/\D/g, ""), 10) : undefined,
+           pdfLink: pdfAnchor?.href || undefined,
+       });
+       if (items.length >= maxResults) {
+           break;
+       }
+   }
+
+   return items;
+}
+
+/**
+ * Split Scholar's "A Author, B Author - Venue, 2021 - publisher.com" line
+ */
+function parseScholarAuthors(line: string): { authors: string[]; venue?: string; year?: number } {
+   const [authorPart = "", venuePart = ""] = line.split(/\s+-\s+/);
+   const authors = authorPart.split(",").map(author => author.replace(/…|\.\.\./g, "").trim()).filter(Boolean);
+   const yearMatch = venuePart.match(/\b(19|20)\d{2}\b/);
+   const venue = venuePart.replace(/,?\s*\b(19|20)\d{2}\b/, "").trim();
+   return {
+       authors,
+       venue: venue || undefined,
+       year: yearMatch ? parseInt(yearMatch[0], 10) : undefined,
+   };
+}
+
+/**
+ * Turn raw in-page fields into typed results for the vertical
+ */
+function toSearchResult(raw: RawVerticalResult, vertical: Exclude<SearchVertical, 'web'>, now: Date): SearchResult {
+   const result: SearchResult = {
+       title: raw.title,
+       link: raw.link,
+       snippet: raw.snippet,
+       vertical,
+   };
+   const lastUpdated = raw.dateLabel ? parseSerpDate(raw.dateLabel, now) : undefined;
+
+   switch (vertical) {
+       case 'news':
+           result.news = { publisher: raw.publisher, dateLabel: raw.dateLabel };
+           break;
+       case 'images':
+           result.image = {
+               imageUrl: raw.imageUrl,
+               thumbnailUrl: raw.thumbnailUrl,
+               width: raw.width,
+               height: raw.height,
+               sourceName: raw.publisher,
+           };
+           break;
+       case 'videos':
+           result.video = {
+               duration: raw.duration,
+               durationSeconds: raw.duration ? parseDurationSeconds(raw.duration) : undefined,
+               channel: raw.channel,
+               platform: raw.publisher,
+               dateLabel: raw.dateLabel,
+           };
+           break;
+       case 'scholar': {
+           const { authors, venue, year } = parseScholarAuthors(raw.authorsLine || "");
+           result.scholar = { authors, venue, year, citations: raw.citations, pdfLink: raw.pdfLink };
+           if (year && !lastUpdated) {
+               result.lastUpdated = new Date(Date.UTC(year, 0, 1)).toISOString();
+           }
+           break;
+       }
+   }
+
+   if (lastUpdated) {
+       result.lastUpdated = lastUpdated;
+   }
+   return result;
+}
+
+const EXTRACTORS: Record<Exclude<SearchVertical, 'web'>, (maxResults: number) => RawVerticalResult[]> = {
+   news: extractNews,
+   images: extractImages,
+   videos: extractVideos,
+   scholar: extractScholar,
+};
+
+/**
+ * Extract results from a Google news, images, videos or Scholar results page
+ */
+export async function extractGoogleVerticalResults(
+   page: Page,
+   vertical: Exclude<SearchVertical, 'web'>,
+   limit: number
+): Promise<SearchResult[]> {
+   logger.info(`[GoogleSearch] Extracting ${vertical} results...`);
+
+   try {
+       const raw = await page.evaluate(EXTRACTORS[vertical], limit);
+       const now = new Date();
+       const results = raw.map(item => toSearchResult(item, vertical, now));
+       logger.info(`[GoogleSearch] Extracted ${results.length} ${vertical} results`);
+       return results;
+   } catch (e) {
+       logger.error(`[GoogleSearch] ${vertical} extraction failed: ${e instanceof Error ? e.message : String(e)}`);
+       return [];
+   }
+}
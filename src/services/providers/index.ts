@@ -0,0 +1,48 @@
+// src/services/providers/index.ts
+import type { SearchProvider, SearchProviderName, SearchVertical } from "./types.js";
+import { GoogleSearchProvider } from "./google.js";
+import { DuckDuckGoSearchProvider } from "./duckduckgo.js";
+import { BingSearchProvider } from "./bing.js";
+
+export const SEARCH_PROVIDERS: SearchProviderName[] = ['google', 'duckduckgo', 'bing'];
+export const SEARCH_VERTICALS: SearchVertical[] = ['web', 'news', 'images', 'videos', 'scholar'];
+
+const providers: Record<SearchProviderName, SearchProvider> = {
+   google: new GoogleSearchProvider(),
+   duckduckgo: new DuckDuckGoSearchProvider(),
+   bing: new BingSearchProvider(),
+};
+
+/**
+ * Look up a search provider by name (defaults to Google)
+ */
+export function getSearchProvider(name: SearchProviderName = 'google'): SearchProvider {
+   const provider = providers[name];
+   if (!provider) {
+      throw new Error(`Unknown search provider: ${name}`);
+   }
+   return provider;
+}
+
+export type {
+   SearchProvider,
+   SearchProviderName,
+   SearchVertical,
+   ProviderSearchContext,
+   SavedState,
+   HostMachineConfig,
+   SerpFeatures,
+   SearchOperators,
+   SafeSearchLevel,
+   Freshness,
+   FreshnessPeriod,
+   FeaturedSnippet,
+   PeopleAlsoAskItem,
+   KnowledgePanel,
+   TopStory,
+   VideoResult,
+} from "./types.js";
+export { buildQueryString, describeOperators, SAFE_SEARCH_LEVELS, FRESHNESS_PERIODS } from "./queryBuilder.js";
+export { GoogleSearchProvider } from "./google.js";
+export { DuckDuckGoSearchProvider } from "./duckduckgo.js";
+export { BingSearchProvider } from "./bing.js";
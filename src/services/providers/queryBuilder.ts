@@ -0,0 +1,107 @@
+// src/services/providers/queryBuilder.ts
+import type { SearchOperators, SafeSearchLevel, FreshnessPeriod } from "./types.js";
+
+export const SAFE_SEARCH_LEVELS: SafeSearchLevel[] = ['off', 'moderate', 'strict'];
+export const FRESHNESS_PERIODS: FreshnessPeriod[] = ['day', 'week', 'month', 'year'];
+
+export interface QueryBuildOptions {
+   // Whether the engine understands after:/before: in the query string
+   dateOperators?: boolean;
+   // Whether the engine understands language: in the query string
+   languageOperator?: boolean;
+}
+
+/**
+ * Drop the quotes inside a phrase, since engines have no way to escape them
+ */
+function unquote(phrase: string): string {
+   return phrase.replace(/"/g, "").trim();
+}
+
+/**
+ * Quote a phrase, dropping any quotes inside it
+ */
+function quote(phrase: string): string {
+   return `"${unquote(phrase)}"`;
+}
+
+/**
+ * Exclude a term, quoting it when it contains whitespace
+ */
+function exclude(term: string): string {
+   const cleaned = unquote(term).replace(/^-+/, "");
+   return /\s/.test(cleaned) ? `-${quote(cleaned)}` : `-${cleaned}`;
+}
+
+/**
+ * Compile structured operators into a query string understood by Google, Bing and DuckDuckGo.
+ *
+ * The order is fixed (free text, phrases, sites, file type, dates, exclusions) so the
+ * same operators always produce the same string, which keeps cache keys stable.
+ */
+export function buildQueryString(query: string, operators: SearchOperators = {}, options: QueryBuildOptions = {}): string {
+   const parts: string[] = [];
+
+   if (query.trim()) {
+       parts.push(query.trim());
+   }
+
+   operators.exactPhrases?.filter(phrase => unquote(phrase)).forEach(phrase => parts.push(quote(phrase)));
+
+   const sites = operators.sites ?? [];
+   if (sites.length === 1) {
+       parts.push(`site:${sites[0]}`);
+   } else if (sites.length > 1) {
+       parts.push(`(${sites.map(site => `site:${site}`).join(" OR ")})`);
+   }
+
+   if (operators.fileType) {
+       parts.push(`filetype:${operators.fileType}`);
+   }
+
+   if (options.dateOperators && operators.dateRange) {
+       if (operators.dateRange.after) {
+           parts.push(`after:${operators.dateRange.after}`);
+       }
+       if (operators.dateRange.before) {
+           parts.push(`before:${operators.dateRange.before}`);
+       }
+   }
+
+   if (options.languageOperator && operators.language) {
+       parts.push(`language:${operators.language}`);
+   }
+
+   operators.excludeSites?.forEach(site => parts.push(`-site:${site}`));
+   operators.excludeTerms?.filter(term => unquote(term).replace(/^-+/, "")).forEach(term => parts.push(exclude(term)));
+
+   return parts.join(" ");
+}
+
+/**
+ * Stable description of the operators that change what an engine returns, for cache keys
+ */
+export function describeOperators(operators?: SearchOperators): string {
+   if (!operators) {
+       return "";
+   }
+
+   const described = buildQueryString("", operators, { dateOperators: true, languageOperator: true });
+   const freshness = typeof operators.freshness === "object"
+       ? `${operators.freshness.after ?? ""}..${operators.freshness.before ?? ""}`
+       : operators.freshness;
+   const settings = [
+       operators.region ? `region=${operators.region}` : "",
+       operators.safeSearch ? `safe=${operators.safeSearch}` : "",
+       freshness ? `freshness=${freshness}` : "",
+   ].filter(Boolean);
+
+   return [described, ...settings].filter(Boolean).join(" ");
+}
+
+/**
+ * Days since the Unix epoch for an ISO date, as used by Bing's custom date filter
+ */
+export function toEpochDays(isoDate: string): number {
+   return Math.floor(Date.parse(`${isoDate}T00:00:00Z`) / (24 * 60 * 60 * 1000));
+}
@@ -0,0 +1,142 @@
+// src/services/providers/types.ts
+import type { Page } from "playwright";
+import type { SearchResult, SearchVertical } from "../../quality/types.js";
+
+export type { SearchVertical };
+
+export type SearchProviderName = 'google' | 'duckduckgo' | 'bing';
+
+export interface HostMachineConfig {
+   deviceName: string;
+   locale: string;
+   timezoneId: string;
+   colorScheme: string;
+   reducedMotion: string;
+   forcedColors: string;
+}
+
+export interface SavedState {
+   fingerprint?: HostMachineConfig;
+   googleDomain?: string;
+}
+
+export type SafeSearchLevel = 'off' | 'moderate' | 'strict';
+export type FreshnessPeriod = 'day' | 'week' | 'month' | 'year';
+export type Freshness = FreshnessPeriod | { after?: string; before?: string };
+
+/**
+ * Structured search operators, compiled into the query string and engine URL parameters
+ */
+export interface SearchOperators {
+   sites?: string[]; // Only results from these hostnames
+   excludeSites?: string[];
+   exactPhrases?: string[];
+   excludeTerms?: string[];
+   fileType?: string;
+   dateRange?: { after?: string; before?: string }; // ISO dates (YYYY-MM-DD)
+   language?: string; // ISO 639-1 code of the result language
+   region?: string; // ISO 3166-1 alpha-2 country code
+   safeSearch?: SafeSearchLevel;
+   freshness?: Freshness; // Restrict to recently published pages, via the engine's time filter
+}
+
+export interface FeaturedSnippet {
+   text: string;
+   title?: string;
+   link?: string;
+   source?: string;
+}
+
+export interface PeopleAlsoAskItem {
+   question: string;
+   answer?: string;
+   link?: string;
+}
+
+export interface KnowledgePanel {
+   title: string;
+   subtitle?: string;
+   description?: string;
+   source?: string;
+   facts: { label: string; value: string }[];
+}
+
+export interface TopStory {
+   title: string;
+   link: string;
+   source?: string;
+   published?: string;
+}
+
+export interface VideoResult {
+   title: string;
+   link: string;
+   channel?: string;
+   duration?: string;
+   published?: string;
+}
+
+/**
+ * Structured SERP sections besides the organic results
+ */
+export interface SerpFeatures {
+   featuredSnippet?: FeaturedSnippet;
+   peopleAlsoAsk: PeopleAlsoAskItem[];
+   knowledgePanel?: KnowledgePanel;
+   topStories: TopStory[];
+   videos: VideoResult[];
+   relatedSearches: string[];
+}
+
+export interface ProviderSearchContext {
+   savedState: SavedState;
+   locale: string;
+   timeout: number;
+   operators?: SearchOperators;
+   vertical?: SearchVertical;
+}
+
+/**
+ * A Playwright-driven search engine backend.
+ *
+ * Providers only know how to reach a results page and read it; browser
+ * lifecycle, retries and quality filtering stay in the search service.
+ * Failures are reported with the same CAPTCHA_* error messages the service
+ * already understands.
+ */
+export interface SearchProvider {
+   readonly name: SearchProviderName;
+   readonly displayName: string;
+   readonly verticals: SearchVertical[]; // Result tabs the provider can search
+
+   /**
+    * Load the results page for a query, either through the engine's search box or a direct URL
+    */
+   search(page: Page, query: string, context: ProviderSearchContext): Promise<void>;
+
+   /**
+    * Wait until organic results are present on the page
+    */
+   waitForResults(page: Page, timeout: number, vertical?: SearchVertical): Promise<void>;
+
+   /**
+    * Extract up to `limit` organic results from the current page
+    */
+   extractResults(page: Page, limit: number, vertical?: SearchVertical): Promise<SearchResult[]>;
+
+   /**
+    * Load the next results page (pageIndex is zero-based, so 1 is the second page).
+    * Resolves false when the engine has no further results.
+    */
+   goToNextPage(page: Page, pageIndex: number, timeout: number, vertical?: SearchVertical): Promise<boolean>;
+
+   /**
+    * Check whether a URL belongs to the engine's CAPTCHA / bot challenge flow
+    */
+   detectCaptcha(url: string): boolean;
+
+   /**
+    * Extract non-organic SERP sections (featured snippet, People also ask, ...), if supported
+    */
+   extractSerpFeatures?(page: Page): Promise<SerpFeatures>;
+}
@@ -0,0 +1,242 @@
+// src/services/resultCache.ts
+import * as fs from "fs";
+import * as path from "path";
+import { logger } from "../utils/logger.js";
+import type { SearchResult, QueryDomain } from "../quality/types.js";
+import type { SearchProviderName, SerpFeatures, SearchOperators, SearchVertical } from "./providers/index.js";
+import { describeOperators } from "./providers/index.js";
+
+export type CacheMode = 'enabled' | 'disabled' | 'refresh' | 'only';
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+export interface CacheEntry {
+   key: string;
+   query: string;
+   provider: SearchProviderName;
+   locale: string;
+   limit: number;
+   results: SearchResult[]; // Raw extracted results, before quality scoring
+   serpFeatures?: SerpFeatures;
+   storedAt: number;
+}
+
+export interface CacheLookup {
+   entry: CacheEntry;
+   state: 'fresh' | 'stale' | 'expired';
+}
+
+// Search settings deciding how many results pages are collected, and so which raw results are stored
+export interface CollectionSettings {
+   maxPages?: number;
+   minQualityScore?: number;
+   enableQualityFiltering?: boolean;
+   domain?: QueryDomain;     // Forced quality domain; a detected one follows from the query
+}
+
+export interface CacheDefaults {
+   file: string;
+   ttl: number;
+   staleWhileRevalidate: number;
+}
+
+export const DEFAULT_CACHE_FILE = "./search-cache.jsonl";
+export const DEFAULT_CACHE_TTL = 60 * 60 * 1000; // 1 hour
+export const DEFAULT_STALE_WHILE_REVALIDATE = 24 * 60 * 60 * 1000; // 1 day
+
+// Used by searches that do not set their own; changed at startup from the command line
+export const cacheDefaults: CacheDefaults = {
+   file: DEFAULT_CACHE_FILE,
+   ttl: DEFAULT_CACHE_TTL,
+   staleWhileRevalidate: DEFAULT_STALE_WHILE_REVALIDATE,
+};
+
+// Entries older than this are dropped when the file is compacted
+const MAX_ENTRY_AGE = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Append-only JSONL cache of raw search results.
+ *
+ * Each line is one CacheEntry; the last line for a key wins. The file is
+ * rewritten without superseded or very old lines once it grows to twice
+ * the number of live entries.
+ */
+export class ResultCache {
+   private static instances = new Map<string, ResultCache>();
+
+   private entries: Map<string, CacheEntry> | null = null;
+   private lineCount = 0;
+   private revalidating = new Map<string, Promise<void>>(); // Background refreshes in flight, by key
+
+   constructor(private readonly filePath: string = DEFAULT_CACHE_FILE) {}
+
+   /**
+    * Get the shared cache instance for a file
+    */
+   static forFile(filePath: string = DEFAULT_CACHE_FILE): ResultCache {
+       const resolved = path.resolve(filePath);
+       let cache = ResultCache.instances.get(resolved);
+       if (!cache) {
+           cache = new ResultCache(resolved);
+           ResultCache.instances.set(resolved, cache);
+       }
+       return cache;
+   }
+
+   /**
+    * Build the cache key for a search
+    */
+   static key(
+       query: string,
+       locale: string,
+       limit: number,
+       provider: SearchProviderName,
+       operators?: SearchOperators,
+       vertical: SearchVertical = 'web',
+       collection: CollectionSettings = {}
+   ): string {
+       const normalizedQuery = query.toLowerCase().trim().replace(/\s+/g, " ");
+       // Web keys keep their original shape so existing cache files stay valid
+       const source = vertical === 'web' ? provider : `${provider}/${vertical}`;
+       const parts: (string | number)[] = [source, locale.toLowerCase(), limit, normalizedQuery];
+       const described = describeOperators(operators);
+       if (described) {
+           parts.push(described.toLowerCase());
+       }
+       const collected = describeCollection(collection);
+       if (collected) {
+           parts.push(collected);
+       }
+       return parts.join("|");
+   }
+
+   /**
+    * Look up an entry and classify its age against the TTL and revalidation window
+    */
+   get(
+       key: string,
+       ttl: number = DEFAULT_CACHE_TTL,
+       staleWhileRevalidate: number = DEFAULT_STALE_WHILE_REVALIDATE
+   ): CacheLookup | undefined {
+       const entry = this.load().get(key);
+       if (!entry) {
+           return undefined;
+       }
+
+       const age = Date.now() - entry.storedAt;
+       const state = age <= ttl ? 'fresh' : age <= ttl + staleWhileRevalidate ? 'stale' : 'expired';
+       return { entry, state };
+   }
+
+   /**
+    * Store raw results for a search
+    */
+   set(entry: CacheEntry): void {
+       const entries = this.load();
+       entries.set(entry.key, entry);
+
+       try {
+           const dir = path.dirname(this.filePath);
+           if (!fs.existsSync(dir)) {
+               fs.mkdirSync(dir, { recursive: true });
+           }
+           fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n", "utf8");
+           this.lineCount++;
+       } catch (error) {
+           logger.warn(`[ResultCache] Could not write cache file: ${error instanceof Error ? error.message : String(error)}`);
+           return;
+       }
+
+       if (this.lineCount > entries.size * 2) {
+           this.compact();
+       }
+   }
+
+   /**
+    * Refresh a stale entry in the background unless a refresh for the key is already running,
+    * so concurrent stale hits share one search. Failures are logged, never thrown.
+    */
+   revalidate(key: string, refresh: () => Promise<void>): Promise<void> {
+       const running = this.revalidating.get(key);
+       if (running) {
+           return running;
+       }
+
+       const revalidation = refresh()
+           .catch(error => logger.warn(`[ResultCache] Background refresh of "${key}" failed: ${error instanceof Error ? error.message : String(error)}`))
+           .finally(() => this.revalidating.delete(key));
+       this.revalidating.set(key, revalidation);
+       return revalidation;
+   }
+
+   private load(): Map<string, CacheEntry> {
+       if (this.entries) {
+           return this.entries;
+       }
+
+       this.entries = new Map();
+       this.lineCount = 0;
+       if (!fs.existsSync(this.filePath)) {
+           return this.entries;
+       }
+
+       try {
+           const lines = fs.readFileSync(this.filePath, "utf8").split("\n").filter(line => line.trim());
+           for (const line of lines) {
+               try {
+                   const entry = JSON.parse(line) as CacheEntry;
+                   this.entries.set(entry.key, entry);
+                   this.lineCount++;
+               } catch (e) {
+                   // Skip a partially written line
+                   continue;
+               }
+           }
+           logger.info(`[ResultCache] Loaded ${this.entries.size} cached searches from ${this.filePath}`);
+       } catch (error) {
+           logger.warn(`[ResultCache] Could not read cache file: ${error instanceof Error ? error.message : String(error)}`);
+       }
+
+       return this.entries;
+   }
+
+   private compact(): void {
+       const entries = this.load();
+       const cutoff = Date.now() - MAX_ENTRY_AGE;
+
+       for (const [key, entry] of entries) {
+           if (entry.storedAt < cutoff) {
+               entries.delete(key);
+           }
+       }
+
+       try {
+           const tempFile = `${this.filePath}.tmp`;
+           const content = Array.from(entries.values()).map(entry => JSON.stringify(entry) + "\n").join("");
+           fs.writeFileSync(tempFile, content, "utf8");
+           fs.renameSync(tempFile, this.filePath);
+           this.lineCount = entries.size;
+           logger.info(`[ResultCache] Compacted cache file to ${entries.size} entries`);
+       } catch (error) {
+           logger.warn(`[ResultCache] Could not compact cache file: ${error instanceof Error ? error.message : String(error)}`);
+       }
+   }
+}
+
+/**
+ * Collection settings that differ from the defaults, for the cache key
+ */
+function describeCollection(collection: CollectionSettings): string {
+   const parts: string[] = [];
+   if (collection.maxPages !== undefined) {
+       parts.push(`pages:${collection.maxPages}`);
+   }
+   if (collection.enableQualityFiltering === false) {
+       parts.push("unfiltered");
+   } else if (collection.minQualityScore !== undefined) {
+       parts.push(`min:${collection.minQualityScore}`);
+   }
+   if (collection.domain) {
+       parts.push(`domain:${collection.domain}`);
+   }
+   return parts.join(" ");
+}
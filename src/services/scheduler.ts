@@ -0,0 +1,261 @@
+// src/services/scheduler.ts
+import { logger } from "../utils/logger.js";
+import { getRandomDelay } from "../utils/delay.js";
+import type { SearchProviderName } from "./providers/index.js";
+
+export interface RateLimit {
+   burst: number;              // Searches that may start back to back after a quiet spell
+   interval: number;           // Milliseconds to earn one more search
+   jitter: [number, number];   // Random extra wait before each search, in ms
+}
+
+export interface SearchSchedulerOptions {
+   maxConcurrent?: number;     // Searches in flight at once across all tool calls
+   rateLimits?: Partial<Record<SearchProviderName, RateLimit>>;
+   random?: (min: number, max: number) => number; // Jitter source, replaceable for deterministic runs
+}
+
+export const DEFAULT_MAX_CONCURRENT_SEARCHES = 5;
+
+// Gives up a running search's slot while it waits on something other than the engine,
+// then queues for a token and a slot again before it goes on
+export type SchedulerPause = <R>(wait: () => Promise<R>) => Promise<R>;
+
+export const DEFAULT_RATE_LIMITS: Record<SearchProviderName, RateLimit> = {
+   google: { burst: 3, interval: 2000, jitter: [200, 800] },
+   duckduckgo: { burst: 3, interval: 1500, jitter: [200, 800] },
+   bing: { burst: 3, interval: 1500, jitter: [200, 800] },
+};
+
+/**
+* Wait for a while, or until the signal aborts
+*/
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+   return new Promise((resolve, reject) => {
+       if (signal?.aborted) {
+           reject(new Error("SEARCH_CANCELLED"));
+           return;
+       }
+       const onAbort = () => {
+           clearTimeout(timer);
+           reject(new Error("SEARCH_CANCELLED"));
+       };
+       const timer = setTimeout(() => {
+           signal?.removeEventListener("abort", onAbort);
+           resolve();
+       }, ms);
+       signal?.addEventListener("abort", onAbort, { once: true });
+   });
+}
+
+/**
+* Token bucket spacing out the searches sent to one engine. Takers are served in
+* arrival order; each then waits a random jitter so searches don't start in lockstep.
+*/
+export class TokenBucket {
+   private tokens: number;
+   private updatedAt = Date.now();
+   private turn: Promise<void> = Promise.resolve();
+
+   constructor(
+       private readonly limit: RateLimit,
+       private readonly random: (min: number, max: number) => number = getRandomDelay
+   ) {
+       this.tokens = limit.burst;
+   }
+
+   async take(signal?: AbortSignal): Promise<void> {
+       const taken = this.turn.then(() => this.waitForToken(signal));
+       // A cancelled taker must not hold up the ones behind it
+       this.turn = taken.catch(() => {});
+       await taken;
+
+       const [min, max] = this.limit.jitter;
+       if (max > 0) {
+           await sleep(this.random(min, max), signal);
+       }
+   }
+
+   available(): number {
+       this.refill();
+       return this.tokens;
+   }
+
+   private async waitForToken(signal?: AbortSignal): Promise<void> {
+       // Cancelled while queued behind other takers; leave the token for them
+       if (signal?.aborted) {
+           throw new Error("SEARCH_CANCELLED");
+       }
+       this.refill();
+       if (this.tokens < 1) {
+           await sleep(Math.ceil((1 - this.tokens) * this.limit.interval), signal);
+           this.refill();
+       }
+       this.tokens -= 1;
+   }
+
+   private refill(): void {
+       const now = Date.now();
+       this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.updatedAt) / this.limit.interval);
+       this.updatedAt = now;
+   }
+}
+
+/**
+* Process-wide gate for the requests sent to search engines: a token bucket per
+* provider paces them, and a global cap bounds how many run at once, however many
+* tool calls (or HTTP clients) are searching.
+*/
+export class SearchScheduler {
+   private maxConcurrent = DEFAULT_MAX_CONCURRENT_SEARCHES;
+   private rateLimits: Record<SearchProviderName, RateLimit> = { ...DEFAULT_RATE_LIMITS };
+   private random: (min: number, max: number) => number = getRandomDelay;
+   private buckets = new Map<SearchProviderName, TokenBucket>();
+   private active = 0;
+   private waiters: Array<() => void> = [];
+
+   constructor(options: SearchSchedulerOptions = {}) {
+       this.configure(options);
+   }
+
+   /**
+    * Change the limits; rate limits start over with full buckets
+    */
+   configure(options: SearchSchedulerOptions): void {
+       if (options.maxConcurrent !== undefined) {
+           if (!Number.isInteger(options.maxConcurrent) || options.maxConcurrent < 1) {
+               throw new Error(`maxConcurrent must be a positive integer, got ${options.maxConcurrent}`);
+           }
+           this.maxConcurrent = options.maxConcurrent;
+       }
+       this.rateLimits = { ...this.rateLimits, ...options.rateLimits };
+       this.random = options.random ?? this.random;
+       this.buckets.clear();
+   }
+
+   /**
+    * Run one engine request once the provider's rate limit and the global cap allow it.
+    * Waiting ends with SEARCH_CANCELLED when the signal aborts. The task may pause to wait
+    * for something else, such as a client solving a CAPTCHA, without holding a slot.
+    */
+   async run<T>(provider: SearchProviderName, task: (pause: SchedulerPause) => Promise<T>, signal?: AbortSignal): Promise<T> {
+       const startedWaiting = Date.now();
+       await this.bucket(provider).take(signal);
+       await this.acquire(signal);
+
+       const waited = Date.now() - startedWaiting;
+       if (waited >= 1000) {
+           logger.info(`[Scheduler] ${provider} search started after waiting ${waited}ms (${this.active}/${this.maxConcurrent} running)`);
+       }
+
+       let holding = true;
+       const pause: SchedulerPause = async wait => {
+           holding = false;
+           this.release();
+           const result = await wait();
+           await this.bucket(provider).take(signal);
+           await this.acquire(signal);
+           holding = true;
+           return result;
+       };
+
+       try {
+           return await task(pause);
+       } finally {
+           if (holding) {
+               this.release();
+           }
+       }
+   }
+
+   /**
+    * Running and queued searches and the tokens left per provider, for logging and health reporting
+    */
+   stats(): { active: number; waiting: number; maxConcurrent: number; tokens: Partial<Record<SearchProviderName, number>> } {
+       const tokens: Partial<Record<SearchProviderName, number>> = {};
+       this.buckets.forEach((bucket, provider) => {
+           tokens[provider] = Math.floor(bucket.available() * 100) / 100;
+       });
+       return { active: this.active, waiting: this.waiters.length, maxConcurrent: this.maxConcurrent, tokens };
+   }
+
+   private bucket(provider: SearchProviderName): TokenBucket {
+       let bucket = this.buckets.get(provider);
+       if (!bucket) {
+           bucket = new TokenBucket(this.rateLimits[provider], this.random);
+           this.buckets.set(provider, bucket);
+       }
+       return bucket;
+   }
+
+   private acquire(signal?: AbortSignal): Promise<void> {
+       if (signal?.aborted) {
+           return Promise.reject(new Error("SEARCH_CANCELLED"));
+       }
+       if (this.active < this.maxConcurrent) {
+           this.active++;
+           return Promise.resolve();
+       }
+
+       return new Promise<void>((resolve, reject) => {
+           const onAbort = () => {
+               const index = this.waiters.indexOf(grant);
+               if (index >= 0) {
+                   this.waiters.splice(index, 1);
+                   reject(new Error("SEARCH_CANCELLED"));
+               }
+           };
+           const grant = () => {
+               signal?.removeEventListener("abort", onAbort);
+               resolve();
+           };
+           this.waiters.push(grant);
+           signal?.addEventListener("abort", onAbort, { once: true });
+       });
+   }
+
+   private release(): void {
+       // Hand the slot straight to the next waiter, keeping the active count
+       const next = this.waiters.shift();
+       if (next) {
+           next();
+       } else {
+           this.active--;
+       }
+   }
+}
+
+/**
+* Run a worker over every item with at most `window` running at once; each finished item
+* immediately makes room for the next. Results keep the order of the items. After the
+* first failure no further items start, and the failure is thrown once the running ones settle.
+*/
+export async function runWindowed<T, R>(
+   items: T[],
+   window: number,
+   worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+   const results = new Array<R>(items.length);
+   let next = 0;
+   let failure: { error: unknown } | null = null;
+
+   const lane = async () => {
+       while (!failure && next < items.length) {
+           const index = next++;
+           try {
+               results[index] = await worker(items[index], index);
+           } catch (error) {
+               failure = failure ?? { error };
+           }
+       }
+   };
+
+   await Promise.all(Array.from({ length: Math.max(1, Math.min(window, items.length)) }, lane));
+   if (failure) {
+       throw (failure as { error: unknown }).error;
+   }
+   return results;
+}
+
+// Shared by every search in the process
+export const searchScheduler = new SearchScheduler();
@@ -0,0 +1,188 @@
+import { randomUUID } from "crypto";
+import { IncomingMessage, ServerResponse } from "http";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import { JSONRPCMessage, JSONRPCMessageSchema, ProgressToken, RequestId } from "@modelcontextprotocol/sdk/types.js";
+
+// One POST and the requests in it that still await a response
+interface Exchange {
+  res: ServerResponse;
+  stream: boolean; // Answering as an SSE stream rather than one JSON body
+  batch: boolean;
+  pending: Set<RequestId>;
+  progressTokens: Set<ProgressToken>;
+  responses: JSONRPCMessage[];
+}
+
+/**
+ * Server side of the MCP streamable HTTP transport, for one session.
+ *
+ * Each POST carries JSON-RPC messages. A POST holding requests is answered as an SSE
+ * stream when the client accepts one, so notifications about those requests (such as
+ * progress) reach the client before the responses, and as a single JSON body otherwise.
+ * There is no standalone GET stream: server messages unrelated to an open POST are dropped.
+ */
+export class StreamableHttpServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+  lastActivity = Date.now();
+
+  private exchanges = new Set<Exchange>();
+  private closed = false;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {
+    // Nothing to set up: every POST brings its own connection
+  }
+
+  /**
+   * Handle a POST whose body has already been parsed as JSON
+   */
+  async handlePost(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    this.lastActivity = Date.now();
+
+    const batch = Array.isArray(body);
+    let messages: JSONRPCMessage[];
+    try {
+      messages = (batch ? body as unknown[] : [body]).map(message => JSONRPCMessageSchema.parse(message));
+    } catch (error) {
+      this.onerror?.(error as Error);
+      writeJsonRpcError(res, 400, -32600, "Invalid JSON-RPC message");
+      return;
+    }
+
+    const requests = messages.filter(message => "method" in message && "id" in message) as Array<JSONRPCMessage & { id: RequestId; params?: any }>;
+    if (requests.length === 0) {
+      // Notifications and responses only
+      res.writeHead(202, { "Mcp-Session-Id": this.sessionId }).end();
+      messages.forEach(message => this.onmessage?.(message));
+      this.dropCancelled(messages);
+      return;
+    }
+
+    const exchange: Exchange = {
+      res,
+      stream: acceptsEventStream(req),
+      batch,
+      pending: new Set(requests.map(request => request.id)),
+      progressTokens: new Set(requests
+        .map(request => request.params?._meta?.progressToken)
+        .filter((token): token is ProgressToken => token !== undefined)),
+      responses: [],
+    };
+    this.exchanges.add(exchange);
+    res.on("close", () => this.exchanges.delete(exchange));
+
+    if (exchange.stream) {
+      res.writeHead(200, {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+        "Mcp-Session-Id": this.sessionId,
+      });
+    }
+
+    messages.forEach(message => this.onmessage?.(message));
+    this.dropCancelled(messages);
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (this.closed) {
+      throw new Error("Transport is closed");
+    }
+    this.lastActivity = Date.now();
+
+    const isResponse = "id" in message && ("result" in message || "error" in message);
+    if (isResponse) {
+      const exchange = Array.from(this.exchanges).find(candidate => candidate.pending.has(message.id));
+      if (!exchange) {
+        return; // The client went away before the response was ready
+      }
+      exchange.pending.delete(message.id);
+      this.deliver(exchange, message);
+      return;
+    }
+
+    // Server notifications and requests go to the POST they concern, or any open stream
+    const progressToken = "params" in message ? (message.params as any)?.progressToken : undefined;
+    const streams = Array.from(this.exchanges).filter(exchange => exchange.stream);
+    const target = streams.find(exchange => progressToken !== undefined && exchange.progressTokens.has(progressToken)) ?? streams[0];
+    target?.res.write(`event: message\ndata: ${JSON.stringify(message)}\n\n`);
+  }
+
+  async close(): Promise<void> {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+
+    for (const exchange of this.exchanges) {
+      exchange.res.end();
+    }
+    this.exchanges.clear();
+    this.onclose?.();
+  }
+
+  /**
+   * Stop waiting for requests the client cancelled, since the server never answers them,
+   * and end their POSTs once nothing else in them is pending
+   */
+  private dropCancelled(messages: JSONRPCMessage[]): void {
+    messages
+      .filter(message => "method" in message && message.method === "notifications/cancelled")
+      .forEach(message => {
+        const requestId = (message as { params?: { requestId?: RequestId } }).params?.requestId;
+        const exchange = Array.from(this.exchanges).find(candidate => requestId !== undefined && candidate.pending.has(requestId));
+        if (!exchange || requestId === undefined) {
+          return; // Already answered, or the client went away
+        }
+        exchange.pending.delete(requestId);
+        if (exchange.pending.size === 0) {
+          this.finish(exchange);
+        }
+      });
+  }
+
+  private deliver(exchange: Exchange, response: JSONRPCMessage): void {
+    if (exchange.stream) {
+      exchange.res.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+    } else {
+      exchange.responses.push(response);
+    }
+
+    if (exchange.pending.size === 0) {
+      this.finish(exchange);
+    }
+  }
+
+  private finish(exchange: Exchange): void {
+    if (!exchange.stream) {
+      if (exchange.responses.length > 0) {
+        exchange.res.writeHead(200, { "Content-Type": "application/json", "Mcp-Session-Id": this.sessionId });
+        exchange.res.write(JSON.stringify(exchange.batch ? exchange.responses : exchange.responses[0]));
+      } else {
+        // Every request in the POST was cancelled, so there is nothing to answer
+        exchange.res.writeHead(202, { "Mcp-Session-Id": this.sessionId });
+      }
+    }
+
+    exchange.res.end();
+    this.exchanges.delete(exchange);
+  }
+}
+
+/**
+ * Whether a request's Accept header allows an SSE response
+ */
+function acceptsEventStream(req: IncomingMessage): boolean {
+  return (req.headers.accept ?? "").split(",").some(type => type.trim().startsWith("text/event-stream"));
+}
+
+/**
+ * Answer an HTTP request with a JSON-RPC error not tied to any request id
+ */
+export function writeJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { "Content-Type": "application/json" })
+    .end(JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }));
+}
@@ -0,0 +1,142 @@
+import { AnalyzeResultsResponse, SearchResult, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { SearchQualityAnalyzer } from "../quality/analyzer.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { logger } from "../utils/logger.js";
+import { parseOptionalNumber, parseOptionalInteger, parseOptionalDomain, parseOptionalHostCaps } from "../utils/validation.js";
+
+/**
+ * Tool definition for analyze_results
+ */
+export const analyzeResultsTool = {
+  name: "analyze_results",
+  description:
+    "Score, filter and deduplicate a caller-supplied list of search results for a query without performing a search, and return quality statistics and domain insights",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "The query the results were returned for",
+      },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            link: { type: "string" },
+            snippet: { type: "string" },
+          },
+          required: ["title", "link", "snippet"],
+        },
+        description: "Search results to analyze, e.g. from another search engine or a local index",
+      },
+      minQualityScore: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description:
+          "Minimum quality score (0-1) a result needs to be kept (default: 0.3 for general queries, 0.1 for domain-specific queries)",
+      },
+      diversify: {
+        type: "boolean",
+        description:
+          "Re-rank the kept results so the first ones come from different sites and source types. The per-site cap (maxPerHost) is soft: a site's results beyond it move to the end rather than being dropped (default: true)",
+      },
+      maxPerHost: {
+        type: "integer",
+        minimum: 0,
+        maximum: 100,
+        description:
+          "Results from one site kept in diversified order; the site's further results move after every other result instead of being dropped, so they are still returned when the limit leaves room (default: 3, or the server's --max-per-host)",
+      },
+      hostCaps: {
+        type: "object",
+        additionalProperties: {
+          type: "integer",
+          minimum: 0,
+          maximum: 100,
+        },
+        description:
+          "Per-site overrides of maxPerHost, keyed by hostname, e.g. {\"stackoverflow.com\": 5}; \"www.\" and mobile prefixes are ignored",
+      },
+      explain: {
+        type: "boolean",
+        description:
+          "Attach a score explanation to each result: every component's contribution, the rules that matched and clamping effects. Results dropped by quality filtering are returned as filteredResults with their explanations (default: false)",
+      },
+      domain: {
+        type: "string",
+        description:
+          `Force the quality domain used for scoring instead of detecting it from the query: one of ${QUERY_DOMAINS.join(", ")}, or a domain loaded with --domains`,
+      },
+    },
+    required: ["query", "results"],
+  },
+};
+
+/**
+ * Implementation of the analyze_results tool
+ */
+export async function analyzeResults(args: any) {
+  const query = typeof args?.query === "string" ? args.query.trim() : "";
+  const rawResults = args?.results;
+
+  if (!query) {
+    logger.error(`[Error] A query is required to analyze results`);
+    throw new Error("A query is required to analyze results");
+  }
+
+  if (!Array.isArray(rawResults)) {
+    logger.error(`[Error] Results must be an array`);
+    throw new Error("Results must be an array");
+  }
+
+  // Left unset, the analyzer picks the domain-aware default, as the search tool does
+  const minQualityScore = parseOptionalNumber(args?.minQualityScore, "minQualityScore", 0, 1);
+  const forcedDomain = parseOptionalDomain(args?.domain);
+  const explain = args?.explain === true;
+  const diversify = args?.diversify !== false;
+  const maxPerHost = parseOptionalInteger(args?.maxPerHost, "maxPerHost", 0, 100);
+  const hostCaps = parseOptionalHostCaps(args?.hostCaps);
+
+  // Keep only the fields the analyzer scores, coercing everything to strings
+  const inputResults: SearchResult[] = rawResults
+    .filter((item: any) => item && typeof item === "object")
+    .map((item: any) => ({
+      title: String(item.title ?? ""),
+      link: String(item.link ?? ""),
+      snippet: String(item.snippet ?? ""),
+    }));
+
+  const analyzer = new SearchQualityAnalyzer();
+  const domain = forcedDomain ?? analyzer.detectQueryDomain(query);
+
+  logger.info(`[AnalyzeResults] Analyzing ${inputResults.length} results for ${domain} query: "${query}"`);
+
+  const filteredOut: SearchResult[] = [];
+  const scored = analyzer
+    .applyQualityFiltering(analyzer.validateResults(inputResults), query, minQualityScore, forcedDomain, explain, filteredOut)
+    .map(result => analyzer.analyzeResult(result, query, forcedDomain));
+  const results = diversify ? analyzer.diversifyResults(scored, { maxPerHost, hostCaps }) : scored;
+
+  logger.info(`[AnalyzeResults] Kept ${results.length}/${inputResults.length} results after quality filtering`);
+
+  const response: AnalyzeResultsResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    query,
+    domain,
+    inputCount: inputResults.length,
+    results,
+    filteredResults: explain ? filteredOut : undefined,
+    stats: analyzer.getQualityStats(results, query, forcedDomain),
+    insights: analyzer.getDomainInsights(results, query, domain),
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(response, null, 2)
+    }]
+  };
+}
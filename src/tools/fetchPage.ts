@@ -0,0 +1,97 @@
+import { FetchPageResponse, ToolContext, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { fetchPageContents } from "../services/pageContent.js";
+import { logger } from "../utils/logger.js";
+import { parseOptionalInteger } from "../utils/validation.js";
+
+// Pages per call; they load a few at a time
+const MAX_URLS = 10;
+
+/**
+ * Tool definition for fetch_page
+ */
+export const fetchPageTool = {
+  name: "fetch_page",
+  description:
+    "Visit one or more web pages and extract their main readable content (title, text, headings, code blocks and publication date), truncated to a token budget",
+  inputSchema: {
+    type: "object",
+    properties: {
+      urls: {
+        type: "array",
+        items: {
+          type: "string"
+        },
+        maxItems: MAX_URLS,
+        description: `URLs of the pages to fetch, at most ${MAX_URLS}`,
+      },
+      tokenBudget: {
+        type: "integer",
+        minimum: 100,
+        maximum: 20000,
+        description:
+          "Approximate number of tokens of text and code returned per page (default: 2000)",
+      },
+      timeout: {
+        type: "number",
+        description:
+          "Page loading timeout in milliseconds (default: 30000)",
+      },
+      locale: {
+        type: "string",
+        description:
+          "Locale used by the browser when loading pages (default: en-US)",
+      },
+    },
+    required: ["urls"],
+  },
+};
+
+/**
+ * Implementation of the fetch_page tool
+ */
+export async function fetchPage(args: any, context: ToolContext = {}) {
+  const urls = args?.urls || [];
+
+  if (!Array.isArray(urls) || urls.length === 0) {
+    logger.error(`[Error] At least one URL is required`);
+    throw new Error("At least one URL is required");
+  }
+
+  if (urls.length > MAX_URLS) {
+    logger.error(`[Error] Too many URLs: ${urls.length}`);
+    throw new Error(`At most ${MAX_URLS} URLs can be fetched at once, got ${urls.length}`);
+  }
+
+  for (const url of urls) {
+    if (typeof url !== "string" || !/^https?:\/\//i.test(url)) {
+      logger.error(`[Error] Invalid URL: ${url}`);
+      throw new Error(`Invalid URL (must start with http:// or https://): ${url}`);
+    }
+  }
+
+  const tokenBudget = parseOptionalInteger(args?.tokenBudget, "tokenBudget", 100, 20000) ?? 2000;
+  const timeout = Number(args?.timeout) || 30000;
+  const locale = String(args?.locale || "en-US");
+
+  logger.info(`[FetchPage] Fetching ${urls.length} pages with a budget of ${tokenBudget} tokens each`);
+
+  const pages = await fetchPageContents(
+    urls,
+    { timeout, locale, tokenBudget, blockPrivateNetworks: context.remote, signal: context.signal },
+    context.browserPool
+  );
+
+  logger.info(`[FetchPage] Fetched ${pages.filter(page => !page.error).length}/${urls.length} pages successfully`);
+
+  const response: FetchPageResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    pages
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(response, null, 2)
+    }]
+  };
+}
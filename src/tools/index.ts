@@ -1,11 +1,29 @@
 import { searchGoogleTool, searchGoogle } from './searchGoogle.js';
+import { analyzeResultsTool, analyzeResults } from './analyzeResults.js';
+import { fetchPageTool, fetchPage } from './fetchPage.js';
+import { rateResultTool, rateResult } from './rateResult.js';
+import { listSourceRulesTool, listSourceRules } from './listSourceRules.js';
+import { setSourceRuleTool, setSourceRule } from './setSourceRule.js';
+import { resolveCaptchaTool, resolveCaptcha } from './resolveCaptcha.js';
 
 // Export tool definitions
 export const tools = [
-  searchGoogleTool
+  searchGoogleTool,
+  analyzeResultsTool,
+  fetchPageTool,
+  rateResultTool,
+  listSourceRulesTool,
+  setSourceRuleTool,
+  resolveCaptchaTool
 ];
 
 // Export tool implementations
 export const toolHandlers = {
-  [searchGoogleTool.name]: searchGoogle
+  [searchGoogleTool.name]: searchGoogle,
+  [analyzeResultsTool.name]: analyzeResults,
+  [fetchPageTool.name]: fetchPage,
+  [rateResultTool.name]: rateResult,
+  [listSourceRulesTool.name]: listSourceRules,
+  [setSourceRuleTool.name]: setSourceRule,
+  [resolveCaptchaTool.name]: resolveCaptcha
 };
@@ -0,0 +1,48 @@
+import { SourceRulesResponse, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { sourceRules } from "../quality/sourceRules.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { logger } from "../utils/logger.js";
+import { parseOptionalDomain } from "../utils/validation.js";
+
+/**
+ * Tool definition for list_source_rules
+ */
+export const listSourceRulesTool = {
+  name: "list_source_rules",
+  description:
+    "List the user-managed source rules that allow (trust), block or boost results from specific sites, optionally only those applying to one quality domain",
+  inputSchema: {
+    type: "object",
+    properties: {
+      domain: {
+        type: "string",
+        description:
+          `Only list the rules applying to this quality domain (its own rules plus the unscoped ones): one of ${QUERY_DOMAINS.join(", ")}, or a domain loaded with --domains`,
+      },
+    },
+  },
+};
+
+/**
+ * Implementation of the list_source_rules tool
+ */
+export async function listSourceRules(args: any) {
+  const domain = parseOptionalDomain(args?.domain);
+  const rules = sourceRules.list(domain);
+
+  logger.info(`[SourceRules] Listing ${rules.length} rules${domain ? ` for ${domain}` : ""}`);
+
+  const response: SourceRulesResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    file: sourceRules.file,
+    domain,
+    rules,
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(response, null, 2)
+    }]
+  };
+}
@@ -0,0 +1,113 @@
+import { RateResultResponse, SearchResult, ToolContext, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { SearchQualityAnalyzer } from "../quality/analyzer.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { FeedbackStore } from "../services/feedbackStore.js";
+import { logger } from "../utils/logger.js";
+import { assertServerWritesAllowed, parseOptionalInteger, parseOptionalDomain } from "../utils/validation.js";
+
+/**
+ * Tool definition for rate_result
+ */
+export const rateResultTool = {
+  name: "rate_result",
+  description:
+    "Record how useful a search result was for a query. Judgments are stored locally and used to train the ranking weights (see the train script)",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "The query the result was returned for",
+      },
+      result: {
+        type: "object",
+        properties: {
+          title: { type: "string" },
+          link: { type: "string" },
+          snippet: { type: "string" },
+          lastUpdated: { type: "string" },
+        },
+        required: ["title", "link", "snippet"],
+        description: "The result being rated, as returned by the search tool",
+      },
+      relevance: {
+        type: "integer",
+        minimum: 0,
+        maximum: 3,
+        description:
+          "How useful the result was: 0 not useful, 1 marginally, 2 useful, 3 exactly what was needed",
+      },
+      useful: {
+        type: "boolean",
+        description: "Shorthand for relevance 2 (true) or 0 (false) when no graded relevance is given",
+      },
+      domain: {
+        type: "string",
+        description:
+          `Quality domain the judgment applies to instead of detecting it from the query: one of ${QUERY_DOMAINS.join(", ")}, or a domain loaded with --domains`,
+      },
+    },
+    required: ["query", "result"],
+  },
+};
+
+/**
+ * Implementation of the rate_result tool
+ */
+export async function rateResult(args: any, context: ToolContext = {}) {
+  // Feedback trains the ranking models every client is scored with
+  assertServerWritesAllowed(context, rateResultTool.name);
+
+  const query = typeof args?.query === "string" ? args.query.trim() : "";
+  const rawResult = args?.result;
+
+  if (!query) {
+    logger.error(`[Error] A query is required to rate a result`);
+    throw new Error("A query is required to rate a result");
+  }
+
+  if (!rawResult || typeof rawResult !== "object" || typeof rawResult.link !== "string" || !/^https?:\/\//i.test(rawResult.link)) {
+    logger.error(`[Error] Invalid result: ${JSON.stringify(rawResult)}`);
+    throw new Error("result must be an object with a title, an http(s) link and a snippet");
+  }
+
+  let relevance = parseOptionalInteger(args?.relevance, "relevance", 0, 3);
+  if (relevance === undefined && typeof args?.useful === "boolean") {
+    relevance = args.useful ? 2 : 0;
+  }
+  if (relevance === undefined) {
+    logger.error(`[Error] Missing relevance for ${rawResult.link}`);
+    throw new Error("Either relevance (0-3) or useful (boolean) is required");
+  }
+
+  const domain = parseOptionalDomain(args?.domain) ?? new SearchQualityAnalyzer().detectQueryDomain(query);
+
+  // Keep only the fields the analyzer scores
+  const result: SearchResult = {
+    title: String(rawResult.title ?? ""),
+    link: rawResult.link,
+    snippet: String(rawResult.snippet ?? ""),
+    lastUpdated: typeof rawResult.lastUpdated === "string" ? rawResult.lastUpdated : undefined,
+  };
+
+  const store = FeedbackStore.forFile();
+  store.record({ query, domain, result, relevance });
+
+  logger.info(`[RateResult] Recorded relevance ${relevance} for ${result.link} (${domain} query: "${query}")`);
+
+  const response: RateResultResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    query,
+    domain,
+    link: result.link,
+    relevance,
+    totalJudgments: store.list().length,
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(response, null, 2)
+    }]
+  };
+}
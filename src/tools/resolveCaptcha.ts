@@ -0,0 +1,142 @@
+import { ResolveCaptchaResponse, ToolContext, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { captchaHandoff, CaptchaResolution, CaptchaResolveResult } from "../services/captchaHandoff.js";
+import { logger } from "../utils/logger.js";
+
+/**
+ * Tool definition for resolve_captcha
+ */
+export const resolveCaptchaTool = {
+  name: "resolve_captcha",
+  description:
+    "Unblock a search waiting on a CAPTCHA (when the server runs with --captcha-handoff). Each challenge's screenshot is the captcha:// resource named in the search's progress. Import the cookies of a browser where the CAPTCHA was solved, click or type on the challenge page (a new screenshot is returned while it is still unsolved), or abandon it. Without an action, returns your pending challenges and their screenshots",
+  inputSchema: {
+    type: "object",
+    properties: {
+      id: {
+        type: "string",
+        description: "Challenge id or its captcha:// URI (required with an action)",
+      },
+      storageState: {
+        type: "object",
+        properties: {
+          cookies: {
+            type: "array",
+            items: { type: "object" },
+          },
+        },
+        required: ["cookies"],
+        description: "Browser state in the format of browser-state.json (Playwright storage state) from a browser where the CAPTCHA was solved; its cookies are imported and the search retried",
+      },
+      click: {
+        type: "object",
+        properties: {
+          x: { type: "number" },
+          y: { type: "number" },
+        },
+        required: ["x", "y"],
+        description: "Click at these coordinates of the screenshot, e.g. on a checkbox or image tile",
+      },
+      text: {
+        type: "string",
+        description: "Type this text into the focused field of the challenge page",
+      },
+      pressEnter: {
+        type: "boolean",
+        description: "Press Enter after typing text (default: false)",
+      },
+      abandon: {
+        type: "boolean",
+        description: "Give up on the challenge; the blocked search fails with CAPTCHA_HANDOFF_ABANDONED",
+      },
+    },
+  },
+};
+
+/**
+ * Implementation of the resolve_captcha tool
+ */
+export async function resolveCaptcha(args: any, context: ToolContext = {}) {
+  const id = typeof args?.id === "string" ? args.id.trim() : "";
+  const resolution = parseResolution(args);
+
+  let result: CaptchaResolveResult | undefined;
+  if (resolution) {
+    if (!id) {
+      logger.error(`[Error] A challenge id is required to resolve a CAPTCHA`);
+      throw new Error("A challenge id is required to resolve a CAPTCHA");
+    }
+    try {
+      result = await captchaHandoff.resolve(id, resolution, context.clientId);
+    } catch (error) {
+      logger.error(`[Error] ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+    logger.info(`[CaptchaHandoff] ${resolution.action} on ${result.challenge.uri}: ${result.state}`);
+  }
+
+  const pending = captchaHandoff.list(context.clientId);
+  const response: ResolveCaptchaResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    challenge: result?.challenge,
+    state: result?.state,
+    pending,
+  };
+
+  // Screenshots to act on next: the challenge still unsolved, or every pending one when only looking
+  const screenshots = result
+    ? (result.screenshot ? [result.screenshot] : [])
+    : pending
+        .filter(challenge => !id || challenge.id === id || challenge.uri === id)
+        .map(challenge => captchaHandoff.screenshot(challenge.id, context.clientId)?.data)
+        .filter((data): data is string => data !== undefined);
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(response, null, 2)
+      },
+      ...screenshots.map(data => ({ type: "image", data, mimeType: "image/png" })),
+    ]
+  };
+}
+
+/**
+ * The single action requested, if any
+ */
+function parseResolution(args: any): CaptchaResolution | undefined {
+  const actions: CaptchaResolution[] = [];
+
+  if (args?.storageState !== undefined) {
+    const cookies = args.storageState?.cookies;
+    if (!Array.isArray(cookies) || !cookies.every(cookie => typeof cookie?.name === "string" && typeof cookie?.value === "string")) {
+      logger.error(`[Error] Invalid storageState: expected a cookies array`);
+      throw new Error("storageState must hold a cookies array of {name, value, domain, path, ...} objects as in browser-state.json");
+    }
+    actions.push({ action: 'cookies', storageState: { cookies } });
+  }
+  if (args?.click !== undefined) {
+    const { x, y } = args.click ?? {};
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      logger.error(`[Error] Invalid click: ${JSON.stringify(args.click)}`);
+      throw new Error("click must have numeric x and y coordinates");
+    }
+    actions.push({ action: 'click', x, y });
+  }
+  if (args?.text !== undefined) {
+    if (typeof args.text !== "string") {
+      logger.error(`[Error] Invalid text: ${args.text}`);
+      throw new Error("text must be a string");
+    }
+    actions.push({ action: 'type', text: args.text, pressEnter: args?.pressEnter === true });
+  }
+  if (args?.abandon === true) {
+    actions.push({ action: 'abandon' });
+  }
+
+  if (actions.length > 1) {
+    logger.error(`[Error] More than one CAPTCHA action given`);
+    throw new Error("Give only one of storageState, click, text or abandon");
+  }
+  return actions[0];
+}
@@ -1,14 +1,43 @@
-import { MultiSearchResponse, SearchOptions } from "../types/index.js";
+import { MultiSearchResponse, SearchOptions, SearchProgress, SearchStatus, ToolContext, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
 import { multiGoogleSearch } from "../services/googleSearch.js";
 import { isDebugMode } from "../index.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { SEARCH_PROVIDERS } from "../services/providers/index.js";
 import { logger } from "../utils/logger.js";
+import {
+  parseOptionalNumber,
+  parseOptionalInteger,
+  parseOptionalDomain,
+  parseOptionalProvider,
+  parseOptionalProviders,
+  parseOptionalCacheMode,
+  parseOptionalOperators,
+  parseOptionalVertical,
+  parseOptionalFallback,
+  parseOptionalFilePath,
+  parseOptionalHostCaps,
+  CACHE_MODES,
+  SEARCH_FALLBACKS,
+} from "../utils/validation.js";
+import { SAFE_SEARCH_LEVELS, FRESHNESS_PERIODS, SEARCH_VERTICALS } from "../services/providers/index.js";
+
+// How far along a query is at each status, as a fraction of its share of the progress
+const STATUS_PROGRESS: Record<SearchStatus, number> = {
+  queued: 0,
+  navigating: 0.2,
+  captcha: 0.3,
+  extracting: 0.5,
+  filtering: 0.8,
+  completed: 1,
+  failed: 1,
+};
 
 /**
  * Tool definition for g_search
  */
 export const searchGoogleTool = {
   name: "search",
-  description: "Search on Google for multiple keywords and return the results",
+  description: "Search on Google (or another supported search engine) for multiple keywords and return the results. Each result carries its quality score, issues and metadata (source type, difficulty, code examples, content length), and each search reports whether it succeeded",
   inputSchema: {
     type: "object",
     properties: {
@@ -24,6 +53,13 @@ export const searchGoogleTool = {
         description:
           "Maximum number of results to return per query (default: 10)",
       },
+      maxPages: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description:
+          "Maximum number of results pages to visit per query; further pages are only loaded while fewer than limit results survive quality filtering (default: 3)",
+      },
       timeout: {
         type: "number",
         description:
@@ -44,6 +80,206 @@ export const searchGoogleTool = {
         description:
           "Whether to enable debug mode (showing browser window), overrides the --debug command line flag if specified",
       },
+      enableQualityFiltering: {
+        type: "boolean",
+        description:
+          "Whether to score, filter and deduplicate results; set to false to get raw search results (default: true)",
+      },
+      minQualityScore: {
+        type: "number",
+        minimum: 0,
+        maximum: 1,
+        description:
+          "Minimum quality score (0-1) a result needs to be kept when quality filtering is enabled (default: 0.3 for general queries, 0.1 for domain-specific queries)",
+      },
+      diversify: {
+        type: "boolean",
+        description:
+          "Re-rank filtered results so the first ones come from different sites and mix documentation, Q&A, repositories and blogs. The per-site cap (maxPerHost) is soft: a site's results beyond it move to the end rather than being dropped (default: true)",
+      },
+      maxPerHost: {
+        type: "integer",
+        minimum: 0,
+        maximum: 100,
+        description:
+          "Results from one site kept in diversified order; the site's further results move after every other result instead of being dropped, so they are still returned when the limit leaves room (default: 3, or the server's --max-per-host)",
+      },
+      hostCaps: {
+        type: "object",
+        additionalProperties: {
+          type: "integer",
+          minimum: 0,
+          maximum: 100,
+        },
+        description:
+          "Per-site overrides of maxPerHost, keyed by hostname, e.g. {\"stackoverflow.com\": 5}; \"www.\" and mobile prefixes are ignored",
+      },
+      explain: {
+        type: "boolean",
+        description:
+          "Attach a score explanation to each result: every component's contribution, the rules that matched (trusted patterns, spam words, synonyms, ...) and clamping effects. Results dropped by quality filtering are returned as filteredResults with their explanations (default: false)",
+      },
+      maxRetries: {
+        type: "integer",
+        minimum: 0,
+        maximum: 5,
+        description:
+          "Maximum number of retries per query, e.g. after a CAPTCHA (default: 2)",
+      },
+      concurrency: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description:
+          "Maximum number of queries searched in parallel (default: 3)",
+      },
+      domain: {
+        type: "string",
+        description:
+          `Force the quality domain used for scoring instead of detecting it from each query: one of ${QUERY_DOMAINS.join(", ")}, or a domain loaded with --domains`,
+      },
+      provider: {
+        type: "string",
+        enum: SEARCH_PROVIDERS,
+        description:
+          "Search engine to query (default: google)",
+      },
+      vertical: {
+        type: "string",
+        enum: SEARCH_VERTICALS,
+        description:
+          "Results tab to search: web, news (publisher and date), images (image URL, dimensions and source page), videos (duration and channel) or scholar (authors, citations and PDF link). Verticals other than web are supported by the google provider only (default: web)",
+      },
+      providers: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: SEARCH_PROVIDERS,
+        },
+        description:
+          "Meta-search mode: run each query on all of these engines and fuse the rankings. Each result lists the engines that returned it. Overrides provider",
+      },
+      fallback: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: SEARCH_FALLBACKS,
+        },
+        description:
+          "Where to turn, in order, when the provider is paused after repeated CAPTCHAs: 'cache' serves cached results however old, a provider name searches that engine instead. Without a fallback such queries fail at once with a RATE_LIMITED error and retryAfter seconds",
+      },
+      cache: {
+        type: "string",
+        enum: CACHE_MODES,
+        description:
+          "Result cache mode: 'enabled' serves fresh cached results and refreshes stale ones in the background, 'disabled' skips the cache, 'refresh' always searches and updates the cache, 'only' never searches and returns cached results however old (default: enabled)",
+      },
+      cacheTtl: {
+        type: "number",
+        minimum: 0,
+        description:
+          "How long cached results count as fresh, in milliseconds (default: 3600000, or the server's --cache-ttl)",
+      },
+      staleWhileRevalidate: {
+        type: "number",
+        minimum: 0,
+        description:
+          "How long after going stale cached results are still served while being refreshed in the background, in milliseconds (default: 86400000, or the server's --stale-while-revalidate)",
+      },
+      cacheFile: {
+        type: "string",
+        description:
+          "Path of the JSONL result cache file to use; not available to clients of a shared HTTP server (default: ./search-cache.jsonl, or the server's --cache-file)",
+      },
+      fetchContent: {
+        type: "boolean",
+        description:
+          "Visit the top results, extract their main readable content and use it to re-score them (default: false)",
+      },
+      fetchContentCount: {
+        type: "integer",
+        minimum: 1,
+        maximum: 10,
+        description:
+          "Number of top results per query whose content is fetched when fetchContent is enabled (default: 3)",
+      },
+      contentTokenBudget: {
+        type: "integer",
+        minimum: 100,
+        maximum: 20000,
+        description:
+          "Approximate number of tokens of page content returned per result (default: 2000)",
+      },
+      operators: {
+        type: "object",
+        description:
+          "Structured search operators applied to every query, compiled into the engine's query syntax and URL parameters instead of hand-written site:/filetype:/-term operators",
+        properties: {
+          sites: {
+            type: "array",
+            items: { type: "string" },
+            description: "Only return results from these sites (hostname, optionally with a path prefix)",
+          },
+          excludeSites: {
+            type: "array",
+            items: { type: "string" },
+            description: "Exclude results from these sites",
+          },
+          exactPhrases: {
+            type: "array",
+            items: { type: "string" },
+            description: "Phrases that must appear verbatim",
+          },
+          excludeTerms: {
+            type: "array",
+            items: { type: "string" },
+            description: "Terms or phrases that must not appear",
+          },
+          fileType: {
+            type: "string",
+            description: "Only return documents with this file extension, e.g. pdf",
+          },
+          dateRange: {
+            type: "object",
+            properties: {
+              after: { type: "string", description: "Earliest date, YYYY-MM-DD" },
+              before: { type: "string", description: "Latest date, YYYY-MM-DD" },
+            },
+            description: "Only return pages dated within this range",
+          },
+          language: {
+            type: "string",
+            description: "Only return pages in this language (ISO 639-1 code, e.g. de)",
+          },
+          region: {
+            type: "string",
+            description: "Restrict results to this country (ISO 3166-1 alpha-2 code, e.g. GB)",
+          },
+          safeSearch: {
+            type: "string",
+            enum: SAFE_SEARCH_LEVELS,
+            description: "Safe-search level",
+          },
+          freshness: {
+            oneOf: [
+              { type: "string", enum: FRESHNESS_PERIODS },
+              {
+                type: "object",
+                properties: {
+                  after: { type: "string", description: "Earliest publication date, YYYY-MM-DD" },
+                  before: { type: "string", description: "Latest publication date, YYYY-MM-DD" },
+                },
+              },
+            ],
+            description: "Only return pages published in the past day, week, month or year, or within a custom range, using the engine's time filter",
+          },
+        },
+      },
+      serpFeatures: {
+        type: "boolean",
+        description:
+          "Also return the non-organic sections of the results page as serpFeatures: featured snippet, People also ask, knowledge panel, top stories, videos and related searches. Google only (default: false)",
+      },
     },
     required: ["queries"],
   },
@@ -52,7 +288,7 @@ export const searchGoogleTool = {
 /**
  * Implementation of the g_search tool
  */
-export async function searchGoogle(args: any) {
+export async function searchGoogle(args: any, context: ToolContext = {}) {
   const queries = args?.queries || [];
   
   if (!Array.isArray(queries) || queries.length === 0) {
@@ -62,23 +298,68 @@ export async function searchGoogle(args: any) {
 
   const options: SearchOptions = {
     limit: Number(args?.limit) || 10,
+    maxPages: parseOptionalInteger(args?.maxPages, "maxPages", 1, 10),
     timeout: Number(args?.timeout) || 60000,
     noSaveState: args?.noSaveState === true,
     locale: String(args?.locale || "en-US"),
-    debug: args?.debug !== undefined ? args?.debug : isDebugMode // Use tool param if provided, otherwise use command line flag
+    debug: args?.debug !== undefined ? args?.debug : isDebugMode, // Use tool param if provided, otherwise use command line flag
+    enableQualityFiltering: args?.enableQualityFiltering !== false,
+    minQualityScore: parseOptionalNumber(args?.minQualityScore, "minQualityScore", 0, 1),
+    diversify: args?.diversify !== false,
+    maxPerHost: parseOptionalInteger(args?.maxPerHost, "maxPerHost", 0, 100),
+    hostCaps: parseOptionalHostCaps(args?.hostCaps),
+    explain: args?.explain === true,
+    maxRetries: parseOptionalInteger(args?.maxRetries, "maxRetries", 0, 5),
+    concurrency: parseOptionalInteger(args?.concurrency, "concurrency", 1, 10),
+    domain: parseOptionalDomain(args?.domain),
+    provider: parseOptionalProvider(args?.provider),
+    providers: parseOptionalProviders(args?.providers),
+    fallback: parseOptionalFallback(args?.fallback),
+    vertical: parseOptionalVertical(args?.vertical),
+    cache: parseOptionalCacheMode(args?.cache),
+    cacheTtl: parseOptionalNumber(args?.cacheTtl, "cacheTtl", 0, Number.MAX_SAFE_INTEGER),
+    staleWhileRevalidate: parseOptionalNumber(args?.staleWhileRevalidate, "staleWhileRevalidate", 0, Number.MAX_SAFE_INTEGER),
+    cacheFile: parseOptionalFilePath(args?.cacheFile, "cacheFile", context.remote),
+    fetchContent: args?.fetchContent === true,
+    fetchContentCount: parseOptionalInteger(args?.fetchContentCount, "fetchContentCount", 1, 10),
+    contentTokenBudget: parseOptionalInteger(args?.contentTokenBudget, "contentTokenBudget", 100, 20000),
+    serpFeatures: args?.serpFeatures === true,
+    operators: parseOptionalOperators(args?.operators),
   };
 
   // Log search parameters
   logger.info(`[SearchGoogle] Starting search for ${queries.length} queries with options: ${JSON.stringify(options)}`);
   logger.info(`[SearchGoogle] Debug mode: ${options.debug ? 'enabled' : 'disabled'} (from CLI flag: ${isDebugMode})`);
 
+  // Progress counts finished queries, with fractions for the stages of the running ones.
+  // A retried query re-enters earlier stages, so each query only moves forward.
+  const queryProgress = new Array<number>(queries.length).fill(0);
+  const onProgress = context.onProgress && ((progress: SearchProgress) => {
+    const index = progress.queryIndex ?? 0;
+    queryProgress[index] = Math.max(queryProgress[index], STATUS_PROGRESS[progress.status]);
+    context.onProgress!({
+      progress: queryProgress.reduce((sum, value) => sum + value, 0),
+      total: queries.length,
+      message: `"${progress.query}": ${progress.status}${progress.provider ? ` (${progress.provider})` : ""}`
+        + (progress.challenge ? `, waiting for resolve_captcha on ${progress.challenge.uri} until ${progress.challenge.expiresAt}` : ""),
+      data: { search: progress },
+    });
+  });
+
   try {
-    const results = await multiGoogleSearch(queries, options);
+    const results = await multiGoogleSearch(queries, {
+      ...options,
+      signal: context.signal,
+      onProgress,
+      blockPrivateNetworks: context.remote,
+      clientId: context.clientId,
+    }, undefined, context.browserPool);
     
     logger.info(`[SearchGoogle] Search completed successfully for ${results.length} queries`);
     
     // Format the response
     const response: MultiSearchResponse = {
+      schemaVersion: RESPONSE_SCHEMA_VERSION,
       searches: results
     };
 
@@ -92,4 +373,4 @@ export async function searchGoogle(args: any) {
     logger.error(`[SearchGoogle] Error during search: ${error}`);
     throw error;
   }
-} 
\ No newline at end of file
+} 
@@ -0,0 +1,103 @@
+import { SetSourceRuleResponse, SourceRule, ToolContext, RESPONSE_SCHEMA_VERSION } from "../types/index.js";
+import { describeSourceRule, sourceRules, SOURCE_RULE_ACTIONS } from "../quality/sourceRules.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { logger } from "../utils/logger.js";
+import { assertServerWritesAllowed, parseOptionalDomain } from "../utils/validation.js";
+
+/**
+ * Tool definition for set_source_rule
+ */
+export const setSourceRuleTool = {
+  name: "set_source_rule",
+  description:
+    "Add, replace or remove a source rule for a site. Rules match the result's hostname and its subdomains: allow treats the site as a trusted authority (overriding the built-in low-quality lists), block never returns its results, boost raises or lowers its score. Changes apply immediately and are saved to the rules file",
+  inputSchema: {
+    type: "object",
+    properties: {
+      host: {
+        type: "string",
+        description: "Hostname the rule applies to, e.g. docs.example.com; subdomains are included",
+      },
+      action: {
+        type: "string",
+        enum: SOURCE_RULE_ACTIONS,
+        description: "allow, block or boost (required unless remove is set)",
+      },
+      domain: {
+        type: "string",
+        description:
+          `Scope the rule to one quality domain: one of ${QUERY_DOMAINS.join(", ")}, or a domain loaded with --domains. Unscoped rules apply to every domain, and scoped rules take precedence over them`,
+      },
+      boost: {
+        type: "number",
+        minimum: -1,
+        maximum: 1,
+        description: "Amount added to the URL score of the site's results, for boost rules; negative values demote them",
+      },
+      note: {
+        type: "string",
+        description: "Why the rule exists, kept with the rule",
+      },
+      remove: {
+        type: "boolean",
+        description: "Remove the rule for this host and domain instead of setting one (default: false)",
+      },
+    },
+    required: ["host"],
+  },
+};
+
+/**
+ * Implementation of the set_source_rule tool
+ */
+export async function setSourceRule(args: any, context: ToolContext = {}) {
+  // Rules re-rank every client's results, so only the operator's clients may change them
+  assertServerWritesAllowed(context, setSourceRuleTool.name);
+
+  const host = typeof args?.host === "string" ? args.host.trim() : "";
+  if (!host) {
+    logger.error(`[Error] A host is required to set a source rule`);
+    throw new Error("A host is required to set a source rule");
+  }
+
+  const domain = parseOptionalDomain(args?.domain);
+
+  let rule: SourceRule | undefined;
+  let removed = false;
+  try {
+    if (args?.remove === true) {
+      removed = sourceRules.remove(host, domain);
+      if (!removed) {
+        throw new Error(`No source rule for ${host}${domain ? ` in ${domain}` : ""}`);
+      }
+      logger.info(`[SourceRules] Removed rule for ${host}${domain ? ` in ${domain}` : ""}`);
+    } else {
+      rule = sourceRules.set({
+        host,
+        action: args?.action,
+        domain,
+        boost: args?.boost,
+        note: args?.note,
+      });
+      logger.info(`[SourceRules] Set rule: ${describeSourceRule(rule)}`);
+    }
+  } catch (error) {
+    logger.error(`[Error] ${error instanceof Error ? error.message : String(error)}`);
+    throw error;
+  }
+
+  const response: SetSourceRuleResponse = {
+    schemaVersion: RESPONSE_SCHEMA_VERSION,
+    file: sourceRules.file,
+    rule,
+    removed,
+    totalRules: sourceRules.list().length,
+  };
+
+  return {
+    content: [{
+      type: "text",
+      text: JSON.stringify(response, null, 2)
+    }]
+  };
+}
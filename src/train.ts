@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Fit per-domain ranking weights from rate_result judgments and write them to a
+ * ranking model file the server loads with --ranking-model.
+ * Prints NDCG of the hand-tuned and learned rankings on the collected judgments.
+ */
+
+import * as fs from "fs";
+import { SearchQualityAnalyzer } from "./quality/analyzer.js";
+import { domainRegistry } from "./quality/registry.js";
+import { DEFAULT_RANKING_MODEL_FILE, RankingModelFile } from "./quality/ranking.js";
+import { trainRankingModels, formatTrainingReport } from "./quality/trainer.js";
+import { DEFAULT_FEEDBACK_FILE, FeedbackStore } from "./services/feedbackStore.js";
+import { getArgValues, getDomainPaths } from "./utils/cli.js";
+
+function main() {
+  const feedbackFile = getArgValues("--feedback").pop() || DEFAULT_FEEDBACK_FILE;
+  const outputFile = getArgValues("--output").pop() || DEFAULT_RANKING_MODEL_FILE;
+  const dryRun = process.argv.includes("--dry-run");
+
+  // Judgments for custom domains are scored with the same domain files as the server
+  for (const domainPath of getDomainPaths()) {
+    domainRegistry.loadPath(domainPath);
+  }
+
+  const judgments = FeedbackStore.forFile(feedbackFile).list();
+  if (judgments.length === 0) {
+    throw new Error(`No judgments found in ${feedbackFile}; rate results with the rate_result tool first`);
+  }
+
+  const { models, report } = trainRankingModels(judgments, new SearchQualityAnalyzer());
+  console.log(formatTrainingReport(report));
+
+  if (Object.keys(models).length === 0) {
+    console.log("\nNo domain had enough judgments; no model file written");
+    return;
+  }
+  if (dryRun) {
+    console.log(`\nDry run: ${outputFile} not written`);
+    return;
+  }
+
+  const file: RankingModelFile = { version: 1, trainedAt: report.trainedAt, models, report };
+  fs.writeFileSync(outputFile, JSON.stringify(file, null, 2) + "\n", "utf8");
+  console.log(`\nWrote ${outputFile}; start the server with --ranking-model ${outputFile} to use it`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`[Error] ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
@@ -1,23 +1,164 @@
+import type { QueryDomain, DomainClassification, ScoreExplanation, SourceRule, SearchResult, PageContent, SearchVertical } from "../quality/types.js";
+import type { SearchProviderName, SerpFeatures, SearchOperators } from "../services/providers/types.js";
+import type { CacheMode, CacheStatus } from "../services/resultCache.js";
+import type { BrowserPool } from "../services/browserPool.js";
+import type { CaptchaChallengeInfo } from "../services/captchaHandoff.js";
+
+// Shared response schema used by both the search service and the MCP tools.
+// Bump this whenever a field is removed or its meaning changes.
+export const RESPONSE_SCHEMA_VERSION = "1.0";
+
+export type { QueryDomain, DomainClassification, ScoreExplanation, SourceRule, SearchResult, PageContent, SearchVertical, SearchProviderName, SerpFeatures, SearchOperators, CacheMode, CacheStatus };
+
 export interface SearchOptions {
   limit?: number;
+  maxPages?: number; // Results pages followed until `limit` results survive filtering
   timeout?: number;
   stateFile?: string;
   noSaveState?: boolean;
   locale?: string;
   debug?: boolean;
+  enableQualityFiltering?: boolean;
+  minQualityScore?: number;
+  diversify?: boolean; // Re-rank so the first results cover different hosts and source types (default: true)
+  maxPerHost?: number; // Results per site before the rest of that site's results move to the end when diversifying
+  hostCaps?: { [host: string]: number }; // Per-site overrides of maxPerHost
+  explain?: boolean; // Attach a score breakdown to each result and return the results filtering dropped
+  maxRetries?: number;
+  concurrency?: number;
+  domain?: QueryDomain;
+  provider?: SearchProviderName;
+  providers?: SearchProviderName[]; // Meta-search: fuse results from all of these
+  cache?: CacheMode;
+  cacheFile?: string;
+  cacheTtl?: number; // Milliseconds a cached search counts as fresh
+  staleWhileRevalidate?: number; // Milliseconds a stale entry is still served while refreshing
+  fetchContent?: boolean; // Visit the top results and extract their readable content
+  fetchContentCount?: number;
+  contentTokenBudget?: number; // Approximate tokens of content returned per page
+  blockPrivateNetworks?: boolean; // Refuse content fetches to loopback, link-local and private addresses
+  clientId?: string; // Client the search runs for, which alone may see and resolve its handed-off CAPTCHAs
+  serpFeatures?: boolean; // Include featured snippet, People also ask, knowledge panel, ... sections
+  operators?: SearchOperators; // Site, phrase, file type, date, language, region and safe-search restrictions
+  vertical?: SearchVertical; // Results tab to search (default: web)
+  signal?: AbortSignal; // Aborts the search, closing its in-flight pages
+  onProgress?: (progress: SearchProgress) => void; // Called on every status change of each query
+  fallback?: SearchFallback[]; // Tried in order while the provider is paused for CAPTCHAs
 }
 
-export interface SearchResult {
-  title: string;
-  link: string;
-  snippet: string;
+// Where a query goes when its provider is rate limited: the cache (however old) or another engine
+export type SearchFallback = 'cache' | SearchProviderName;
+
+// Stages a query goes through; the last two are final
+export type SearchStatus = 'queued' | 'navigating' | 'captcha' | 'extracting' | 'filtering' | 'completed' | 'failed';
+
+export interface SearchProgress {
+  query: string;
+  queryIndex?: number; // Position in the queries of a multi-query search
+  status: SearchStatus;
+  provider?: SearchProviderName;
+  response?: SearchResponse; // Set once the query completed or failed
+  challenge?: CaptchaChallengeInfo; // With the captcha status, when the CAPTCHA was handed off to the client
 }
 
 export interface SearchResponse {
   query: string;
   results: SearchResult[];
+  filteredResults?: SearchResult[]; // Explain mode: results dropped for scoring below the threshold
+  success: boolean;
+  provider?: SearchProviderName;
+  providers?: SearchProviderName[]; // Meta-search: providers that returned results
+  domain?: QueryDomain;
+  domainClassification?: DomainClassification; // Ranked domain scores, when the domain was detected
+  duration?: number;
+  resultCount?: number;
+  error?: string;
+  cacheStatus?: CacheStatus;
+  cachedAt?: string;
+  serpFeatures?: SerpFeatures;
+  retryAfter?: number; // Seconds until a provider paused for CAPTCHAs is searched again
+  fallbackFrom?: SearchProviderName; // The paused provider a fallback answered for
+}
+
+// Progress of a tool call, sent to clients that asked for it with a progress token
+export interface ToolProgress {
+  progress: number; // Never decreases within a call
+  total?: number;
+  message?: string;
+  data?: Record<string, unknown>; // Structured details, e.g. a finished query's response
+}
+
+// Server-lifetime resources handed to every tool call, plus the call's own cancellation and progress hooks
+export interface ToolContext {
+  browserPool?: BrowserPool;
+  remote?: boolean; // Set for HTTP clients, which must not reach the server's own network or pick files on it
+  allowRemoteWrites?: boolean; // Let remote clients change the source rules and record feedback in the server's files
+  clientId?: string; // Client the server is serving, owner of the CAPTCHAs its searches hand off
+  signal?: AbortSignal;
+  onProgress?: (progress: ToolProgress) => void;
 }
 
 export interface MultiSearchResponse {
+  schemaVersion: string;
   searches: SearchResponse[];
 }
+
+export interface AnalyzeResultsResponse {
+  schemaVersion: string;
+  query: string;
+  domain: QueryDomain;
+  inputCount: number;
+  results: SearchResult[];
+  filteredResults?: SearchResult[]; // Explain mode: results dropped for scoring below the threshold
+  stats: {
+    totalResults: number;
+    averageScore: number;
+    highQualityCount: number;
+    sourceTypeDistribution: { [key: string]: number };
+    commonIssues: { [key: string]: number };
+    detectedDomain?: QueryDomain;
+    domainClassification?: DomainClassification;
+    domainSpecificStats?: any;
+  };
+  insights: {
+    domain: QueryDomain;
+    insights: string[];
+    recommendations: string[];
+  };
+}
+
+export interface FetchPageResponse {
+  schemaVersion: string;
+  pages: PageContent[];
+}
+
+export interface RateResultResponse {
+  schemaVersion: string;
+  query: string;
+  domain: QueryDomain;
+  link: string;
+  relevance: number;
+  totalJudgments: number;
+}
+
+export interface SourceRulesResponse {
+  schemaVersion: string;
+  file: string; // Rules file changes are saved to
+  domain?: QueryDomain; // Set when listing the rules for one domain
+  rules: SourceRule[];
+}
+
+export interface ResolveCaptchaResponse {
+  schemaVersion: string;
+  challenge?: CaptchaChallengeInfo; // The challenge acted on
+  state?: 'resolved' | 'pending' | 'abandoned';
+  pending: CaptchaChallengeInfo[]; // Challenges still waiting after this call
+}
+
+export interface SetSourceRuleResponse {
+  schemaVersion: string;
+  file: string;
+  rule?: SourceRule; // The rule as stored, unless it was removed
+  removed: boolean;
+  totalRules: number;
+}
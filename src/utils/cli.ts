@@ -0,0 +1,26 @@
+import * as path from "path";
+
+/**
+ * Values of a repeatable command line option, given as "--name value" or "--name=value"
+ */
+export function getArgValues(name: string, argv: string[] = process.argv): string[] {
+  const values: string[] = [];
+
+  argv.forEach((arg, index) => {
+    if (arg === name && argv[index + 1] !== undefined) {
+      values.push(argv[index + 1]);
+    } else if (arg.startsWith(`${name}=`)) {
+      values.push(arg.slice(name.length + 1));
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Domain files or directories from G_SEARCH_DOMAINS (path-delimiter separated) and repeated --domains flags
+ */
+export function getDomainPaths(): string[] {
+  const paths = (process.env.G_SEARCH_DOMAINS || "").split(path.delimiter).filter(Boolean);
+  return [...paths, ...getArgValues("--domains")];
+}
@@ -0,0 +1,90 @@
+/**
+ * Caps how many tasks run at once for each key (e.g. each HTTP client); extra tasks wait their turn
+ */
+export class ConcurrencyLimiter {
+  private active = new Map<string, number>();
+  private waiting = new Map<string, Array<() => void>>();
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`Concurrency limit must be a positive integer, got ${limit}`);
+    }
+  }
+
+  /**
+   * Run the task once the key has a free slot. Waiting ends with REQUEST_CANCELLED when the signal aborts.
+   */
+  async run<T>(key: string, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(key, signal);
+    try {
+      return await task();
+    } finally {
+      this.release(key);
+    }
+  }
+
+  /**
+   * Running and queued task counts per key, for logging and health reporting
+   */
+  stats(): Record<string, { active: number; waiting: number }> {
+    const stats: Record<string, { active: number; waiting: number }> = {};
+    for (const [key, active] of this.active) {
+      stats[key] = { active, waiting: this.waiting.get(key)?.length ?? 0 };
+    }
+    return stats;
+  }
+
+  private async acquire(key: string, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error("REQUEST_CANCELLED");
+    }
+
+    const active = this.active.get(key) ?? 0;
+    if (active < this.limit) {
+      this.active.set(key, active + 1);
+      return;
+    }
+
+    // The releasing task hands its slot over, so the active count stays as it is
+    await new Promise<void>((resolve, reject) => {
+      const queue = this.waiting.get(key) ?? [];
+      const onAbort = () => {
+        const index = queue.indexOf(grant);
+        if (index >= 0) {
+          queue.splice(index, 1);
+          if (queue.length === 0 && this.waiting.get(key) === queue) {
+            this.waiting.delete(key);
+          }
+          reject(new Error("REQUEST_CANCELLED"));
+        }
+      };
+      const grant = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      queue.push(grant);
+      this.waiting.set(key, queue);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  private release(key: string): void {
+    const queue = this.waiting.get(key);
+    const next = queue?.shift();
+    if (queue && queue.length === 0) {
+      this.waiting.delete(key);
+    }
+
+    if (next) {
+      next();
+      return;
+    }
+
+    const active = (this.active.get(key) ?? 1) - 1;
+    if (active > 0) {
+      this.active.set(key, active);
+    } else {
+      this.active.delete(key);
+    }
+  }
+}
@@ -0,0 +1,95 @@
+const MONTHS: { [prefix: string]: number } = {
+  jan: 0, feb: 1, mar: 2, apr: 3, may: 4, jun: 5,
+  jul: 6, aug: 7, sep: 8, oct: 9, nov: 10, dec: 11,
+};
+
+const UNIT_MS: { [unit: string]: number } = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+const RELATIVE_PATTERN = /^(\d+|an?|one)\s+(second|sec|minute|min|hour|hr|day|week|month|year)s?\s+ago$/i;
+const MONTH_FIRST_PATTERN = /^([a-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})$/i;
+const DAY_FIRST_PATTERN = /^(\d{1,2})\s+([a-z]{3,9})\.?,?\s+(\d{4})$/i;
+const ISO_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Separators engines put between the date and the snippet text
+const DATE_PREFIX_PATTERN = /^(.{3,25}?)\s+(?:—|–|·|-|\.\.\.)\s+/;
+
+/**
+ * Resolve a month name or abbreviation to its zero-based index
+ */
+function parseMonth(name: string): number | undefined {
+  return MONTHS[name.slice(0, 3).toLowerCase()];
+}
+
+/**
+ * Build a UTC date, rejecting impossible days such as Feb 31
+ */
+function toUtcDate(year: number, month: number | undefined, day: number): Date | undefined {
+  if (month === undefined) {
+    return undefined;
+  }
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+}
+
+/**
+ * Parse a SERP date label into an ISO 8601 timestamp.
+ * Relative labels are resolved against `now`; returns undefined for anything unrecognised.
+ */
+export function parseSerpDate(label: string, now: Date = new Date()): string | undefined {
+  const text = label.trim().replace(/\s+/g, " ");
+
+  if (/^(just now|today)$/i.test(text)) {
+    return now.toISOString();
+  }
+  if (/^yesterday$/i.test(text)) {
+    return new Date(now.getTime() - UNIT_MS.day).toISOString();
+  }
+
+  const relative = text.match(RELATIVE_PATTERN);
+  if (relative) {
+    const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1;
+    const unit = relative[2].toLowerCase();
+    const date = new Date(now.getTime());
+
+    if (unit === "month") {
+      date.setUTCMonth(date.getUTCMonth() - amount);
+    } else if (unit === "year") {
+      date.setUTCFullYear(date.getUTCFullYear() - amount);
+    } else {
+      const normalizedUnit = unit === "sec" ? "second" : unit === "min" ? "minute" : unit === "hr" ? "hour" : unit;
+      date.setTime(date.getTime() - amount * UNIT_MS[normalizedUnit]);
+    }
+    return date.toISOString();
+  }
+
+  const monthFirst = text.match(MONTH_FIRST_PATTERN);
+  if (monthFirst) {
+    return toUtcDate(parseInt(monthFirst[3], 10), parseMonth(monthFirst[1]), parseInt(monthFirst[2], 10))?.toISOString();
+  }
+
+  const dayFirst = text.match(DAY_FIRST_PATTERN);
+  if (dayFirst) {
+    return toUtcDate(parseInt(dayFirst[3], 10), parseMonth(dayFirst[2]), parseInt(dayFirst[1], 10))?.toISOString();
+  }
+
+  const iso = text.match(ISO_PATTERN);
+  if (iso) {
+    return toUtcDate(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10))?.toISOString();
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse the date engines prefix snippets with ("Mar 4, 2024 — ...", "3 days ago · ...")
+ */
+export function parseSnippetDate(snippet: string, now: Date = new Date()): string | undefined {
+  const prefix = snippet.trim().match(DATE_PREFIX_PATTERN);
+  return prefix ? parseSerpDate(prefix[1], now) : undefined;
+}
@@ -0,0 +1,6 @@
+/**
+ * Get random delay between min and max milliseconds
+ */
+export function getRandomDelay(min: number, max: number): number {
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
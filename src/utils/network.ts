@@ -0,0 +1,56 @@
+import { lookup } from "dns/promises";
+import { BlockList, isIP } from "net";
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const PRIVATE_NETWORKS = new BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+].forEach(([network, prefix]) => PRIVATE_NETWORKS.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+].forEach(([network, prefix]) => PRIVATE_NETWORKS.addSubnet(network as string, prefix as number, "ipv6"));
+
+/**
+ * Whether an IP address belongs to a network remote clients must not reach through the server
+ */
+export function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked as IPv4
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+  if (family === 0) {
+    return true; // Not an address we understand; refuse rather than guess
+  }
+  return PRIVATE_NETWORKS.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Throw unless the URL is http(s) and every address its host resolves to is public
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "http:" && protocol !== "https:") {
+    throw new Error(`Blocked ${protocol} URL: ${url}`);
+  }
+
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+  const blocked = addresses.find(isPrivateAddress);
+  if (blocked !== undefined) {
+    throw new Error(`Blocked request to private network address ${blocked} (${hostname})`);
+  }
+}
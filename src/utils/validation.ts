@@ -0,0 +1,348 @@
+import type { QueryDomain } from "../quality/types.js";
+import { QUERY_DOMAINS } from "../quality/config.js";
+import { domainRegistry } from "../quality/registry.js";
+import { canonicalHost } from "../quality/dedup.js";
+import { SEARCH_PROVIDERS, SEARCH_VERTICALS } from "../services/providers/index.js";
+import type { SearchProviderName, SearchVertical } from "../services/providers/index.js";
+import type { CacheMode } from "../services/resultCache.js";
+import type { SearchFallback, ToolContext } from "../types/index.js";
+import { SAFE_SEARCH_LEVELS, FRESHNESS_PERIODS } from "../services/providers/index.js";
+import type { SearchOperators, SafeSearchLevel, FreshnessPeriod } from "../services/providers/index.js";
+
+export const CACHE_MODES: CacheMode[] = ["enabled", "disabled", "refresh", "only"];
+export const SEARCH_FALLBACKS: SearchFallback[] = ["cache", ...SEARCH_PROVIDERS];
+import { logger } from "./logger.js";
+
+/**
+ * Parse an optional numeric tool argument, rejecting values outside [min, max]
+ */
+export function parseOptionalNumber(value: unknown, name: string, min: number, max: number): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+    logger.error(`[Error] Invalid ${name}: ${value}`);
+    throw new Error(`${name} must be a number between ${min} and ${max}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse an optional file path tool argument; clients of a shared HTTP server may not pick files on it
+ */
+export function parseOptionalFilePath(value: unknown, name: string, remote = false): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || value.trim() === "") {
+    logger.error(`[Error] Invalid ${name}: ${value}`);
+    throw new Error(`${name} must be a non-empty file path`);
+  }
+  if (remote) {
+    logger.error(`[Error] ${name} refused for a remote client`);
+    throw new Error(`${name} cannot be set by clients of a shared HTTP server`);
+  }
+
+  return value.trim();
+}
+
+/**
+ * Refuse a tool that writes the server's files (source rules, feedback) to a remote client,
+ * unless the server was started with --allow-remote-writes
+ */
+export function assertServerWritesAllowed(context: ToolContext, tool: string): void {
+  if (context.remote && !context.allowRemoteWrites) {
+    logger.error(`[Error] ${tool} refused for a remote client`);
+    throw new Error(`${tool} cannot be used by clients of a shared HTTP server unless it runs with --allow-remote-writes`);
+  }
+}
+
+/**
+ * Parse an optional integer tool argument, rejecting values outside [min, max]
+ */
+export function parseOptionalInteger(value: unknown, name: string, min: number, max: number): number | undefined {
+  const parsed = parseOptionalNumber(value, name, min, max);
+  if (parsed !== undefined && !Number.isInteger(parsed)) {
+    logger.error(`[Error] Invalid ${name}: ${value}`);
+    throw new Error(`${name} must be an integer between ${min} and ${max}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse an optional forced query domain
+ */
+export function parseOptionalDomain(value: unknown): QueryDomain | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  // Built-in domains plus those loaded from domain files at startup
+  const domains: string[] = [...QUERY_DOMAINS, ...domainRegistry.names()];
+  if (typeof value !== "string" || !domains.includes(value)) {
+    logger.error(`[Error] Invalid domain: ${value}`);
+    throw new Error(`domain must be one of: ${domains.join(", ")}`);
+  }
+
+  return value as QueryDomain;
+}
+
+/**
+ * Parse an optional search provider name
+ */
+export function parseOptionalProvider(value: unknown): SearchProviderName | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!SEARCH_PROVIDERS.includes(value as SearchProviderName)) {
+    logger.error(`[Error] Invalid provider: ${value}`);
+    throw new Error(`provider must be one of: ${SEARCH_PROVIDERS.join(", ")}`);
+  }
+
+  return value as SearchProviderName;
+}
+
+/**
+ * Parse an optional list of search providers for meta-search
+ */
+export function parseOptionalProviders(value: unknown): SearchProviderName[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.length === 0) {
+    logger.error(`[Error] Invalid providers: ${value}`);
+    throw new Error("providers must be a non-empty array of provider names");
+  }
+
+  return Array.from(new Set(value.map(provider => parseOptionalProvider(provider)!)));
+}
+
+/**
+ * Parse an optional list of fallbacks for rate-limited providers
+ */
+export function parseOptionalFallback(value: unknown): SearchFallback[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some(fallback => !SEARCH_FALLBACKS.includes(fallback))) {
+    logger.error(`[Error] Invalid fallback: ${value}`);
+    throw new Error(`fallback must be an array of: ${SEARCH_FALLBACKS.join(", ")}`);
+  }
+
+  return Array.from(new Set(value as SearchFallback[]));
+}
+
+/**
+ * Parse an optional search vertical
+ */
+export function parseOptionalVertical(value: unknown): SearchVertical | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!SEARCH_VERTICALS.includes(value as SearchVertical)) {
+    logger.error(`[Error] Invalid vertical: ${value}`);
+    throw new Error(`vertical must be one of: ${SEARCH_VERTICALS.join(", ")}`);
+  }
+
+  return value as SearchVertical;
+}
+
+/**
+ * Parse an optional result cache mode
+ */
+export function parseOptionalCacheMode(value: unknown): CacheMode | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!CACHE_MODES.includes(value as CacheMode)) {
+    logger.error(`[Error] Invalid cache mode: ${value}`);
+    throw new Error(`cache must be one of: ${CACHE_MODES.join(", ")}`);
+  }
+
+  return value as CacheMode;
+}
+
+// Hostname with an optional path prefix, e.g. "docs.python.org" or "github.com/nim-lang"
+const SITE_PATTERN = /^([a-z0-9-]+\.)+[a-z0-9-]{2,}(\/\S*)?$/i;
+const HOST_PATTERN = /^([a-z0-9-]+\.)+[a-z0-9-]{2,}$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse optional per-site result caps, keyed the way the diversity re-ranking groups results
+ * ("www.", mobile and AMP host prefixes dropped, lowercased)
+ */
+export function parseOptionalHostCaps(value: unknown): { [host: string]: number } | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    logger.error(`[Error] Invalid hostCaps: ${JSON.stringify(value)}`);
+    throw new Error("hostCaps must be an object mapping hostnames to result counts");
+  }
+
+  const caps: { [host: string]: number } = {};
+  for (const [host, cap] of Object.entries(value as Record<string, unknown>)) {
+    if (!HOST_PATTERN.test(host.trim())) {
+      logger.error(`[Error] Invalid hostCaps host: ${host}`);
+      throw new Error(`hostCaps keys must be hostnames, got "${host}"`);
+    }
+    const parsed = parseOptionalInteger(cap, `hostCaps.${host}`, 0, 100);
+    if (parsed !== undefined) {
+      caps[canonicalHost(`https://${host.trim()}`)] = parsed;
+    }
+  }
+
+  return Object.keys(caps).length > 0 ? caps : undefined;
+}
+
+/**
+ * Reject an invalid search operator
+ */
+function invalidOperator(name: string, value: unknown, message: string): never {
+  logger.error(`[Error] Invalid ${name}: ${JSON.stringify(value)}`);
+  throw new Error(`${name} ${message}`);
+}
+
+/**
+ * Parse an optional list of non-empty strings, trimming each entry
+ */
+function parseStringList(value: unknown, name: string, pattern?: RegExp): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string" || !item.trim())) {
+    invalidOperator(name, value, "must be an array of non-empty strings");
+  }
+
+  const items = (value as string[]).map(item => item.trim());
+  const invalid = pattern ? items.find(item => !pattern.test(item)) : undefined;
+  if (invalid !== undefined) {
+    invalidOperator(name, invalid, "contains an invalid entry");
+  }
+
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+}
+
+/**
+ * Parse an optional ISO date (YYYY-MM-DD)
+ */
+function parseOptionalIsoDate(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "string" || !ISO_DATE_PATTERN.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    invalidOperator(name, value, "must be a date in YYYY-MM-DD format");
+  }
+
+  return value as string;
+}
+
+/**
+ * Parse a date range object with an optional ISO after and/or before date
+ */
+function parseDateRange(value: unknown, name: string): { after?: string; before?: string } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    invalidOperator(name, value, "must be an object with after and/or before");
+  }
+
+  const range = value as Record<string, unknown>;
+  const after = parseOptionalIsoDate(range.after, `${name}.after`);
+  const before = parseOptionalIsoDate(range.before, `${name}.before`);
+  if (!after && !before) {
+    invalidOperator(name, value, "must set after and/or before");
+  }
+  if (after && before && after > before) {
+    invalidOperator(name, value, "after must not be later than before");
+  }
+
+  return { after, before };
+}
+
+/**
+ * Parse optional structured search operators
+ */
+export function parseOptionalOperators(value: unknown): SearchOperators | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  if (typeof value !== "object" || Array.isArray(value)) {
+    invalidOperator("operators", value, "must be an object");
+  }
+
+  const raw = value as Record<string, unknown>;
+  const operators: SearchOperators = {
+    sites: parseStringList(raw.sites, "operators.sites", SITE_PATTERN)?.map(site => site.toLowerCase()),
+    excludeSites: parseStringList(raw.excludeSites, "operators.excludeSites", SITE_PATTERN)?.map(site => site.toLowerCase()),
+    exactPhrases: parseStringList(raw.exactPhrases, "operators.exactPhrases", /^[^"]+$/),
+    excludeTerms: parseStringList(raw.excludeTerms, "operators.excludeTerms", /^[^"]+$/),
+  };
+
+  const overlapping = operators.sites?.find(site => operators.excludeSites?.includes(site));
+  if (overlapping) {
+    invalidOperator("operators.sites", overlapping, "cannot also be listed in operators.excludeSites");
+  }
+
+  if (raw.fileType !== undefined && raw.fileType !== null) {
+    const fileType = String(raw.fileType).trim().replace(/^\./, "").toLowerCase();
+    if (!/^[a-z0-9]{1,10}$/.test(fileType)) {
+      invalidOperator("operators.fileType", raw.fileType, "must be a file extension such as pdf or docx");
+    }
+    operators.fileType = fileType;
+  }
+
+  if (raw.dateRange !== undefined && raw.dateRange !== null) {
+    operators.dateRange = parseDateRange(raw.dateRange, "operators.dateRange");
+  }
+
+  if (raw.freshness !== undefined && raw.freshness !== null) {
+    if (typeof raw.freshness === "string") {
+      if (!FRESHNESS_PERIODS.includes(raw.freshness as FreshnessPeriod)) {
+        invalidOperator("operators.freshness", raw.freshness, `must be one of: ${FRESHNESS_PERIODS.join(", ")}, or an object with after and/or before`);
+      }
+      operators.freshness = raw.freshness as FreshnessPeriod;
+    } else {
+      operators.freshness = parseDateRange(raw.freshness, "operators.freshness");
+    }
+  }
+
+  if (raw.language !== undefined && raw.language !== null) {
+    if (typeof raw.language !== "string" || !/^[a-z]{2}$/i.test(raw.language)) {
+      invalidOperator("operators.language", raw.language, "must be a two-letter ISO 639-1 language code");
+    }
+    operators.language = (raw.language as string).toLowerCase();
+  }
+
+  if (raw.region !== undefined && raw.region !== null) {
+    if (typeof raw.region !== "string" || !/^[a-z]{2}$/i.test(raw.region)) {
+      invalidOperator("operators.region", raw.region, "must be a two-letter ISO 3166-1 country code");
+    }
+    operators.region = (raw.region as string).toUpperCase();
+  }
+
+  if (raw.safeSearch !== undefined && raw.safeSearch !== null) {
+    if (!SAFE_SEARCH_LEVELS.includes(raw.safeSearch as SafeSearchLevel)) {
+      invalidOperator("operators.safeSearch", raw.safeSearch, `must be one of: ${SAFE_SEARCH_LEVELS.join(", ")}`);
+    }
+    operators.safeSearch = raw.safeSearch as SafeSearchLevel;
+  }
+
+  // Drop unset fields so equal operators describe (and cache) identically
+  const compact = Object.fromEntries(
+    Object.entries(operators).filter(([, field]) => field !== undefined)
+  ) as SearchOperators;
+  return Object.keys(compact).length > 0 ? compact : undefined;
+}
@@ -0,0 +1,74 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Browser } from "playwright";
+import { BrowserPool } from "../src/services/browserPool.js";
+import { browserInstalled } from "./helpers/fixtureServer.js";
+
+const createContext = (browser: Browser) => browser.newContext();
+
+describe.skipIf(!browserInstalled)("BrowserPool", () => {
+  let pool: BrowserPool;
+
+  afterEach(async () => {
+    await pool?.close();
+  });
+
+  it("keeps one warm context per key across leases", async () => {
+    pool = new BrowserPool();
+    const first = await pool.lease("google|en-US", createContext);
+    await first.page.close();
+    const second = await pool.lease("google|en-US", createContext);
+
+    expect(second.context).toBe(first.context);
+    expect(pool.stats()).toMatchObject({ connected: true, contexts: 1, openPages: 1 });
+
+    const other = await pool.lease("bing|en-US", createContext);
+    expect(other.context).not.toBe(first.context);
+    expect(pool.stats().contexts).toBe(2);
+  }, 30000);
+
+  it("gives the page slot back when a lease fails, and creates the context on the next lease", async () => {
+    pool = new BrowserPool({ maxPages: 1 });
+    await expect(pool.lease("google|en-US", async () => { throw new Error("context setup failed"); }))
+      .rejects.toThrow("context setup failed");
+    expect(pool.stats()).toMatchObject({ contexts: 0, openPages: 0 });
+
+    const lease = await pool.lease("google|en-US", createContext);
+    expect(lease.page.isClosed()).toBe(false);
+    expect(pool.stats()).toMatchObject({ contexts: 1, openPages: 1 });
+  }, 30000);
+
+  it("queues leases beyond maxPages until a page is closed", async () => {
+    pool = new BrowserPool({ maxPages: 1 });
+    const first = await pool.lease("google|en-US", createContext);
+
+    let granted = false;
+    const second = pool.lease("google|en-US", createContext).then(lease => {
+      granted = true;
+      return lease;
+    });
+    await vi.waitFor(() => expect(pool.stats().waiting).toBe(1));
+    expect(granted).toBe(false);
+
+    await first.page.close();
+    expect((await second).context).toBe(first.context);
+  }, 30000);
+
+  it("drops a closed context, so the next lease starts a fresh one", async () => {
+    pool = new BrowserPool();
+    const first = await pool.lease("google|en-US", createContext);
+    await first.context.close();
+    expect(pool.stats().contexts).toBe(0);
+
+    const second = await pool.lease("google|en-US", createContext);
+    expect(second.context).not.toBe(first.context);
+  }, 30000);
+
+  it("reaps idle contexts, then the browser", async () => {
+    pool = new BrowserPool({ idleTimeout: 50, reapInterval: 20 });
+    const lease = await pool.lease("google|en-US", createContext);
+    await lease.page.close();
+
+    await vi.waitFor(() => expect(pool.stats()).toMatchObject({ connected: false, contexts: 0 }), { timeout: 5000 });
+    expect(lease.browser.isConnected()).toBe(false);
+  }, 30000);
+});
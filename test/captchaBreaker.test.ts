@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CaptchaCircuitBreaker } from "../src/services/captchaBreaker.js";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Opens the circuit with the default five samples, all CAPTCHAs
+function trip(breaker: CaptchaCircuitBreaker): void {
+  for (let i = 0; i < 5; i++) {
+    breaker.recordCaptcha("google");
+  }
+}
+
+describe("CaptchaCircuitBreaker", () => {
+  it("needs five samples before the CAPTCHA rate can trip it", () => {
+    const breaker = new CaptchaCircuitBreaker({ baseBackoff: 1000 });
+    for (let i = 0; i < 4; i++) {
+      breaker.recordCaptcha("google");
+    }
+    expect(breaker.retryAfter("google")).toBeUndefined();
+
+    breaker.recordCaptcha("google");
+    expect(breaker.retryAfter("google")).toBe(1);
+  });
+
+  it("does not start the trial until a search is admitted", () => {
+    const breaker = new CaptchaCircuitBreaker({ baseBackoff: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    // Checking before the queue leaves the trial for whichever search reaches the provider first
+    expect(breaker.retryAfter("google")).toBeUndefined();
+    expect(breaker.retryAfter("google")).toBeUndefined();
+
+    const trial = breaker.admit("google");
+    expect(trial.trial).toBeDefined();
+    expect(breaker.admit("google")).toEqual({ retryAfter: 5 });
+    expect(breaker.status().google?.state).toBe("half-open");
+  });
+
+  it("lets the next search try when the trial ends without an outcome", () => {
+    const breaker = new CaptchaCircuitBreaker({ baseBackoff: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    const first = breaker.admit("google");
+    breaker.endTrial("google", first.trial!);
+
+    const second = breaker.admit("google");
+    expect(second.retryAfter).toBeUndefined();
+    expect(second.trial).toBeDefined();
+  });
+
+  it("closes on a successful trial and reopens for twice as long on a CAPTCHA", () => {
+    const breaker = new CaptchaCircuitBreaker({ baseBackoff: 1000 });
+    trip(breaker);
+    vi.advanceTimersByTime(1000);
+
+    const failed = breaker.admit("google");
+    breaker.recordCaptcha("google");
+    breaker.endTrial("google", failed.trial!);
+    expect(breaker.retryAfter("google")).toBe(2);
+
+    vi.advanceTimersByTime(2000);
+    const succeeded = breaker.admit("google");
+    breaker.recordSuccess("google");
+    breaker.endTrial("google", succeeded.trial!);
+    expect(breaker.status().google?.state).toBe("closed");
+    expect(breaker.admit("google")).toEqual({});
+  });
+});
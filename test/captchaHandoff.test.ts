@@ -0,0 +1,33 @@
+import type { BrowserContext, Page } from "playwright";
+import { describe, expect, it, vi } from "vitest";
+import { CaptchaHandoff } from "../src/services/captchaHandoff.js";
+import { GoogleSearchProvider } from "../src/services/providers/google.js";
+
+// Just enough of a page and context for a challenge resolved by importing cookies
+const page = { screenshot: async () => Buffer.from("png"), url: () => "https://www.google.com/sorry/index" } as unknown as Page;
+const context = { addCookies: vi.fn(async () => {}) } as unknown as BrowserContext;
+
+describe("CaptchaHandoff", () => {
+  it("keeps each client's challenges to itself", async () => {
+    const handoff = new CaptchaHandoff();
+    handoff.configure({ enabled: true });
+
+    let challengeId = "";
+    const waiting = handoff.handOff(page, context, new GoogleSearchProvider(), "query", undefined, challenge => {
+      challengeId = challenge.id;
+    }, "alice");
+    await vi.waitFor(() => expect(challengeId).not.toBe(""));
+
+    expect(handoff.list("alice").map(challenge => challenge.id)).toEqual([challengeId]);
+    expect(handoff.list("bob")).toEqual([]);
+    expect(handoff.screenshot(challengeId, "bob")).toBeUndefined();
+    await expect(handoff.resolve(challengeId, { action: 'abandon' }, "bob")).rejects.toThrow("No pending CAPTCHA");
+
+    const cookies = { cookies: [{ name: "NID", value: "1", domain: ".google.com", path: "/" }] };
+    await expect(handoff.resolve(`captcha://${challengeId}`, { action: 'cookies', storageState: cookies }, "alice"))
+      .resolves.toMatchObject({ state: 'resolved' });
+    await waiting;
+    expect(context.addCookies).toHaveBeenCalledWith(cookies.cookies);
+    expect(handoff.list("alice")).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { classifyQueryDomains, type DomainCandidate } from "../src/quality/classifier.js";
+import { defaultQualityConfig } from "../src/quality/config.js";
+import { DomainRegistry } from "../src/quality/registry.js";
+import { SourceRuleSet } from "../src/quality/sourceRules.js";
+import type { DomainConfig } from "../src/quality/types.js";
+
+const classification = { generalPrior: 0.5, synonymWeight: 0.8, blendRatio: 0.5, maxBlendedDomains: 3 };
+
+function candidate(domain: string, config: Partial<DomainConfig>): DomainCandidate {
+  return {
+    domain,
+    config: { minTitleLength: 3, minSnippetLength: 20, minRelevantWords: 1, authorityBoost: 0.5, keywords: [], ...config },
+  };
+}
+
+describe("classifyQueryDomains", () => {
+  const languages = [
+    candidate("javascript", {
+      keywords: ["javascript", "js", "tutorial"],
+      keywordWeights: { tutorial: 0.1 },
+      synonyms: { javascript: ["ecmascript", "js"] },
+    }),
+    candidate("nim", { keywords: ["nim", "proc"] }),
+  ];
+
+  it("stays general until a domain's keywords outweigh the general prior", () => {
+    expect(classifyQueryDomains("a short tutorial", languages, classification).domain).toBe("general");
+    expect(classifyQueryDomains("javascript tutorial", languages, classification).domain).toBe("javascript");
+  });
+
+  it("matches keywords as whole terms", () => {
+    expect(classifyQueryDomains("jsx and nimbus", languages, classification).domain).toBe("general");
+  });
+
+  it("credits a synonym with a share of its keyword's weight, once per keyword", () => {
+    const synonym = classifyQueryDomains("ecmascript proposals", languages, classification);
+    expect(synonym.domain).toBe("javascript");
+    expect(synonym.distribution[0]).toMatchObject({ score: 0.8, matched: ["ecmascript"] });
+
+    const both = classifyQueryDomains("javascript ecmascript", languages, classification);
+    expect(both.distribution[0]).toMatchObject({ score: 1, matched: ["javascript"] });
+  });
+
+  it("reports a probability distribution over every domain, best first", () => {
+    const result = classifyQueryDomains("nim proc vs js", languages, classification);
+    expect(result.distribution.map(entry => entry.domain)).toEqual(["nim", "javascript", "general"]);
+    expect(result.confidence).toBeCloseTo(2 / 3.5);
+    expect(result.distribution.reduce((sum, entry) => sum + entry.probability, 0)).toBeCloseTo(1);
+  });
+
+  it("gives ties to the earlier candidate", () => {
+    const tied = [candidate("first", { keywords: ["shared"] }), candidate("second", { keywords: ["shared"] })];
+    expect(classifyQueryDomains("shared", tied, classification).domain).toBe("first");
+  });
+});
+
+describe("SearchQualityAnalyzer classification", () => {
+  const result = {
+    title: "Calling Nim procs from JavaScript",
+    link: "https://example.com/nim-js",
+    snippet: "How to compile a Nim proc to JavaScript and call it from a js module in the browser.",
+  };
+
+  it("blends the score of domains scoring close to the top one", () => {
+    const analyzer = new SearchQualityAnalyzer(defaultQualityConfig, new DomainRegistry(), new SourceRuleSet());
+    const explanation = analyzer.validateSearchResult(result, "nim proc to javascript", undefined, true).explanation!;
+
+    expect(explanation.domains.map(domain => domain.domain).sort()).toEqual(["javascript", "nim"]);
+    expect(explanation.domains.reduce((sum, domain) => sum + domain.weight, 0)).toBeCloseTo(1);
+    expect(explanation.score).toBeCloseTo(explanation.domains.reduce((sum, domain) => sum + domain.weight * domain.score, 0));
+  });
+
+  it("lets a domain loaded from a domain file win ties with a built-in domain", () => {
+    const registry = new DomainRegistry();
+    registry.register({ name: "deno", keywords: ["typescript"] });
+    const analyzer = new SearchQualityAnalyzer(defaultQualityConfig, registry, new SourceRuleSet());
+
+    expect(analyzer.detectQueryDomain("typescript decorators")).toBe("deno");
+    expect(new SearchQualityAnalyzer(defaultQualityConfig, new DomainRegistry(), new SourceRuleSet())
+      .detectQueryDomain("typescript decorators")).toBe("javascript");
+  });
+});
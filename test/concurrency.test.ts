@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { ConcurrencyLimiter } from "../src/utils/concurrency.js";
+
+// A task that runs until released
+function gate(): { task: () => Promise<void>; release: () => void; started: () => boolean } {
+  let release = () => {};
+  let started = false;
+  return {
+    task: () => {
+      started = true;
+      return new Promise<void>(resolve => { release = resolve; });
+    },
+    release: () => release(),
+    started: () => started,
+  };
+}
+
+describe("ConcurrencyLimiter", () => {
+  it("queues a client's calls beyond the limit without holding up other clients", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const first = gate();
+    const second = gate();
+    const other = gate();
+
+    const running = limiter.run("alice", first.task);
+    const queued = limiter.run("alice", second.task);
+    const elsewhere = limiter.run("bob", other.task);
+    await Promise.resolve();
+
+    expect(first.started()).toBe(true);
+    expect(second.started()).toBe(false);
+    expect(other.started()).toBe(true);
+    expect(limiter.stats()).toEqual({ alice: { active: 1, waiting: 1 }, bob: { active: 1, waiting: 0 } });
+
+    first.release();
+    await running;
+    await Promise.resolve();
+    expect(second.started()).toBe(true);
+
+    second.release();
+    other.release();
+    await Promise.all([queued, elsewhere]);
+    expect(limiter.stats()).toEqual({});
+  });
+
+  it("drops a cancelled call from the queue", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const first = gate();
+    const running = limiter.run("alice", first.task);
+
+    const controller = new AbortController();
+    const queued = limiter.run("alice", async () => "ran", controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow("REQUEST_CANCELLED");
+    expect(limiter.stats()).toEqual({ alice: { active: 1, waiting: 0 } });
+    first.release();
+    await running;
+  });
+
+  it("frees the slot when a call fails", async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    await expect(limiter.run("alice", async () => { throw new Error("boom"); })).rejects.toThrow("boom");
+    await expect(limiter.run("alice", async () => "ran")).resolves.toBe("ran");
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeUrl } from "../src/quality/dedup.js";
+
+describe("canonicalizeUrl", () => {
+  it.each([
+    ["https://www.example.com/amp/news/story-1", "example.com/news/story-1"],
+    ["https://example.com/amp", "example.com"],
+    ["https://m.example.com/news/story-1/amp/", "example.com/news/story-1"],
+    ["https://example-com.cdn.ampproject.org/c/s/example.com/news/story-1.amp.html", "example.com/news/story-1.html"],
+  ])("folds the AMP and mobile copy %s", (url, canonical) => {
+    expect(canonicalizeUrl(url)).toBe(canonical);
+  });
+
+  it("keeps paths that only start with amp", () => {
+    expect(canonicalizeUrl("https://example.com/amplifiers/tube")).toBe("example.com/amplifiers/tube");
+  });
+
+  it("drops tracking parameters but keeps ref, which can select a different page", () => {
+    expect(canonicalizeUrl("https://github.com/org/repo/blob/file.ts?utm_source=x&ref=v2&fbclid=1"))
+      .toBe("github.com/org/repo/blob/file.ts?ref=v2");
+    expect(canonicalizeUrl("https://example.com/post?ref_src=twsrc")).toBe("example.com/post");
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { parseOptionalHostCaps } from "../src/utils/validation.js";
+import type { SearchResult } from "../src/quality/types.js";
+
+function result(link: string, score: number): SearchResult {
+  return { title: `Page at ${link}`, link, snippet: `Snippet for ${link}`, score };
+}
+
+const results = [
+  result("https://www.a.com/1", 0.9),
+  result("https://a.com/2", 0.85),
+  result("https://m.a.com/3", 0.8),
+  result("https://b.com/1", 0.5),
+];
+
+describe("diversifyResults", () => {
+  const analyzer = new SearchQualityAnalyzer();
+
+  it("moves a site's results beyond its cap to the end instead of dropping them", () => {
+    const links = analyzer.diversifyResults(results, { maxPerHost: 1 }).map(r => r.link);
+    expect(links).toEqual(["https://www.a.com/1", "https://b.com/1", "https://a.com/2", "https://m.a.com/3"]);
+  });
+
+  it("applies per-site caps over the default", () => {
+    const links = analyzer.diversifyResults(results, { maxPerHost: 1, hostCaps: { "a.com": 2 } }).map(r => r.link);
+    expect(links.indexOf("https://a.com/2")).toBeLessThan(3);
+    expect(links[3]).toBe("https://m.a.com/3");
+  });
+});
+
+describe("parseOptionalHostCaps", () => {
+  it("keys caps the way results are grouped", () => {
+    expect(parseOptionalHostCaps({ "WWW.StackOverflow.com": 5, "m.medium.com": 0 }))
+      .toEqual({ "stackoverflow.com": 5, "medium.com": 0 });
+  });
+
+  it("rejects paths and non-integer caps", () => {
+    expect(() => parseOptionalHostCaps({ "github.com/org": 2 })).toThrow("hostCaps keys must be hostnames");
+    expect(() => parseOptionalHostCaps({ "github.com": 1.5 })).toThrow("hostCaps.github.com must be an integer");
+  });
+});
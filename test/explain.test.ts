@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { defaultQualityConfig } from "../src/quality/config.js";
+import { DomainRegistry } from "../src/quality/registry.js";
+import { SourceRuleSet } from "../src/quality/sourceRules.js";
+import type { DomainScoreExplanation, SearchResult } from "../src/quality/types.js";
+
+const results: SearchResult[] = [
+  {
+    title: "Closures - JavaScript | MDN",
+    link: "https://developer.mozilla.org/en-US/docs/Web/JavaScript/Closures",
+    snippet: "A closure is the combination of a function bundled together with references to its surrounding state.",
+  },
+  {
+    title: "javascript closures explained",
+    link: "https://some-blog.net/posts/closures",
+    snippet: "How closures work in JavaScript, with a function example you can run in the console.",
+  },
+  {
+    title: "Buy",
+    link: "http://cheap-offers.biz/click",
+    snippet: "Click here",
+  },
+];
+
+function analyzer(config = defaultQualityConfig): SearchQualityAnalyzer {
+  return new SearchQualityAnalyzer(config, new DomainRegistry(), new SourceRuleSet());
+}
+
+function total(domain: DomainScoreExplanation): number {
+  return domain.base + domain.components.reduce((sum, component) => sum + component.contribution, 0) + domain.clampAdjustment;
+}
+
+describe("explain mode", () => {
+  it("breaks each score into a base, component contributions and a clamp adjustment that add up to it", () => {
+    for (const result of results) {
+      const explained = analyzer().validateSearchResult(result, "javascript closures", undefined, true);
+      const [domain] = explained.explanation!.domains;
+
+      expect(domain).toMatchObject({ domain: "javascript", method: "rules", weight: 1 });
+      expect(total(domain)).toBeCloseTo(explained.score!);
+      expect(explained.explanation!.score).toBe(explained.score);
+    }
+  });
+
+  it("names the rules behind a component and an authority boost capped at 1", () => {
+    const [domain] = analyzer().validateSearchResult(results[0], "javascript closures", undefined, true).explanation!.domains;
+    const authority = domain.components.find(component => component.component === "authority")!;
+
+    expect(authority.value).toBe(1);
+    expect(domain.score).toBe(1);
+    expect(authority.rules).toContain(`boost of 0.8 capped at 1: +${Math.round(authority.contribution * 1000) / 1000}`);
+    expect(domain.components.find(component => component.component === "url")!.rules.length).toBeGreaterThan(0);
+  });
+
+  it("explains learned model scores by their logit contributions", () => {
+    const config = {
+      ...defaultQualityConfig,
+      rankingModels: { javascript: { bias: -1, weights: { relevance: 2, url: 1 }, examples: 10 } },
+    };
+    const explained = analyzer(config).validateSearchResult(results[1], "javascript closures", undefined, true);
+    const [domain] = explained.explanation!.domains;
+
+    expect(domain.method).toBe("model");
+    expect(domain.base).toBe(-1);
+    expect(domain.unclamped).toBeCloseTo(total(domain));
+    expect(explained.score).toBeCloseTo(1 / (1 + Math.exp(-domain.unclamped)));
+  });
+
+  it("records the threshold results were held to and which ones it filtered", () => {
+    const filteredOut: SearchResult[] = [];
+    const kept = analyzer().applyQualityFiltering(results, "javascript closures", 0.5, undefined, true, filteredOut);
+
+    expect(kept.length).toBeGreaterThan(0);
+    expect(filteredOut.map(result => result.link)).toEqual(["http://cheap-offers.biz/click"]);
+    for (const result of kept) {
+      expect(result.explanation).toMatchObject({ threshold: 0.5, filtered: false });
+    }
+    expect(filteredOut[0].explanation).toMatchObject({ threshold: 0.5, filtered: true });
+  });
+
+  it("leaves results unexplained unless asked", () => {
+    expect(analyzer().validateSearchResult(results[1], "javascript closures").explanation).toBeUndefined();
+    expect(analyzer().applyQualityFiltering(results, "javascript closures")[0].explanation).toBeUndefined();
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { defaultQualityConfig } from "../src/quality/config.js";
+import { DomainRegistry } from "../src/quality/registry.js";
+import { SourceRuleSet } from "../src/quality/sourceRules.js";
+import type { SearchResult } from "../src/quality/types.js";
+import { parseSerpDate, parseSnippetDate } from "../src/utils/dates.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("parseSerpDate", () => {
+  const now = new Date("2024-03-10T12:00:00.000Z");
+
+  it("resolves relative labels against now", () => {
+    expect(parseSerpDate("3 days ago", now)).toBe("2024-03-07T12:00:00.000Z");
+    expect(parseSerpDate("an hour ago", now)).toBe("2024-03-10T11:00:00.000Z");
+    expect(parseSerpDate("2 weeks ago", now)).toBe("2024-02-25T12:00:00.000Z");
+    expect(parseSerpDate("1 month ago", now)).toBe("2024-02-10T12:00:00.000Z");
+    expect(parseSerpDate("Yesterday", now)).toBe("2024-03-09T12:00:00.000Z");
+    expect(parseSerpDate("just now", now)).toBe(now.toISOString());
+  });
+
+  it("reads absolute dates in the formats engines print", () => {
+    expect(parseSerpDate("Mar 4, 2024")).toBe("2024-03-04T00:00:00.000Z");
+    expect(parseSerpDate("September 30, 2023")).toBe("2023-09-30T00:00:00.000Z");
+    expect(parseSerpDate("4 Mar. 2024")).toBe("2024-03-04T00:00:00.000Z");
+    expect(parseSerpDate("2024-03-04")).toBe("2024-03-04T00:00:00.000Z");
+  });
+
+  it("rejects impossible dates and anything else", () => {
+    expect(parseSerpDate("Feb 30, 2024")).toBeUndefined();
+    expect(parseSerpDate("Smarch 4, 2024")).toBeUndefined();
+    expect(parseSerpDate("10 results")).toBeUndefined();
+  });
+});
+
+describe("parseSnippetDate", () => {
+  const now = new Date("2024-03-10T12:00:00.000Z");
+
+  it("reads the date engines prefix snippets with", () => {
+    expect(parseSnippetDate("Mar 4, 2024 — Ownership is a set of rules.", now)).toBe("2024-03-04T00:00:00.000Z");
+    expect(parseSnippetDate("3 days ago · The latest release adds…", now)).toBe("2024-03-07T12:00:00.000Z");
+  });
+
+  it("ignores snippets that do not start with a date", () => {
+    expect(parseSnippetDate("Ownership is a set of rules — see chapter 4.", now)).toBeUndefined();
+    expect(parseSnippetDate("Published Mar 4, 2024.", now)).toBeUndefined();
+  });
+});
+
+describe("recency decay", () => {
+  const registry = new DomainRegistry();
+  registry.register({ name: "security", keywords: ["cve"], recency: { halfLifeDays: 30, weight: 0.3 } });
+  const analyzer = new SearchQualityAnalyzer(defaultQualityConfig, registry, new SourceRuleSet());
+
+  function recency(domain: string, ageDays?: number, extra: Partial<SearchResult> = {}) {
+    const result: SearchResult = {
+      title: "Release notes and changes",
+      link: "https://example.com/notes",
+      snippet: "What changed in this release, with upgrade instructions and known issues.",
+      lastUpdated: ageDays === undefined ? undefined : new Date(Date.now() - ageDays * DAY_MS).toISOString(),
+      ...extra,
+    };
+    const explained = analyzer.validateSearchResult(result, "release notes", domain, true);
+    return {
+      component: explained.explanation!.domains[0].components.find(component => component.component === "recency")!,
+      issues: explained.issues ?? [],
+    };
+  }
+
+  it("rewards new pages, is neutral at the half-life and penalizes old pages", () => {
+    expect(recency("javascript", 0).component.value).toBeCloseTo(0.08, 3);
+    expect(recency("javascript", 730).component.value).toBeCloseTo(0, 3);
+    expect(recency("javascript", 730).component.rules).toEqual(["published 730 days ago, half-life 730 days: +0"]);
+
+    const old = recency("javascript", 3650);
+    expect(old.component.value).toBeLessThan(-0.07);
+    expect(old.issues).toContain("Outdated content");
+  });
+
+  it("decays news results on the news half-life whatever the domain", () => {
+    expect(recency("javascript", 7, { vertical: "news" }).component.value).toBeCloseTo(0, 3);
+    expect(recency("javascript", 7).component.value).toBeGreaterThan(0.07);
+  });
+
+  it("uses a domain file's recency when the config has none for the domain", () => {
+    expect(recency("security", 0).component.value).toBeCloseTo(0.3, 3);
+    expect(recency("security", 30).component.value).toBeCloseTo(0, 3);
+  });
+
+  it("leaves undated results alone", () => {
+    expect(recency("medical").component).toMatchObject({ value: 0, rules: [] });
+    expect(recency("medical", undefined, { lastUpdated: "sometime" }).component.value).toBe(0);
+  });
+});
@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { chromium, Browser, Page } from "playwright";
+import { extractGoogleSerpFeatures } from "../src/services/providers/googleSerpFeatures.js";
+import { browserInstalled, FixtureServer, serveFixtures } from "./helpers/fixtureServer.js";
+
+describe.skipIf(!browserInstalled)("extractGoogleSerpFeatures", () => {
+  let server: FixtureServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await serveFixtures();
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  }, 30000);
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  describe("with the primary selectors", () => {
+    beforeAll(async () => {
+      await page.goto(server.url("google-serp-features.html"));
+    });
+
+    it("extracts the featured snippet", async () => {
+      const { featuredSnippet } = await extractGoogleSerpFeatures(page);
+      expect(featuredSnippet).toEqual({
+        text: "Ada Lovelace is often regarded as the first computer programmer, having published an algorithm for the Analytical Engine in 1843.",
+        title: "Ada Lovelace - Wikipedia",
+        link: "https://en.wikipedia.org/wiki/Ada_Lovelace",
+        source: "en.wikipedia.org",
+      });
+    });
+
+    it("extracts People also ask once per question", async () => {
+      const { peopleAlsoAsk } = await extractGoogleSerpFeatures(page);
+      expect(peopleAlsoAsk).toEqual([
+        {
+          question: "What did Ada Lovelace invent?",
+          answer: "She wrote the first algorithm intended to be carried out by a machine.",
+          link: "https://www.britannica.com/biography/Ada-Lovelace",
+        },
+        { question: "Why is Ada Lovelace famous?" },
+      ]);
+    });
+
+    it("extracts the knowledge panel, skipping repeated and empty facts", async () => {
+      const { knowledgePanel } = await extractGoogleSerpFeatures(page);
+      expect(knowledgePanel).toEqual({
+        title: "Ada Lovelace",
+        subtitle: "English mathematician",
+        description: "Augusta Ada King, Countess of Lovelace was an English mathematician and writer.",
+        source: "https://en.wikipedia.org/wiki/Ada_Lovelace",
+        facts: [
+          { label: "Born", value: "December 10, 1815, London, United Kingdom" },
+          { label: "Parents", value: "Lord Byron, Lady Byron" },
+        ],
+      });
+    });
+
+    it("extracts top stories", async () => {
+      const { topStories } = await extractGoogleSerpFeatures(page);
+      expect(topStories).toEqual([
+        {
+          title: "Ada Lovelace Day celebrates women in science",
+          link: "https://www.theguardian.com/science/ada-lovelace-day",
+          source: "The Guardian",
+          published: "2 hours ago",
+        },
+        { title: "Lovelace letters go on display", link: "https://www.bbc.com/news/ada-lovelace-letters", source: "BBC" },
+      ]);
+    });
+
+    it("extracts videos", async () => {
+      const { videos } = await extractGoogleSerpFeatures(page);
+      expect(videos).toEqual([
+        {
+          title: "Ada Lovelace: The first computer programmer",
+          link: "https://www.youtube.com/watch?v=IZptxisyVqQ",
+          channel: "Biographics",
+          duration: "12:05",
+          published: "Dec 10, 2019",
+        },
+      ]);
+    });
+
+    it("extracts related searches without duplicates", async () => {
+      const { relatedSearches } = await extractGoogleSerpFeatures(page);
+      expect(relatedSearches).toEqual(["ada lovelace facts", "charles babbage"]);
+    });
+  });
+
+  describe("with the fallback selectors", () => {
+    beforeAll(async () => {
+      await page.goto(server.url("google-serp-features-fallback.html"));
+    });
+
+    it("extracts the featured snippet", async () => {
+      const { featuredSnippet } = await extractGoogleSerpFeatures(page);
+      expect(featuredSnippet).toEqual({
+        text: "asyncio is a library to write concurrent code using the async/await syntax.",
+        link: "https://docs.python.org/3/library/asyncio.html",
+      });
+    });
+
+    it("extracts People also ask from data-q and jsname blocks", async () => {
+      const { peopleAlsoAsk } = await extractGoogleSerpFeatures(page);
+      expect(peopleAlsoAsk).toEqual([
+        {
+          question: "Is asyncio multithreaded?",
+          answer: "No, asyncio runs coroutines on a single thread.",
+          link: "https://realpython.com/async-io-python/",
+        },
+        { question: "When should I use asyncio?" },
+      ]);
+    });
+
+    it("extracts the knowledge panel from the right-hand column", async () => {
+      const { knowledgePanel } = await extractGoogleSerpFeatures(page);
+      expect(knowledgePanel).toEqual({
+        title: "asyncio",
+        subtitle: "Python library",
+        description: "Standard library for asynchronous I/O.",
+        source: "https://docs.python.org/3/library/asyncio.html",
+        facts: [{ label: "License", value: "PSF License" }],
+      });
+    });
+
+    it("extracts top stories from news clusters only", async () => {
+      const { topStories } = await extractGoogleSerpFeatures(page);
+      expect(topStories).toEqual([
+        {
+          title: "Python 3.13 speeds up asyncio",
+          link: "https://www.infoworld.com/article/python-3-13-asyncio.html",
+          source: "InfoWorld",
+          published: "3 days ago",
+        },
+      ]);
+    });
+
+    it("extracts videos, reading the duration from its label", async () => {
+      const { videos } = await extractGoogleSerpFeatures(page);
+      expect(videos).toEqual([
+        {
+          title: "Python asyncio in 10 minutes",
+          link: "https://www.youtube.com/watch?v=t5Bo1Je9EmE",
+          channel: "mCoding",
+          duration: "10 minutes, 2 seconds",
+          published: "Mar 3, 2023",
+        },
+        { title: "Async IO explained", link: "https://www.youtube.com/watch?v=abc123" },
+      ]);
+    });
+
+    it("extracts related searches", async () => {
+      const { relatedSearches } = await extractGoogleSerpFeatures(page);
+      expect(relatedSearches).toEqual(["python asyncio example", "asyncio gather", "asyncio vs threading"]);
+    });
+  });
+
+  it("returns empty sections for a page without SERP features", async () => {
+    await page.goto(server.url("google-no-features.html"));
+    expect(await extractGoogleSerpFeatures(page)).toEqual({
+      featuredSnippet: undefined,
+      peopleAlsoAsk: [],
+      knowledgePanel: undefined,
+      topStories: [],
+      videos: [],
+      relatedSearches: [],
+    });
+  });
+});
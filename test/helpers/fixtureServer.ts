@@ -0,0 +1,42 @@
+import { createServer } from "http";
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { AddressInfo } from "net";
+import { fileURLToPath } from "url";
+import { chromium } from "playwright";
+
+const FIXTURES_DIR = fileURLToPath(new URL("../fixtures/", import.meta.url));
+
+// Browser tests need `npm run install-browser`; they are skipped without it
+export const browserInstalled = existsSync(chromium.executablePath());
+
+export interface FixtureServer {
+  url(path: string): string;
+  close(): Promise<void>;
+}
+
+/**
+ * Serve the saved pages in test/fixtures on a local port. The query string is ignored,
+ * so providers can navigate to their usual search URLs rooted at a fixture.
+ */
+export async function serveFixtures(): Promise<FixtureServer> {
+  const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    try {
+      const body = await readFile(FIXTURES_DIR + pathname.replace(/^\/+/, "").replace(/\.\./g, ""));
+      res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      res.end(body);
+    } catch (e) {
+      res.writeHead(404);
+      res.end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: path => `http://127.0.0.1:${port}/${path}`,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,95 @@
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { startHttpServer } from "../src/httpServer.js";
+
+// The search tool reads the --debug flag from the entry point, which would start a server
+vi.mock("../src/index.js", () => ({ isDebugMode: false }));
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+};
+
+describe("startHttpServer", () => {
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    server = await startHttpServer({ port: 0, authTokens: ["alice-token", "bob-token"] });
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  const post = (body: unknown, token?: string, sessionId?: string) => fetch(`${base}/mcp`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(sessionId ? { "Mcp-Session-Id": sessionId } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+  it("serves health checks without a token", async () => {
+    const res = await fetch(`${base}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: "ok", sessions: { streamableHttp: 0, sse: 0 } });
+  });
+
+  it("answers 401 without a valid bearer token", async () => {
+    for (const res of [await post(initialize), await post(initialize, "wrong-token"), await fetch(`${base}/sse`)]) {
+      expect(res.status).toBe(401);
+      expect(res.headers.get("www-authenticate")).toBe("Bearer");
+    }
+  });
+
+  it("opens a streamable HTTP session bound to the client that started it", async () => {
+    const opened = await post(initialize, "alice-token");
+    expect(opened.status).toBe(200);
+    expect((await opened.json()).result.serverInfo.name).toBe("g-search-mcp");
+    const sessionId = opened.headers.get("mcp-session-id")!;
+    expect(sessionId).toBeTruthy();
+
+    const listed = await post({ jsonrpc: "2.0", id: 2, method: "tools/list" }, "alice-token", sessionId);
+    expect((await listed.json()).result.tools.map((tool: { name: string }) => tool.name)).toContain("resolve_captcha");
+
+    expect((await post({ jsonrpc: "2.0", id: 3, method: "tools/list" }, "bob-token", sessionId)).status).toBe(404);
+
+    const closed = await fetch(`${base}/mcp`, { method: "DELETE", headers: { Authorization: "Bearer alice-token", "Mcp-Session-Id": sessionId } });
+    expect(closed.status).toBe(204);
+    expect((await post({ jsonrpc: "2.0", id: 4, method: "tools/list" }, "alice-token", sessionId)).status).toBe(404);
+  });
+
+  it("asks for an initialize request before a session exists", async () => {
+    const res = await post({ jsonrpc: "2.0", id: 1, method: "tools/list" }, "alice-token");
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.message).toContain("Mcp-Session-Id");
+  });
+
+  it("opens SSE sessions that only their client can post to", async () => {
+    const controller = new AbortController();
+    const res = await fetch(`${base}/sse`, { headers: { Authorization: "Bearer alice-token" }, signal: controller.signal });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/event-stream");
+
+    const { value } = await res.body!.getReader().read();
+    const endpoint = new TextDecoder().decode(value).match(/data: (\S+)/)![1];
+    expect(endpoint).toMatch(/^\/messages\?sessionId=/);
+
+    const foreign = await fetch(`${base}${endpoint}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer bob-token" },
+      body: JSON.stringify(initialize),
+    });
+    expect(foreign.status).toBe(404);
+    controller.abort();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { assertPublicUrl, isPrivateAddress } from "../src/utils/network.js";
+
+describe("isPrivateAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "::1",
+    "::",
+    "fd00::1",
+    "fe80::1",
+    "::ffff:127.0.0.1",
+    "::ffff:169.254.169.254",
+  ])("refuses %s", address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(["8.8.8.8", "172.32.0.1", "2606:4700::1111", "::ffff:8.8.8.8"])("allows %s", address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+
+  it("refuses what is not an IP address", () => {
+    expect(isPrivateAddress("localhost")).toBe(true);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects non-http schemes", async () => {
+    await expect(assertPublicUrl("file:///etc/passwd")).rejects.toThrow("Blocked file: URL");
+  });
+
+  it("rejects literal private hosts, IPv6 included", async () => {
+    await expect(assertPublicUrl("http://169.254.169.254/latest/meta-data/")).rejects.toThrow("private network address 169.254.169.254");
+    await expect(assertPublicUrl("http://[::1]:8080/")).rejects.toThrow("private network address ::1");
+  });
+
+  it("rejects hostnames that resolve to loopback", async () => {
+    await expect(assertPublicUrl("http://localhost:3000/")).rejects.toThrow("private network address");
+  });
+
+  it("accepts public addresses", async () => {
+    await expect(assertPublicUrl("https://8.8.8.8/")).resolves.toBeUndefined();
+  });
+});
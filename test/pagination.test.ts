@@ -0,0 +1,80 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { chromium, Browser, Page } from "playwright";
+import { BingSearchProvider, DuckDuckGoSearchProvider, GoogleSearchProvider } from "../src/services/providers/index.js";
+import { browserInstalled, FixtureServer, serveFixtures } from "./helpers/fixtureServer.js";
+
+const timeout = 10000;
+
+describe.skipIf(!browserInstalled)("goToNextPage", () => {
+  let server: FixtureServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await serveFixtures();
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  }, 30000);
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  function params(): URLSearchParams {
+    return new URL(page.url()).searchParams;
+  }
+
+  it("follows Google's next link", async () => {
+    await page.goto(server.url("google-paged.html?q=rust+ownership"));
+
+    expect(await new GoogleSearchProvider().goToNextPage(page, 1, timeout)).toBe(true);
+    expect(new URL(page.url()).pathname).toBe("/google-results.html");
+    expect(params().get("start")).toBe("10");
+  });
+
+  it("builds Google's next page from the query when there is no next link", async () => {
+    await page.goto(server.url("google-results.html?q=rust+ownership"));
+
+    expect(await new GoogleSearchProvider().goToNextPage(page, 2, timeout)).toBe(true);
+    expect(params().get("q")).toBe("rust ownership");
+    expect(params().get("start")).toBe("20");
+  });
+
+  it("stops when Google has no next link and no query to page through", async () => {
+    await page.goto(server.url("google-home.html"));
+    expect(await new GoogleSearchProvider().goToNextPage(page, 1, timeout)).toBe(false);
+  });
+
+  it("does not page Google image results, which load by scrolling", async () => {
+    await page.goto(server.url("google-paged.html?q=rust+ownership"));
+    expect(await new GoogleSearchProvider().goToNextPage(page, 1, timeout, "images")).toBe(false);
+    expect(new URL(page.url()).pathname).toBe("/google-paged.html");
+  });
+
+  it("follows Bing's next link, or offsets by first= without one", async () => {
+    const bing = new BingSearchProvider();
+
+    await page.goto(server.url("bing-results.html?q=javascript+promise"));
+    expect(await bing.goToNextPage(page, 1, timeout)).toBe(true);
+    expect(new URL(page.url()).pathname).toBe("/search");
+    expect(params().get("first")).toBe("11");
+
+    await page.goto(server.url("google-no-features.html?q=javascript+promise"));
+    expect(await bing.goToNextPage(page, 2, timeout)).toBe(true);
+    expect(params().get("first")).toBe("21");
+  });
+
+  it("submits DuckDuckGo's next page form and stops without one", async () => {
+    const duckduckgo = new DuckDuckGoSearchProvider();
+
+    await page.goto(server.url("duckduckgo-results.html?q=typescript+generics"));
+    const request = page.waitForRequest(request => request.method() === "POST");
+    expect(await duckduckgo.goToNextPage(page, 1, timeout)).toBe(true);
+    expect((await request).postData()).toContain("s=10");
+    expect(new URL(page.url()).pathname).toBe("/html/");
+
+    await page.goto(server.url("google-results.html?q=typescript+generics"));
+    expect(await duckduckgo.goToNextPage(page, 1, timeout)).toBe(false);
+  });
+});
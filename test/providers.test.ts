@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { chromium, Browser, Page } from "playwright";
+import { BingSearchProvider, DuckDuckGoSearchProvider, GoogleSearchProvider } from "../src/services/providers/index.js";
+import type { ProviderSearchContext } from "../src/services/providers/index.js";
+import { browserInstalled, FixtureServer, serveFixtures } from "./helpers/fixtureServer.js";
+
+const context: ProviderSearchContext = { savedState: {}, locale: "en-US", timeout: 10000 };
+
+describe("detectCaptcha", () => {
+  const google = new GoogleSearchProvider();
+  const duckduckgo = new DuckDuckGoSearchProvider();
+  const bing = new BingSearchProvider();
+
+  it("recognizes each engine's challenge pages", () => {
+    expect(google.detectCaptcha("https://www.google.com/sorry/index?continue=https://www.google.com/search%3Fq%3Dtest")).toBe(true);
+    expect(duckduckgo.detectCaptcha("https://duckduckgo.com/anomaly.js?sv=html")).toBe(true);
+    expect(bing.detectCaptcha("https://www.bing.com/turing/captcha/challenge?q=test")).toBe(true);
+  });
+
+  it("ignores challenge words in the query string", () => {
+    expect(google.detectCaptcha("https://www.google.com/search?q=recaptcha+docs")).toBe(false);
+    expect(google.detectCaptcha("https://www.google.com/search?q=unusual+traffic")).toBe(false);
+    expect(duckduckgo.detectCaptcha("https://html.duckduckgo.com/html/?q=coding+challenge")).toBe(false);
+    expect(bing.detectCaptcha("https://www.bing.com/search?q=recaptcha+docs&form=QBLH")).toBe(false);
+    expect(bing.detectCaptcha("https://www.bing.com/search?q=%2Fchallenge")).toBe(false);
+  });
+
+  it("treats unparseable URLs as no challenge", () => {
+    expect(bing.detectCaptcha("not a url")).toBe(false);
+  });
+});
+
+describe.skipIf(!browserInstalled)("provider result extraction", () => {
+  let server: FixtureServer;
+  let browser: Browser;
+  let page: Page;
+
+  beforeAll(async () => {
+    server = await serveFixtures();
+    browser = await chromium.launch();
+    page = await browser.newPage();
+  }, 30000);
+
+  afterAll(async () => {
+    await browser?.close();
+    await server?.close();
+  });
+
+  it("parses DuckDuckGo's HTML endpoint, unwrapping redirect links and skipping ads", async () => {
+    const provider = new DuckDuckGoSearchProvider(server.url("duckduckgo-results.html"));
+    await provider.search(page, "typescript generics", { ...context, operators: { safeSearch: 'strict' } });
+    await provider.waitForResults(page, context.timeout);
+
+    expect(new URL(page.url()).searchParams.get("kp")).toBe("1");
+    expect(await provider.extractResults(page, 10)).toEqual([
+      {
+        title: "TypeScript: Documentation - Generics",
+        link: "https://www.typescriptlang.org/docs/handbook/2/generics.html",
+        snippet: "A major part of software engineering is building components that not only have well-defined and consistent APIs, but are also reusable.",
+      },
+      {
+        title: "How to use generics with string literal types - Stack Overflow",
+        link: "https://stackoverflow.com/questions/46176165/ways-to-get-string-literal-type-of-array-values-without-enum-overhead",
+        snippet: "Use a const assertion and index the array type with number.",
+      },
+    ]);
+    expect(await provider.extractResults(page, 1)).toHaveLength(1);
+  });
+
+  it("parses Bing results, decoding ck/a links and skipping ads", async () => {
+    const provider = new BingSearchProvider(server.url("bing-results.html"));
+    await provider.search(page, "javascript promise", context);
+    await provider.waitForResults(page, context.timeout);
+
+    expect(await provider.extractResults(page, 10)).toEqual([
+      {
+        title: "Promise - JavaScript | MDN",
+        link: "https://developer.mozilla.org/en-US/docs/Web/JavaScript/Reference/Global_Objects/Promise",
+        snippet: "The Promise object represents the eventual completion (or failure) of an asynchronous operation and its resulting value.",
+      },
+      {
+        title: "Promise - The Modern JavaScript Tutorial",
+        link: "https://javascript.info/promise-basics",
+        snippet: "Imagine that you're a top singer, and fans ask day and night for your upcoming song.",
+      },
+      {
+        title: "JavaScript Promises: an introduction",
+        link: "https://web.dev/articles/promises",
+        snippet: "Promises simplify deferred and asynchronous computations.",
+      },
+    ]);
+  });
+
+  it("searches from Google's search box and parses organic results", async () => {
+    const provider = new GoogleSearchProvider(server.url("google-home.html"));
+    await provider.search(page, "rust ownership", { ...context, operators: { safeSearch: 'strict' } });
+    await provider.waitForResults(page, context.timeout);
+
+    const url = new URL(page.url());
+    expect(url.pathname).toBe("/google-results.html");
+    expect(url.searchParams.get("q")).toBe("rust ownership");
+    expect(url.searchParams.get("safe")).toBe("active");
+
+    expect(await provider.extractResults(page, 10)).toEqual([
+      {
+        title: "What is Ownership? - The Rust Programming Language",
+        link: "https://doc.rust-lang.org/book/ch04-01-what-is-ownership.html",
+        snippet: "Ownership is a set of rules that govern how a Rust program manages memory. All programs have to manage the way they use a computer's memory while running.",
+      },
+      {
+        title: "Ownership and moves - Rust By Example",
+        link: "https://doc.rust-lang.org/rust-by-example/scope/move.html",
+        snippet: "Because variables are in charge of freeing their own resources, resources can only have one owner. This also prevents resources from being freed more than once.",
+      },
+    ]);
+  });
+});
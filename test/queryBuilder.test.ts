@@ -0,0 +1,196 @@
+import { describe, expect, it } from "vitest";
+import type { Page } from "playwright";
+import { BingSearchProvider, DuckDuckGoSearchProvider, GoogleSearchProvider, buildQueryString } from "../src/services/providers/index.js";
+import type { ProviderSearchContext, SearchOperators, SearchProvider } from "../src/services/providers/index.js";
+
+interface ParsedQuery {
+  terms: string[];
+  exactPhrases: string[];
+  sites: string[];
+  excludeSites: string[];
+  excludeTerms: string[];
+  fileType?: string;
+  after?: string;
+  before?: string;
+  language?: string;
+}
+
+/**
+ * Read a compiled query string back into its parts, the way an engine tokenizes it
+ */
+function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], exactPhrases: [], sites: [], excludeSites: [], excludeTerms: [] };
+
+  for (const [token] of query.matchAll(/-?"[^"]*"|\([^)]*\)|\S+/g)) {
+    const excluded = token.startsWith("-");
+    const body = excluded ? token.slice(1) : token;
+    const operator = /^(site|filetype|after|before|language):(.+)$/.exec(body);
+
+    if (body.startsWith('"')) {
+      (excluded ? parsed.excludeTerms : parsed.exactPhrases).push(body.slice(1, -1));
+    } else if (body.startsWith("(")) {
+      parsed.sites.push(...body.slice(1, -1).split(" OR ").map(site => site.replace(/^site:/, "")));
+    } else if (operator?.[1] === "site") {
+      (excluded ? parsed.excludeSites : parsed.sites).push(operator[2]);
+    } else if (operator) {
+      const key = operator[1] === "filetype" ? "fileType" : operator[1] as "after" | "before" | "language";
+      parsed[key] = operator[2];
+    } else {
+      (excluded ? parsed.excludeTerms : parsed.terms).push(body);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Stand-in page recording where a provider navigates and what it types into the search box
+ */
+function recordingPage(): { page: Page; url: () => URL } {
+  let current = "about:blank";
+  let typed = "";
+  const page = {
+    goto: async (url: string) => {
+      current = url;
+      return null;
+    },
+    url: () => current,
+    $: async () => ({ click: async () => {} }),
+    keyboard: {
+      type: async (text: string) => {
+        typed += text;
+      },
+      press: async (key: string) => {
+        if (key === "Enter") {
+          current = `${new URL(current).origin}/search?q=${encodeURIComponent(typed)}`;
+        }
+      },
+    },
+    waitForTimeout: async () => {},
+    waitForLoadState: async () => {},
+    waitForURL: async () => {},
+  };
+  return { page: page as unknown as Page, url: () => new URL(current) };
+}
+
+async function compile(provider: SearchProvider, operators: SearchOperators): Promise<URL> {
+  const { page, url } = recordingPage();
+  const context: ProviderSearchContext = {
+    savedState: { googleDomain: "https://www.google.com" },
+    locale: "en-US",
+    timeout: 1000,
+    operators,
+  };
+  await provider.search(page, "javascript promises", context);
+  return url();
+}
+
+const operators: SearchOperators = {
+  sites: ["developer.mozilla.org", "web.dev"],
+  excludeSites: ["w3schools.com"],
+  exactPhrases: ["event loop", 'say "hello" world', "site:evil.example OR filetype:exe"],
+  excludeTerms: ["jquery", "internet explorer", 'ie"6', "--legacy"],
+  fileType: "pdf",
+  dateRange: { after: "2023-01-01", before: "2024-06-30" },
+  language: "de",
+  region: "AT",
+  safeSearch: "strict",
+};
+
+// What every engine should read back from the query string
+const expectedQuery: ParsedQuery = {
+  terms: ["javascript", "promises"],
+  exactPhrases: ["event loop", "say hello world", "site:evil.example OR filetype:exe"],
+  sites: ["developer.mozilla.org", "web.dev"],
+  excludeSites: ["w3schools.com"],
+  excludeTerms: ["jquery", "internet explorer", "ie6", "legacy"],
+  fileType: "pdf",
+};
+
+describe("buildQueryString", () => {
+  it("keeps phrases containing operators quoted, so they stay phrases", () => {
+    const query = buildQueryString("", { exactPhrases: ["site:evil.example OR filetype:exe"] });
+    expect(query).toBe('"site:evil.example OR filetype:exe"');
+    expect(parseQuery(query)).toMatchObject({ exactPhrases: ["site:evil.example OR filetype:exe"], sites: [] });
+  });
+
+  it("drops quotes inside phrases and exclusions instead of leaving them unbalanced", () => {
+    const query = buildQueryString("", { exactPhrases: ['say "hello"'], excludeTerms: ['ie"6', 'old "school" css'] });
+    expect(query).toBe('"say hello" -ie6 -"old school css"');
+    expect(query.split('"').length % 2).toBe(1);
+  });
+
+  it("skips phrases and exclusions that are empty once cleaned", () => {
+    expect(buildQueryString("test", { exactPhrases: ['""', "  "], excludeTerms: ["--", '"'] })).toBe("test");
+  });
+
+  it("compiles the same operators to the same string", () => {
+    expect(buildQueryString("q", operators)).toBe(buildQueryString("q", { ...operators }));
+  });
+});
+
+describe("operator round trip", () => {
+  it("Google reads every operator back from the query and URL parameters", async () => {
+    const url = await compile(new GoogleSearchProvider(), operators);
+    expect(parseQuery(url.searchParams.get("q")!)).toEqual({
+      ...expectedQuery,
+      after: "2023-01-01",
+      before: "2024-06-30",
+    });
+    expect(url.searchParams.get("lr")).toBe("lang_de");
+    expect(url.searchParams.get("cr")).toBe("countryAT");
+    expect(url.searchParams.get("gl")).toBe("at");
+    expect(url.searchParams.get("safe")).toBe("active");
+    expect(url.searchParams.get("tbs")).toBeNull();
+  });
+
+  it("Google maps freshness onto tbs", async () => {
+    expect((await compile(new GoogleSearchProvider(), { freshness: 'week' })).searchParams.get("tbs")).toBe("qdr:w");
+    expect((await compile(new GoogleSearchProvider(), { freshness: { after: "2024-01-05", before: "2024-02-10" } })).searchParams.get("tbs"))
+      .toBe("cdr:1,cd_min:1/5/2024,cd_max:2/10/2024");
+    expect((await compile(new GoogleSearchProvider(), { safeSearch: 'off' })).searchParams.get("safe")).toBe("off");
+  });
+
+  it("DuckDuckGo reads every operator back from the query and URL parameters", async () => {
+    const url = await compile(new DuckDuckGoSearchProvider(), operators);
+    expect(parseQuery(url.searchParams.get("q")!)).toEqual(expectedQuery);
+    expect(url.searchParams.get("kl")).toBe("at-de");
+    expect(url.searchParams.get("kp")).toBe("1");
+    expect(url.searchParams.get("df")).toBe("2023-01-01..2024-06-30");
+  });
+
+  it("DuckDuckGo maps freshness onto df", async () => {
+    expect((await compile(new DuckDuckGoSearchProvider(), { freshness: 'month' })).searchParams.get("df")).toBe("m");
+    expect((await compile(new DuckDuckGoSearchProvider(), { freshness: { after: "2024-01-05", before: "2024-02-10" } })).searchParams.get("df"))
+      .toBe("2024-01-05..2024-02-10");
+    expect((await compile(new DuckDuckGoSearchProvider(), { safeSearch: 'off' })).searchParams.get("kp")).toBe("-2");
+  });
+
+  it("Bing reads every operator back from the query and URL parameters", async () => {
+    const url = await compile(new BingSearchProvider(), operators);
+    expect(parseQuery(url.searchParams.get("q")!)).toEqual({ ...expectedQuery, language: "de" });
+    expect(url.searchParams.get("setlang")).toBe("en");
+    expect(url.searchParams.get("cc")).toBe("AT");
+    expect(url.searchParams.get("adlt")).toBe("strict");
+    expect(url.searchParams.get("filters")).toBe('ex1:"ez5_19358_19904"');
+  });
+
+  it("Bing maps freshness onto its time filter", async () => {
+    expect((await compile(new BingSearchProvider(), { freshness: 'day' })).searchParams.get("filters")).toBe('ex1:"ez1"');
+    expect((await compile(new BingSearchProvider(), { freshness: { after: "2023-01-01", before: "2024-06-30" } })).searchParams.get("filters"))
+      .toBe('ex1:"ez5_19358_19904"');
+  });
+
+  it("leaves engine parameters unset without operators", async () => {
+    const google = await compile(new GoogleSearchProvider(), {});
+    const duckduckgo = await compile(new DuckDuckGoSearchProvider(), {});
+    const bing = await compile(new BingSearchProvider(), {});
+
+    expect(google.searchParams.get("q")).toBe("javascript promises");
+    expect([...google.searchParams.keys()]).toEqual(["q"]);
+    expect(duckduckgo.searchParams.get("kp")).toBeNull();
+    expect(duckduckgo.searchParams.get("df")).toBeNull();
+    expect(bing.searchParams.get("filters")).toBeNull();
+    expect(bing.searchParams.get("adlt")).toBeNull();
+  });
+});
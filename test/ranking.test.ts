@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { applyRankingModel, calibrate } from "../src/quality/ranking.js";
+import { trainRankingModels } from "../src/quality/trainer.js";
+import type { RelevanceJudgment, ScoreComponents, SearchResult } from "../src/quality/types.js";
+
+// Judged results for general queries: documentation pages were useful, thin spammy pages were not
+function judgments(): RelevanceJudgment[] {
+  const topics = ["python list comprehension", "git rebase onto", "css grid layout", "sql window functions", "rust lifetimes", "bash arrays"];
+  return topics.flatMap((query, i) => [
+    {
+      query,
+      domain: "general",
+      relevance: 3,
+      result: {
+        title: `${query} - official documentation`,
+        link: `https://docs.example${i}.org/guide/${query.replace(/ /g, "-")}`,
+        snippet: `A detailed guide to ${query} with examples, explanations of every option and common pitfalls to avoid.`,
+      },
+    },
+    {
+      query,
+      domain: "general",
+      relevance: 0,
+      result: {
+        title: `Best ${query} deals - click here`,
+        link: `http://cheap-offers${i}.biz/${i}`,
+        snippet: "Buy now! Limited offer, click here",
+      },
+    },
+  ]);
+}
+
+const NO_FEATURES: ScoreComponents = {
+  length: 0, relevance: 0, url: 0, domainContent: 0, generalContent: 0, vertical: 0, recency: 0, authority: 0,
+};
+
+// Fixed score components per link, so hand-tuned scores stay clear of the 0 and 1 clamps
+class TableAnalyzer extends SearchQualityAnalyzer {
+  constructor(private readonly table: Record<string, Partial<ScoreComponents>>) {
+    super();
+  }
+
+  extractFeatures(result: SearchResult): ScoreComponents {
+    return { ...NO_FEATURES, ...this.table[result.link] };
+  }
+}
+
+describe("calibrate", () => {
+  const points: [number, number][] = [[0.2, 0.1], [0.5, 0.4], [0.8, 0.9]];
+
+  it("interpolates between points and extends the outer segments, within 0-1", () => {
+    expect(calibrate(points, 0.35)).toBeCloseTo(0.25);
+    expect(calibrate(points, 0.65)).toBeCloseTo(0.65);
+    expect(calibrate(points, 0.1)).toBe(0);
+    expect(calibrate(points, 0.85)).toBeCloseTo(0.9 + 0.05 * 5 / 3);
+    expect(calibrate(points, 0.9)).toBe(1);
+  });
+});
+
+describe("trainRankingModels", () => {
+  it("calibrates each model onto the hand-tuned score scale", () => {
+    const analyzer = new SearchQualityAnalyzer();
+    const examples = judgments();
+    const { models } = trainRankingModels(examples, analyzer);
+    const model = models.general;
+    expect(model.calibration?.length).toBeGreaterThan(1);
+
+    // Both coordinates ascend, so the mapping keeps the model's ranking
+    model.calibration!.slice(1).forEach(([output, score], i) => {
+      expect(output).toBeGreaterThan(model.calibration![i][0]);
+      expect(score).toBeGreaterThanOrEqual(model.calibration![i][1]);
+    });
+
+    // The default threshold keeps the same judgments with or without the model
+    const threshold = analyzer.defaultMinQualityScore("general");
+    const kept = (score: (judgment: RelevanceJudgment) => number) => examples.filter(judgment => score(judgment) >= threshold).length;
+    const handTuned = kept(judgment => analyzer.validateSearchResult({ ...judgment.result }, judgment.query, "general").score ?? 0);
+    const learned = kept(judgment => applyRankingModel(model, analyzer.extractFeatures({ ...judgment.result }, judgment.query, "general")));
+    expect(learned).toBe(handTuned);
+  });
+
+  it("reproduces the hand-tuned ordering, authority boost included, when feedback says nothing", () => {
+    // JavaScript's authority boost is 0.8: an authority link 0.85 below another result ranks under it
+    const table: Record<string, Partial<ScoreComponents>> = {
+      "https://developer.mozilla.org/a": { relevance: -0.45, authority: 1 },
+      "https://blog.example.com/b": { relevance: 0.4 },
+      "https://blog.example.com/c": { relevance: 0.1 },
+      "https://nodejs.org/d": { relevance: -0.4, length: -0.1, authority: 1 },
+      "https://blog.example.com/e": { relevance: -0.2 },
+      "https://blog.example.com/f": { relevance: -0.35 },
+    };
+    const analyzer = new TableAnalyzer(table);
+    const links = Object.keys(table);
+    const result = (link: string) => ({ title: link, link, snippet: link });
+    const query = "javascript array map";
+
+    expect(trainRankingModels([], analyzer).models).toEqual({});
+
+    // Every result judged both useful and not useful
+    const uniform: RelevanceJudgment[] = links.flatMap(link => [0, 3].map(relevance => ({
+      query, domain: "javascript", relevance, result: result(link),
+    })));
+    const rank = (score: (link: string) => number) => [...links].sort((a, b) => score(b) - score(a));
+    const handTuned = rank(link => analyzer.validateSearchResult(result(link), query, "javascript").score!);
+
+    // Without iterations the model is its prior; with them the uninformative feedback moves nothing
+    for (const iterations of [0, 2000]) {
+      const model = trainRankingModels(uniform, analyzer, { iterations }).models.javascript;
+      const learned = rank(link => applyRankingModel({ ...model, calibration: undefined }, analyzer.extractFeatures(result(link))));
+      expect(learned).toEqual(handTuned);
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { ResultCache } from "../src/services/resultCache.js";
+
+describe("ResultCache.key", () => {
+  const key = (collection = {}) => ResultCache.key("Rust  Borrow Checker", "en-US", 10, 'google', undefined, 'web', collection);
+
+  it("keeps the original shape for searches with default collection settings", () => {
+    expect(key()).toBe("google|en-us|10|rust borrow checker");
+  });
+
+  it("tells apart searches whose settings change the pages collected", () => {
+    const keys = [
+      key(),
+      key({ maxPages: 5 }),
+      key({ minQualityScore: 0.6 }),
+      key({ enableQualityFiltering: false }),
+      key({ domain: "medical" }),
+    ];
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("ignores the quality threshold when filtering is off", () => {
+    expect(key({ enableQualityFiltering: false, minQualityScore: 0.6 })).toBe(key({ enableQualityFiltering: false }));
+  });
+});
+
+describe("ResultCache.revalidate", () => {
+  it("runs one background refresh per key for concurrent stale reads", async () => {
+    const cache = new ResultCache("./unused-cache.jsonl");
+    let finish = () => {};
+    let fetches = 0;
+    const refresh = () => {
+      fetches++;
+      return new Promise<void>(resolve => { finish = resolve; });
+    };
+
+    const first = cache.revalidate("google|en-us|10|rust", refresh);
+    const second = cache.revalidate("google|en-us|10|rust", refresh);
+    expect(fetches).toBe(1);
+
+    finish();
+    await Promise.all([first, second]);
+    await cache.revalidate("google|en-us|10|rust", async () => { fetches++; });
+    expect(fetches).toBe(2);
+  });
+
+  it("swallows refresh failures", async () => {
+    const cache = new ResultCache("./unused-cache.jsonl");
+    await expect(cache.revalidate("key", async () => { throw new Error("CAPTCHA_DETECTED"); })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RateLimit, SearchScheduler, TokenBucket, runWindowed } from "../src/services/scheduler.js";
+
+const noJitter = (burst: number, interval: number): RateLimit => ({ burst, interval, jitter: [0, 0] });
+
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => (resolve = r));
+  return { promise, resolve };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("TokenBucket", () => {
+  it("lets a burst through, then refills one token per interval", async () => {
+    const bucket = new TokenBucket(noJitter(2, 1000));
+    await bucket.take();
+    await bucket.take();
+
+    let taken = false;
+    const third = bucket.take().then(() => (taken = true));
+    await vi.advanceTimersByTimeAsync(999);
+    expect(taken).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(taken).toBe(true);
+    await third;
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(bucket.available()).toBe(0.5);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(bucket.available()).toBe(2);
+  });
+
+  it("serves takers in arrival order", async () => {
+    const bucket = new TokenBucket(noJitter(1, 1000));
+    const order: number[] = [];
+    const takers = [1, 2, 3].map(n => bucket.take().then(() => order.push(n)));
+
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(takers);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it("waits the jitter drawn from the random source", async () => {
+    const random = vi.fn(() => 300);
+    const bucket = new TokenBucket({ burst: 1, interval: 1000, jitter: [200, 800] }, random);
+
+    let taken = false;
+    const take = bucket.take().then(() => (taken = true));
+    await vi.advanceTimersByTimeAsync(299);
+    expect(taken).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await take;
+    expect(random).toHaveBeenCalledWith(200, 800);
+  });
+
+  it("does not hold up later takers when a queued one is cancelled", async () => {
+    const bucket = new TokenBucket(noJitter(1, 1000));
+    await bucket.take();
+
+    const controller = new AbortController();
+    const cancelled = bucket.take(controller.signal);
+    let takenAt = 0;
+    const next = bucket.take().then(() => (takenAt = Date.now()));
+    const start = Date.now();
+
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow("SEARCH_CANCELLED");
+
+    await vi.advanceTimersByTimeAsync(500);
+    await next;
+    expect(takenAt - start).toBe(1000);
+  });
+});
+
+describe("SearchScheduler", () => {
+  it("paces each provider by its own rate limit", async () => {
+    const scheduler = new SearchScheduler({
+      maxConcurrent: 10,
+      rateLimits: { google: noJitter(1, 2000), bing: noJitter(1, 500) },
+    });
+    const start = Date.now();
+    const starts: Record<string, number[]> = { google: [], bing: [] };
+    const runs = (['google', 'google', 'google', 'bing', 'bing', 'bing'] as const).map(provider =>
+      scheduler.run(provider, async () => {
+        starts[provider].push(Date.now() - start);
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(4000);
+    await Promise.all(runs);
+    expect(starts.google).toEqual([0, 2000, 4000]);
+    expect(starts.bing).toEqual([0, 500, 1000]);
+  });
+
+  it("caps the searches running at once across providers", async () => {
+    const scheduler = new SearchScheduler({
+      maxConcurrent: 2,
+      rateLimits: { google: noJitter(10, 1), bing: noJitter(10, 1) },
+    });
+    const tasks = [deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    const runs = tasks.map((task, index) =>
+      scheduler.run(index === 1 ? 'bing' : 'google', () => {
+        started.push(index);
+        return task.promise;
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+    expect(scheduler.stats()).toMatchObject({ active: 2, waiting: 1, maxConcurrent: 2 });
+
+    tasks[1].resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1, 2]);
+    expect(scheduler.stats()).toMatchObject({ active: 2, waiting: 0 });
+
+    tasks[0].resolve();
+    tasks[2].resolve();
+    await Promise.all(runs);
+    expect(scheduler.stats()).toMatchObject({ active: 0, waiting: 0 });
+  });
+
+  it("drops a cancelled search from the queue without running it", async () => {
+    const scheduler = new SearchScheduler({ maxConcurrent: 1, rateLimits: { google: noJitter(10, 1) } });
+    const first = deferred();
+    const running = scheduler.run('google', () => first.promise);
+
+    const controller = new AbortController();
+    const task = vi.fn(async () => {});
+    const queued = scheduler.run('google', task, controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.stats().waiting).toBe(1);
+
+    controller.abort();
+    await expect(queued).rejects.toThrow("SEARCH_CANCELLED");
+    expect(scheduler.stats().waiting).toBe(0);
+
+    first.resolve();
+    await running;
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.stats().active).toBe(0);
+  });
+
+  it("removes the abort listener once a queued search gets its slot", async () => {
+    const scheduler = new SearchScheduler({ maxConcurrent: 1, rateLimits: { google: noJitter(10, 1) } });
+    const first = deferred();
+    const running = scheduler.run('google', () => first.promise);
+
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, "addEventListener");
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener");
+    const queued = scheduler.run('google', async () => "done", controller.signal);
+    await vi.advanceTimersByTimeAsync(0);
+
+    first.resolve();
+    await running;
+    await expect(queued).resolves.toBe("done");
+
+    const added = addListener.mock.calls.filter(([type]) => type === "abort").map(([, listener]) => listener);
+    const removed = removeListener.mock.calls.filter(([type]) => type === "abort").map(([, listener]) => listener);
+    expect(added.length).toBeGreaterThan(0);
+    expect(removed).toEqual(added);
+  });
+
+  it("rejects at once when the signal has already aborted", async () => {
+    const scheduler = new SearchScheduler({ rateLimits: { google: noJitter(10, 1) } });
+    const task = vi.fn(async () => {});
+    await expect(scheduler.run('google', task, AbortSignal.abort())).rejects.toThrow("SEARCH_CANCELLED");
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it("frees the slot while a search pauses and queues for it again before going on", async () => {
+    const scheduler = new SearchScheduler({ maxConcurrent: 1, rateLimits: { google: noJitter(10, 1) } });
+    const handoff = deferred();
+    const other = deferred();
+    const steps: string[] = [];
+
+    const paused = scheduler.run('google', async pause => {
+      await pause(() => handoff.promise);
+      steps.push("resumed");
+    });
+    await vi.advanceTimersByTimeAsync(0);
+
+    const running = scheduler.run('google', async () => {
+      steps.push("other started");
+      await other.promise;
+    });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(steps).toEqual(["other started"]);
+
+    handoff.resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(scheduler.stats().waiting).toBe(1);
+
+    other.resolve();
+    await Promise.all([running, paused]);
+    expect(steps).toEqual(["other started", "resumed"]);
+    expect(scheduler.stats().active).toBe(0);
+  });
+
+  it("does not release the slot twice when a paused search fails", async () => {
+    const scheduler = new SearchScheduler({ maxConcurrent: 1, rateLimits: { google: noJitter(10, 1) } });
+    const failed = scheduler.run('google', pause => pause(() => Promise.reject(new Error("CAPTCHA_HANDOFF_TIMEOUT"))));
+    await expect(failed).rejects.toThrow("CAPTCHA_HANDOFF_TIMEOUT");
+    expect(scheduler.stats().active).toBe(0);
+
+    await expect(scheduler.run('google', async () => "next")).resolves.toBe("next");
+    expect(scheduler.stats().active).toBe(0);
+  });
+});
+
+describe("runWindowed", () => {
+  it("starts the next item as soon as any running one finishes, keeping result order", async () => {
+    const durations = [300, 100, 100, 50];
+    const start = Date.now();
+    const starts: Array<[number, number]> = [];
+
+    const run = runWindowed(durations, 2, async (duration, index) => {
+      starts.push([index, Date.now() - start]);
+      await new Promise(resolve => setTimeout(resolve, duration));
+      return index;
+    });
+
+    await vi.advanceTimersByTimeAsync(300);
+    expect(await run).toEqual([0, 1, 2, 3]);
+    expect(starts).toEqual([[0, 0], [1, 0], [2, 100], [3, 200]]);
+  });
+
+  it("starts no further items after a failure and throws it once the running ones settle", async () => {
+    const started: number[] = [];
+    const run = runWindowed([0, 1, 2, 3], 2, async index => {
+      started.push(index);
+      await new Promise(resolve => setTimeout(resolve, index === 0 ? 100 : 200));
+      if (index === 0) {
+        throw new Error("boom");
+      }
+      return index;
+    });
+    const outcome = expect(run).rejects.toThrow("boom");
+
+    await vi.advanceTimersByTimeAsync(200);
+    await outcome;
+    expect(started).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,60 @@
+import type { BrowserContext, Page } from "playwright";
+import { describe, expect, it, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createServer } from "../src/server.js";
+import { BrowserPool } from "../src/services/browserPool.js";
+import { captchaHandoff } from "../src/services/captchaHandoff.js";
+import { GoogleSearchProvider } from "../src/services/providers/google.js";
+import { ConcurrencyLimiter } from "../src/utils/concurrency.js";
+
+// The search tool reads the --debug flag from the entry point, which would start a server
+vi.mock("../src/index.js", () => ({ isDebugMode: false }));
+
+const page = { screenshot: async () => Buffer.from("png"), url: () => "https://www.google.com/sorry/index" } as unknown as Page;
+const context = { addCookies: vi.fn(async () => {}) } as unknown as BrowserContext;
+
+describe("createServer", () => {
+  it("resolves a CAPTCHA while the client's only limiter slot is held by the blocked search", async () => {
+    captchaHandoff.configure({ enabled: true });
+    const limiter = new ConcurrencyLimiter(1);
+
+    // Stands in for a search that took the client's slot and then hit a CAPTCHA
+    let challengeId = "";
+    const search = limiter.run("alice", () => captchaHandoff.handOff(page, context, new GoogleSearchProvider(), "query", undefined, challenge => {
+      challengeId = challenge.id;
+    }, "alice"));
+    await vi.waitFor(() => expect(challengeId).not.toBe(""));
+
+    const server = createServer({ browserPool: new BrowserPool(), limiter, clientId: "alice", remote: true });
+    const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    const cookies = [{ name: "NID", value: "1", domain: ".google.com", path: "/" }];
+    const result = await client.callTool({
+      name: "resolve_captcha",
+      arguments: { id: challengeId, storageState: { cookies } },
+    });
+
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toMatchObject({ state: "resolved", pending: [] });
+    await search;
+    expect(context.addCookies).toHaveBeenCalledWith(cookies);
+    await client.close();
+  });
+
+  it("refuses writes to the server's rules and feedback files from remote clients", async () => {
+    const server = createServer({ browserPool: new BrowserPool(), clientId: "alice", remote: true });
+    const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+    await expect(client.callTool({ name: "set_source_rule", arguments: { host: "example.com", action: "block" } }))
+      .rejects.toThrow("--allow-remote-writes");
+    await expect(client.callTool({
+      name: "rate_result",
+      arguments: { query: "q", result: { title: "t", link: "https://example.com/", snippet: "s" }, relevance: 3 },
+    })).rejects.toThrow("--allow-remote-writes");
+    await client.close();
+  });
+});
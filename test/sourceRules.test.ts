@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { SearchQualityAnalyzer } from "../src/quality/analyzer.js";
+import { defaultQualityConfig } from "../src/quality/config.js";
+import { DomainRegistry } from "../src/quality/registry.js";
+import { SourceRuleSet } from "../src/quality/sourceRules.js";
+import type { SearchResult } from "../src/quality/types.js";
+
+let dir: string;
+let rules: SourceRuleSet;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "source-rules-"));
+  rules = new SourceRuleSet();
+  rules.loadFile(path.join(dir, "rules.json"));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("SourceRuleSet", () => {
+  it("saves rule changes to its file and loads them back", () => {
+    expect(rules.list()).toEqual([]);
+    rules.set({ host: "https://www.Example.com/docs", action: "boost", boost: 0.2 });
+    rules.set({ host: "example.com", action: "allow" });
+    rules.set({ host: "spam.biz", action: "block", domain: "javascript" });
+
+    const reloaded = new SourceRuleSet();
+    expect(reloaded.loadFile(path.join(dir, "rules.json"))).toBe(2);
+    expect(reloaded.list()).toEqual([
+      { host: "example.com", action: "allow" },
+      { host: "spam.biz", action: "block", domain: "javascript" },
+    ]);
+    expect(reloaded.list("medical")).toEqual([{ host: "example.com", action: "allow" }]);
+
+    expect(reloaded.remove("spam.biz")).toBe(false);
+    expect(reloaded.remove("spam.biz", "javascript")).toBe(true);
+    expect(new SourceRuleSet().loadFile(path.join(dir, "rules.json"))).toBe(1);
+  });
+
+  it("rejects invalid rules without changing the file", () => {
+    expect(() => rules.set({ host: "example.com", action: "boost", boost: 2 }))
+      .toThrow("Invalid source rule in set_source_rule: example.com boost must be a number between -1 and 1");
+    expect(() => rules.set({ host: "not a host", action: "block" })).toThrow("is not a hostname");
+    expect(fs.existsSync(path.join(dir, "rules.json"))).toBe(false);
+  });
+
+  it("matches a host and its subdomains, preferring the longest host", () => {
+    rules.set({ host: "example.com", action: "block" });
+    rules.set({ host: "docs.example.com", action: "allow" });
+
+    expect(rules.match("https://example.com/page", "general")?.action).toBe("block");
+    expect(rules.match("https://blog.example.com/post", "general")?.action).toBe("block");
+    expect(rules.match("https://api.docs.example.com/v1", "general")?.action).toBe("allow");
+    expect(rules.match("https://notexample.com/", "general")).toBeUndefined();
+    expect(rules.match("not a url", "general")).toBeUndefined();
+  });
+
+  it("prefers rules scoped to the query's domain over unscoped ones", () => {
+    rules.set({ host: "docs.example.com", action: "allow" });
+    rules.set({ host: "example.com", action: "block", domain: "javascript" });
+
+    expect(rules.match("https://docs.example.com/", "javascript")?.action).toBe("block");
+    expect(rules.match("https://docs.example.com/", "medical")?.action).toBe("allow");
+  });
+});
+
+describe("source rules in scoring", () => {
+  const result: SearchResult = {
+    title: "Understanding closures in JavaScript",
+    link: "https://blog.example.com/closures",
+    snippet: "A closure gives a JavaScript function access to variables from its enclosing scope, even after it returns.",
+  };
+  const analyzer = () => new SearchQualityAnalyzer(defaultQualityConfig, new DomainRegistry(), rules);
+  const explainUrl = () => analyzer().validateSearchResult(result, "javascript closures", "javascript", true)
+    .explanation!.domains[0].components.find(component => component.component === "url")!;
+
+  it("scores allowed sites as trusted and adds boosts to the URL score", () => {
+    const baseline = explainUrl().value;
+
+    rules.set({ host: "example.com", action: "boost", boost: -0.3 });
+    expect(explainUrl().value).toBeCloseTo(baseline - 0.3);
+
+    rules.set({ host: "example.com", action: "allow" });
+    expect(explainUrl()).toMatchObject({ value: 0.7, rules: ["source rule allow example.com: +0.7"] });
+  });
+
+  it("drops blocked sites before scoring, recording the rule in explain mode", () => {
+    rules.set({ host: "example.com", action: "block", domain: "javascript" });
+    const filteredOut: SearchResult[] = [];
+
+    expect(analyzer().applyQualityFiltering([result], "javascript closures", 0, "javascript", true, filteredOut)).toEqual([]);
+    expect(filteredOut[0].explanation).toMatchObject({ filtered: true, blockedBy: "block example.com in javascript" });
+    expect(analyzer().applyQualityFiltering([result], "javascript closures", 0, "general")).toHaveLength(1);
+  });
+});